@@ -0,0 +1,25 @@
+// libsession_util_nodejs is a native module from a GitHub release; when it is not installed,
+// the config sync tests run against the in-memory stand-in in tests/mocks
+function isInstalled(name) {
+  try {
+    require.resolve(name);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  transform: {
+    '^.+\\.ts$': 'ts-jest',
+    // @stablelib, @noble, @scure and @session.js ship ES modules only, so they are compiled to CommonJS as well
+    '^.+\\.js$': ['ts-jest', { tsconfig: { allowJs: true, module: 'commonjs', target: 'ES2020' }, isolatedModules: true }]
+  },
+  transformIgnorePatterns: ['/node_modules/(?!(@stablelib|@noble|@scure|@session\\.js)/)'],
+  moduleNameMapper: isInstalled('libsession_util_nodejs')
+    ? {}
+    : { '^libsession_util_nodejs$': '<rootDir>/tests/mocks/libsession_util_nodejs.ts' }
+};
@@ -0,0 +1,189 @@
+import * as hex from '@stablelib/hex';
+import { convertPublicKeyToX25519 } from '@stablelib/ed25519';
+import { CryptoUtils } from './crypto';
+import { assertSubaccountPermission, decodeSubaccountToken, SubaccountPermission } from './subaccount-manager';
+
+const SESSION_ID_PREFIX = 0x05;
+
+/**
+ * Fields a strategy adds to storage RPC params
+ */
+export interface AuthFields {
+  pubkey_ed25519?: string;
+  subaccount?: string;
+  subaccount_sig?: string;
+}
+
+/**
+ * Fields a strategy adds to push server requests
+ */
+export interface PushAuthFields {
+  session_ed25519?: string;
+  subaccount?: string;
+  subaccount_sig?: string;
+}
+
+/**
+ * How a request proves control of an account: the pubkey it names, the extra fields it carries
+ * and the key that signs it
+ * PostmanParamsGenerator builds every signed request through one of these, so a new mode only
+ * needs a new strategy
+ */
+export interface AuthStrategy {
+  /** Account pubkey sent as `pubkey` (network prefix + 32 bytes, hex) */
+  getPubkey(): string;
+  /** Extra fields for storage RPCs */
+  getAuthFields(): AuthFields;
+  /** Extra fields for push server requests */
+  getPushAuthFields(): PushAuthFields;
+  /**
+   * Sign the signing string of a request
+   * `permission` holds the subaccount permission bits the method needs (0 for owner-only methods)
+   * and `method` names it in errors
+   */
+  sign(message: string, permission: number, method: string): string;
+}
+
+/**
+ * The account owner signs with its Ed25519 key; pubkey is 00 + the Ed25519 pubkey
+ */
+export class OwnerEd25519AuthStrategy implements AuthStrategy {
+  private crypto: CryptoUtils;
+
+  constructor(crypto: CryptoUtils) {
+    this.crypto = crypto;
+  }
+
+  getPubkey(): string {
+    return `00${this.crypto.getPublicKeyHex()}`;
+  }
+
+  getAuthFields(): AuthFields {
+    return {};
+  }
+
+  getPushAuthFields(): PushAuthFields {
+    return {};
+  }
+
+  sign(message: string): string {
+    return this.crypto.signMessage(message);
+  }
+}
+
+/**
+ * A Session account: pubkey is the 05 Session ID (X25519) and the Ed25519 key that signs
+ * is sent alongside it, as pubkey_ed25519 (storage) or session_ed25519 (push)
+ */
+export class SessionIdAuthStrategy implements AuthStrategy {
+  private crypto: CryptoUtils;
+
+  constructor(crypto: CryptoUtils) {
+    this.crypto = crypto;
+  }
+
+  getPubkey(): string {
+    return `05${this.crypto.getX25519PublicKeyHex()}`;
+  }
+
+  getAuthFields(): AuthFields {
+    return { pubkey_ed25519: this.crypto.getPublicKeyHex() };
+  }
+
+  getPushAuthFields(): PushAuthFields {
+    return { session_ed25519: this.crypto.getPublicKeyHex() };
+  }
+
+  sign(message: string): string {
+    return this.crypto.signMessage(message);
+  }
+}
+
+/**
+ * A closed group account: pubkey is 03 + the group's Ed25519 pubkey and the group admin key
+ * (the group's Ed25519 secret key) signs
+ */
+export class GroupAuthStrategy implements AuthStrategy {
+  private groupCrypto: CryptoUtils;
+
+  constructor(groupCrypto: CryptoUtils) {
+    this.groupCrypto = groupCrypto;
+  }
+
+  getPubkey(): string {
+    return `03${this.groupCrypto.getPublicKeyHex()}`;
+  }
+
+  getAuthFields(): AuthFields {
+    return {};
+  }
+
+  getPushAuthFields(): PushAuthFields {
+    return {};
+  }
+
+  sign(message: string): string {
+    return this.groupCrypto.signMessage(message);
+  }
+}
+
+/**
+ * A delegate holding a subaccount token of the owner's account signs with the blinded key
+ * embedded in the token; the token's permission bits are checked before signing
+ * The account is addressed on the network of the token's prefix byte: 05 sends the owner's Session ID
+ * (with the owner's Ed25519 pubkey alongside), 00 and 03 send the owner's or group's Ed25519 pubkey
+ * networkPrefix picks the network for tokens with the any-prefix permission
+ */
+export class SubaccountAuthStrategy implements AuthStrategy {
+  private ownerEd25519Pubkey: Uint8Array;
+  private token: string;
+  private tokenSignature: string;
+  private holder: CryptoUtils;
+  private networkPrefix?: number;
+  private blindedSecretKey?: Uint8Array;
+
+  constructor(ownerEd25519Pubkey: Uint8Array, subaccountToken: string, subaccountSignature: string, holder: CryptoUtils, networkPrefix?: number) {
+    this.ownerEd25519Pubkey = ownerEd25519Pubkey;
+    this.token = subaccountToken;
+    this.tokenSignature = subaccountSignature;
+    this.holder = holder;
+    this.networkPrefix = networkPrefix;
+  }
+
+  getPubkey(): string {
+    const prefix = this.getNetworkPrefix();
+    const key = prefix === SESSION_ID_PREFIX ? convertPublicKeyToX25519(this.ownerEd25519Pubkey) : this.ownerEd25519Pubkey;
+    return `${prefix.toString(16).padStart(2, '0')}${hex.encode(key)}`;
+  }
+
+  getAuthFields(): AuthFields {
+    return {
+      ...(this.getNetworkPrefix() === SESSION_ID_PREFIX && { pubkey_ed25519: hex.encode(this.ownerEd25519Pubkey) }),
+      subaccount: this.token,
+      subaccount_sig: this.tokenSignature
+    };
+  }
+
+  getPushAuthFields(): PushAuthFields {
+    return {
+      ...(this.getNetworkPrefix() === SESSION_ID_PREFIX && { session_ed25519: hex.encode(this.ownerEd25519Pubkey) }),
+      subaccount: this.token,
+      subaccount_sig: this.tokenSignature
+    };
+  }
+
+  sign(message: string, permission: number, method: string): string {
+    if (permission === 0) {
+      throw new Error(`Subaccount token cannot ${method}: only the account owner can`);
+    }
+    assertSubaccountPermission(this.token, permission, method);
+    this.blindedSecretKey ??= this.holder.deriveBlindedSubaccountKey(this.ownerEd25519Pubkey);
+    return this.holder.signWithBlindedScalar(message, this.blindedSecretKey);
+  }
+
+  private getNetworkPrefix(): number {
+    const token = decodeSubaccountToken(this.token);
+    const anyPrefix = (token[1] & SubaccountPermission.AnyPrefix) !== 0;
+    return anyPrefix && this.networkPrefix !== undefined ? this.networkPrefix : token[0];
+  }
+}
@@ -0,0 +1,188 @@
+import { ApiRequest, PostmanParamsGenerator } from './postman-params';
+import { createStorageRpcError, StorageRpcError, StorageSequenceAbortedError } from './errors';
+import { parseResponse } from './response-parser';
+import {
+  BatchRequest,
+  BatchResult,
+  StoreResult,
+  RetrieveResult,
+  DeleteResult,
+  ExpireResult,
+  GetExpiriesResult
+} from './types';
+
+/**
+ * Maximum number of sub-requests the storage server accepts in one batch/sequence
+ */
+export const MAX_BATCH_REQUESTS = 20;
+
+export type BatchMode = 'batch' | 'sequence';
+
+/**
+ * Reference to a sub-request, used to look up its typed result
+ */
+export interface BatchHandle<T = any> {
+  readonly index: number;
+  readonly method: string;
+  // Phantom field carrying the result type; never set at runtime
+  readonly __result?: T;
+}
+
+export type BatchOutcome<T = any> =
+  | { ok: true; code: number; result: T }
+  | { ok: false; code: number; error: StorageRpcError };
+
+/**
+ * Collects sub-requests built by PostmanParamsGenerator into a single `batch` or `sequence` RPC
+ * `batch` runs every sub-request; `sequence` runs them in order and stops at the first failure
+ */
+export class BatchRequestBuilder {
+  private generator: PostmanParamsGenerator;
+  private mode: BatchMode;
+  private requests: ApiRequest[] = [];
+
+  constructor(generator: PostmanParamsGenerator, mode: BatchMode = 'batch') {
+    this.generator = generator;
+    this.mode = mode;
+  }
+
+  /**
+   * Add a prepared sub-request
+   */
+  add<T = any>(request: ApiRequest): BatchHandle<T> {
+    if (request.method === 'batch' || request.method === 'sequence') {
+      throw new Error(`Cannot nest a ${request.method} request inside a ${this.mode}`);
+    }
+    if (this.requests.length >= MAX_BATCH_REQUESTS) {
+      throw new Error(`A ${this.mode} request is limited to ${MAX_BATCH_REQUESTS} sub-requests`);
+    }
+    this.requests.push(request);
+    return { index: this.requests.length - 1, method: request.method };
+  }
+
+  /**
+   * Add a store sub-request
+   */
+  store(data: string, ttl?: number, namespace?: number): BatchHandle<StoreResult> {
+    return this.add<StoreResult>(this.generator.getStoreParams(data, ttl, namespace));
+  }
+
+  /**
+   * Add a retrieve sub-request
+   */
+  retrieve(lastHash?: string, namespace?: number, maxCount?: number, maxSize?: number): BatchHandle<RetrieveResult> {
+    return this.add<RetrieveResult>(this.generator.getRetrieveParams(lastHash, namespace, maxCount, maxSize));
+  }
+
+  /**
+   * Add a delete sub-request
+   */
+  delete(messages: string[], required?: boolean): BatchHandle<DeleteResult> {
+    return this.add<DeleteResult>(this.generator.getDeleteParams(messages, required));
+  }
+
+  /**
+   * Add an expire sub-request
+   */
+  expire(messages: string[], expiry: number, shorten?: boolean, extend?: boolean): BatchHandle<ExpireResult> {
+    return this.add<ExpireResult>(this.generator.getExpireMsgsParams(messages, expiry, shorten, extend));
+  }
+
+  /**
+   * Add a get_expiries sub-request
+   */
+  getExpiries(messages: string[]): BatchHandle<GetExpiriesResult> {
+    return this.add<GetExpiriesResult>(this.generator.getExpiriesParams(messages));
+  }
+
+  /**
+   * Number of collected sub-requests
+   */
+  size(): number {
+    return this.requests.length;
+  }
+
+  /**
+   * Build the combined batch/sequence request
+   */
+  build(): ApiRequest<BatchRequest> {
+    if (this.requests.length === 0) {
+      throw new Error(`A ${this.mode} request needs at least one sub-request`);
+    }
+    return {
+      method: this.mode,
+      params: {
+        requests: this.requests.map(({ method, params }) => ({ method, params }))
+      }
+    };
+  }
+
+  /**
+   * Split the combined response back into per-request results
+   */
+  parse(response: BatchResult): BatchResults {
+    return new BatchResults(this.requests.map(request => request.method), response);
+  }
+}
+
+/**
+ * Per-request view of a batch/sequence response
+ */
+export class BatchResults {
+  private methods: string[];
+  private results: BatchResult['results'];
+
+  constructor(methods: string[], response: BatchResult) {
+    if (!response || !Array.isArray(response.results)) {
+      throw new Error('Invalid batch response: missing results array');
+    }
+    if (response.results.length > methods.length) {
+      throw new Error(`Invalid batch response: ${response.results.length} results for ${methods.length} requests`);
+    }
+    this.methods = methods;
+    this.results = response.results;
+  }
+
+  /**
+   * Get the outcome of a sub-request without throwing
+   */
+  outcome<T>(handle: BatchHandle<T>): BatchOutcome<T> {
+    const method = this.methods[handle.index];
+    const entry = this.results[handle.index];
+
+    // A sequence returns fewer results when it stops at a failed sub-request
+    if (!entry) {
+      return { ok: false, code: 0, error: new StorageSequenceAbortedError(method) };
+    }
+    if (entry.code < 200 || entry.code >= 300) {
+      const message = typeof entry.body === 'string' ? entry.body : JSON.stringify(entry.body);
+      return { ok: false, code: entry.code, error: createStorageRpcError(method, entry.code, message, entry.body) };
+    }
+    try {
+      return { ok: true, code: entry.code, result: parseResponse<T>(method, entry.body) };
+    } catch (error) {
+      if (error instanceof StorageRpcError) {
+        return { ok: false, code: entry.code, error };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the result of a sub-request, throwing its typed error if it failed
+   */
+  get<T>(handle: BatchHandle<T>): T {
+    const outcome = this.outcome(handle);
+    if (!outcome.ok) {
+      throw outcome.error;
+    }
+    return outcome.result;
+  }
+
+  /**
+   * Get the outcomes of every sub-request in order
+   */
+  all(): BatchOutcome[] {
+    return this.methods.map((method, index) => this.outcome({ index, method }));
+  }
+}
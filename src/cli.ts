@@ -0,0 +1,834 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { promises as fs } from 'fs';
+import * as hex from '@stablelib/hex';
+import * as base64 from '@stablelib/base64';
+import * as ed25519 from '@stablelib/ed25519';
+import { CryptoUtils, CryptoUtilsOptions, ed25519PubkeysFromX25519, fixedClock } from './crypto';
+import { mnemonicToSeed, splitMnemonic } from './mnemonic';
+import { Keystore } from './keystore';
+import { ApiRequest, PostmanParamsGenerator } from './postman-params';
+import { BatchMode, BatchRequestBuilder } from './batch-builder';
+import { StorageClient } from './storage-client';
+import { PushClient } from './push-client';
+import { decryptPushNotification } from './push-notification';
+import { PushServerError, StorageRpcError } from './errors';
+import { PushSubscribeParams, PushUnsubscribeParams } from './types';
+import { formatVerificationReport, verifyRequest } from './request-verifier';
+import { SubaccountAuthStrategy } from './auth-strategy';
+import { decodeSubaccountToken, SubaccountManager } from './subaccount-manager';
+
+/** Environment variable read for the seed when no seed option is given */
+export const DEFAULT_SEED_ENV = 'OXEN_STORAGE_SEED';
+/** Environment variable holding the keystore password */
+export const DEFAULT_PASSWORD_ENV = 'OXEN_STORAGE_PASSWORD';
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env: Record<string, string | undefined>;
+}
+
+const OPTIONS = {
+  // Keys
+  seed: { type: 'string' },
+  'seed-file': { type: 'string' },
+  'seed-env': { type: 'string' },
+  mnemonic: { type: 'string' },
+  passphrase: { type: 'string' },
+  keystore: { type: 'string' },
+  identity: { type: 'string' },
+  'password-env': { type: 'string' },
+  format: { type: 'string' },
+  'session-id': { type: 'boolean' },
+  // Subaccount mode
+  owner: { type: 'string' },
+  'subaccount-token': { type: 'string' },
+  'subaccount-sig': { type: 'string' },
+  // Request parameters
+  namespace: { type: 'string' },
+  ttl: { type: 'string' },
+  data: { type: 'string' },
+  to: { type: 'string' },
+  'last-hash': { type: 'string' },
+  'max-count': { type: 'string' },
+  'max-size': { type: 'string' },
+  hash: { type: 'string', multiple: true },
+  optional: { type: 'boolean' },
+  before: { type: 'string' },
+  expiry: { type: 'string' },
+  shorten: { type: 'boolean' },
+  extend: { type: 'boolean' },
+  token: { type: 'string', multiple: true },
+  target: { type: 'string' },
+  permissions: { type: 'string' },
+  'network-prefix': { type: 'string' },
+  namespaces: { type: 'string' },
+  service: { type: 'string' },
+  'service-token': { type: 'string' },
+  'no-data': { type: 'boolean' },
+  'enc-key': { type: 'string' },
+  payload: { type: 'string' },
+  endpoint: { type: 'string' },
+  params: { type: 'string' },
+  request: { type: 'string' },
+  // Output
+  url: { type: 'string' },
+  insecure: { type: 'boolean' },
+  timeout: { type: 'string' },
+  // Clock
+  now: { type: 'string' },
+  'clock-offset': { type: 'string' },
+  help: { type: 'boolean', short: 'h' }
+} as const;
+
+// Options that apply to a whole batch/sequence and cannot appear in its sub-request command lines
+const BATCH_OPTIONS = new Set<string>([
+  'seed', 'seed-file', 'seed-env', 'mnemonic', 'passphrase', 'keystore', 'identity', 'password-env', 'session-id',
+  'owner', 'subaccount-token', 'subaccount-sig', 'request', 'url', 'insecure', 'timeout', 'now', 'clock-offset', 'help'
+]);
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+interface CommandContext {
+  values: CliValues;
+  io: CliIO;
+  /** Generator of the account the request is for; throws when no seed was given */
+  generator: () => PostmanParamsGenerator;
+}
+
+interface Command {
+  summary: string;
+  /** Options shown in the usage text */
+  usage: string;
+  /** The command can be signed with a subaccount token */
+  subaccount?: boolean;
+  /** The command reads the key options itself, or needs none */
+  keyless?: boolean;
+  /** Build a storage RPC request, printed or sent to `<url>/storage_rpc/v1` */
+  build?: (ctx: CommandContext) => ApiRequest | Promise<ApiRequest>;
+  /** Build a push server request, printed or sent to `<url><path>` */
+  push?: { path: '/subscribe' | '/unsubscribe'; build: (ctx: CommandContext) => PushSubscribeParams | PushUnsubscribeParams };
+  /** Commands that do not produce a request */
+  run?: (ctx: CommandContext) => Promise<number>;
+}
+
+/**
+ * Thrown for invalid command lines; reported with exit code 2
+ */
+class UsageError extends Error {}
+
+const COMMANDS: Record<string, Command> = {
+  store: {
+    summary: 'Store a message',
+    usage: '--data <text|@file> [--namespace 0] [--ttl 86400000]',
+    subaccount: true,
+    build: async ({ values, generator }) => {
+      const data = await readValue(requireOption(values, 'data'));
+      const ttl = intOption(values, 'ttl') ?? 86400000;
+      const namespace = intOption(values, 'namespace') ?? 0;
+      return generator().getStoreParams(data, ttl, namespace);
+    }
+  },
+  'store-encrypted': {
+    summary: 'Encrypt a message for a Session ID and store it in that account',
+    usage: '--to <05 Session ID> --data <text|@file> [--namespace 0] [--ttl 86400000]',
+    build: async ({ values, generator }) =>
+      generator().getEncryptedStoreParams(
+        await readValue(requireOption(values, 'data')),
+        requireOption(values, 'to'),
+        intOption(values, 'ttl'),
+        intOption(values, 'namespace')
+      )
+  },
+  retrieve: {
+    summary: 'Retrieve messages',
+    usage: '[--namespace 0] [--last-hash <hash>] [--max-count 100] [--max-size -5]',
+    subaccount: true,
+    build: ({ values, generator }) => {
+      const lastHash = values['last-hash'];
+      const namespace = intOption(values, 'namespace') ?? 0;
+      const maxCount = intOption(values, 'max-count') ?? 100;
+      const maxSize = intOption(values, 'max-size') ?? -5;
+      return generator().getRetrieveParams(lastHash, namespace, maxCount, maxSize);
+    }
+  },
+  delete: {
+    summary: 'Delete messages by hash',
+    usage: '--hash <hash>[,<hash>...] [--optional]',
+    subaccount: true,
+    build: ({ values, generator }) => {
+      const messages = hashesOption(values);
+      const required = !values.optional;
+      return generator().getDeleteParams(messages, required);
+    }
+  },
+  'delete-all': {
+    summary: 'Delete every message in a namespace',
+    usage: '[--namespace 0]',
+    subaccount: true,
+    build: ({ values, generator }) => {
+      const namespace = intOption(values, 'namespace') ?? 0;
+      return generator().getDeleteAllParams(namespace);
+    }
+  },
+  'delete-before': {
+    summary: 'Delete messages stored before a timestamp',
+    usage: '--before <ms> [--namespace <n>|all]',
+    subaccount: true,
+    build: ({ values, generator }) => {
+      const before = requireInt(values, 'before');
+      const namespace = values.namespace === 'all' ? 'all' : intOption(values, 'namespace');
+      return generator().getDeleteBeforeParams(before, namespace);
+    }
+  },
+  update: {
+    summary: 'Replace the data of a message',
+    usage: '--hash <hash> --data <text|@file>',
+    subaccount: true,
+    build: async ({ values, generator }) => {
+      const [hash, ...rest] = hashesOption(values);
+      if (rest.length > 0) {
+        throw new UsageError('update takes a single --hash');
+      }
+      const data = await readValue(requireOption(values, 'data'));
+      return generator().getUpdateParams(data, hash);
+    }
+  },
+  expire: {
+    summary: 'Change the expiry of messages',
+    usage: '--hash <hash>[,<hash>...] --expiry <ms> [--shorten|--extend]',
+    subaccount: true,
+    build: ({ values, generator }) => {
+      const messages = hashesOption(values);
+      const expiry = requireInt(values, 'expiry');
+      return generator().getExpireMsgsParams(messages, expiry, values.shorten, values.extend);
+    }
+  },
+  'expire-all': {
+    summary: 'Change the expiry of every message',
+    usage: '--expiry <ms> [--namespace <n>|all]',
+    subaccount: true,
+    build: ({ values, generator }) => {
+      const expiry = requireInt(values, 'expiry');
+      const namespace = values.namespace === 'all' ? 'all' : intOption(values, 'namespace');
+      return generator().getExpireAllParams(expiry, namespace);
+    }
+  },
+  'get-expiries': {
+    summary: 'Get the expiry of messages',
+    usage: '--hash <hash>[,<hash>...]',
+    subaccount: true,
+    build: ({ values, generator }) => {
+      const messages = hashesOption(values);
+      return generator().getExpiriesParams(messages);
+    }
+  },
+  'get-messages': {
+    summary: 'Get the messages of the account',
+    usage: '',
+    subaccount: true,
+    build: ({ generator }) => generator().getMessagesParams()
+  },
+  batch: {
+    summary: 'Run several requests in one batch RPC',
+    usage: '--request <json|@file>',
+    subaccount: true,
+    build: ctx => buildBatch(ctx, 'batch')
+  },
+  sequence: {
+    summary: 'Run several requests in order, stopping at the first failure',
+    usage: '--request <json|@file>',
+    subaccount: true,
+    build: ctx => buildBatch(ctx, 'sequence')
+  },
+  'get-swarm': {
+    summary: 'Get the swarm of the account',
+    usage: '',
+    build: ({ generator }) => generator().getSwarmParams()
+  },
+  'revoke-subaccount': {
+    summary: 'Revoke a subaccount token',
+    usage: '--token <token>',
+    build: ({ values, generator }) => {
+      const [token, ...rest] = tokensOption(values);
+      if (rest.length > 0) {
+        throw new UsageError('revoke-subaccount takes a single --token');
+      }
+      return generator().getRevokeSubaccountParams(token);
+    }
+  },
+  'unrevoke-subaccount': {
+    summary: 'Lift the revocation of subaccount tokens',
+    usage: '--token <token>[,<token>...]',
+    build: ({ values, generator }) => generator().getUnrevokeSubaccountParams(tokensOption(values))
+  },
+  'revoked-subaccounts': {
+    summary: 'List revoked subaccount tokens',
+    usage: '',
+    build: ({ generator }) => generator().getRevokedSubaccountsParams()
+  },
+  'get-version': {
+    summary: 'Get the storage server version',
+    usage: '',
+    build: ({ generator }) => generator().getVersionParams()
+  },
+  'get-stats': {
+    summary: 'Get storage server statistics',
+    usage: '',
+    build: ({ generator }) => generator().getStatsParams()
+  },
+  'get-bstats': {
+    summary: 'Get storage server bandwidth statistics',
+    usage: '',
+    build: ({ generator }) => generator().getBStatsParams()
+  },
+  'oxend-request': {
+    summary: 'Forward a request to the oxend of the node',
+    usage: '[--endpoint get_service_nodes] [--params <json|@file>]',
+    build: async ({ values, generator }) => {
+      const params = values.params === undefined ? {} : parseJson(await readValue(values.params), '--params');
+      return generator().getOxendRequestParams(values.endpoint ?? 'get_service_nodes', params);
+    }
+  },
+  'push-subscribe': {
+    summary: 'Subscribe to push notifications (sent to the push server)',
+    usage: '[--namespaces -400,0,1,2,17] [--no-data] [--service apns] [--service-token <token>] [--enc-key <hex>]',
+    subaccount: true,
+    push: {
+      path: '/subscribe',
+      build: ({ values, generator }) => {
+        const namespaces = values.namespaces?.split(',').map(namespace => parseInteger(namespace, '--namespaces'));
+        const serviceInfo = values['service-token'] !== undefined ? { token: values['service-token'] } : undefined;
+        if (values['enc-key'] !== undefined) {
+          generator().setPushEncKey(parseEncKey(values['enc-key'], '--enc-key'));
+        }
+        return generator().getPushSubscribeParams(namespaces, !values['no-data'], values.service, serviceInfo);
+      }
+    }
+  },
+  'push-unsubscribe': {
+    summary: 'Remove a push notification subscription (sent to the push server)',
+    usage: '[--service apns] [--service-token <token>]',
+    subaccount: true,
+    push: {
+      path: '/unsubscribe',
+      build: ({ values, generator }) => {
+        const service = values.service ?? 'apns';
+        const serviceInfo = values['service-token'] !== undefined ? { token: values['service-token'] } : undefined;
+        return generator().getPushUnsubscribeParams(service, serviceInfo);
+      }
+    }
+  },
+  'push-decrypt': {
+    summary: 'Decrypt a push notification payload with the enc_key of its subscription',
+    usage: '--enc-key <hex> --payload <base64|@file>',
+    keyless: true,
+    run: async ({ values, io }) => {
+      const encKey = parseEncKey(requireOption(values, 'enc-key'), '--enc-key');
+      const payload = (await readValue(requireOption(values, 'payload'))).trim();
+      const { metadata, data } = await decryptPushNotification(payload, encKey);
+      printJson(io, { ...metadata, ...(data && { data: base64.encode(data) }) });
+      return 0;
+    }
+  },
+  delegate: {
+    summary: 'Create a subaccount token and signature for another key (recorded when the key comes from a keystore)',
+    usage: '--target <ed25519 pubkey> [--permissions 1] [--network-prefix <prefix of the account pubkey>]',
+    run: async ({ values, io, generator }) => {
+      const target = requireOption(values, 'target');
+      const permissions = intOption(values, 'permissions') ?? 1;
+      // Defaults to the account's own network (00, or 05 with --session-id) so the token works with --owner as printed
+      const networkPrefix = intOption(values, 'network-prefix');
+
+      const identity = keystoreIdentity(values);
+      if (identity === undefined) {
+        const record = new SubaccountManager(generator()).issue(target, permissions, networkPrefix);
+        printJson(io, { subaccount_token: record.token, subaccount_sig: record.signature });
+        return 0;
+      }
+
+      const keystore = await openKeystore(values, io.env);
+      const manager = keystore.getSubaccountManager(identity);
+      const record = manager.issue(target, permissions, networkPrefix);
+      keystore.saveSubaccountManager(identity, manager);
+      await keystore.save();
+      printJson(io, { subaccount_token: record.token, subaccount_sig: record.signature });
+      return 0;
+    }
+  },
+  'keystore-add': {
+    summary: 'Add an identity to a keystore (created if missing) from the key options, or a new random seed',
+    usage: '--keystore <file> --identity <name>',
+    keyless: true,
+    run: async ({ values, io }) => {
+      const name = requireOption(values, 'identity');
+      const keystore = await openKeystore(values, io.env, true);
+      const seed = await loadSeed(values, io.env, false);
+      const summary = keystore.addIdentity(name, seed ?? CryptoUtils.generateRandomBytes(32));
+      await keystore.save();
+      printJson(io, summary);
+      return 0;
+    }
+  },
+  'keystore-list': {
+    summary: 'List the identities of a keystore and the subaccounts they issued',
+    usage: '--keystore <file>',
+    keyless: true,
+    run: async ({ values, io }) => {
+      const keystore = await openKeystore(values, io.env);
+      printJson(io, keystore.listIdentities().map(identity => ({
+        ...identity,
+        subaccounts: keystore.listSubaccounts(identity.name)
+      })));
+      return 0;
+    }
+  },
+  'keystore-remove': {
+    summary: 'Remove an identity from a keystore',
+    usage: '--keystore <file> --identity <name>',
+    keyless: true,
+    run: async ({ values, io }) => {
+      const name = requireOption(values, 'identity');
+      const keystore = await openKeystore(values, io.env);
+      if (!keystore.removeIdentity(name)) {
+        throw new UsageError(`Unknown identity: ${name}`);
+      }
+      await keystore.save();
+      return 0;
+    }
+  },
+  'keystore-export': {
+    summary: 'Print the seed of a keystore identity',
+    usage: '--keystore <file> --identity <name> [--format hex|mnemonic]',
+    keyless: true,
+    run: async ({ values, io }) => {
+      const format = values.format ?? 'hex';
+      if (format !== 'hex' && format !== 'mnemonic') {
+        throw new UsageError(`--format: expected hex or mnemonic, got "${format}"`);
+      }
+      const keystore = await openKeystore(values, io.env);
+      io.stdout(keystore.exportIdentity(requireOption(values, 'identity'), format));
+      return 0;
+    }
+  },
+  keys: {
+    summary: 'Print the keys of the seed (or of a new random seed)',
+    usage: '',
+    keyless: true,
+    run: async ({ io, values }) => {
+      const seed = await loadSeed(values, io.env);
+      const generated = seed ?? CryptoUtils.generateRandomBytes(32);
+      const generator = new PostmanParamsGenerator(generated);
+      printJson(io, {
+        ...(!seed && { seed: hex.encode(generated, true) }),
+        ed25519_pubkey: generator.getPublicKeyNoPrefix().toLowerCase(),
+        pubkey: generator.getPublicKey().toLowerCase(),
+        session_id: generator.getX25519SessionId().toLowerCase()
+      });
+      return 0;
+    }
+  },
+  verify: {
+    summary: 'Check the signature and timestamps of a request',
+    usage: '--request <json|@file>',
+    keyless: true,
+    run: async ({ values, io }) => {
+      const report = verifyRequest(await readValue(requireOption(values, 'request')));
+      io.stdout(formatVerificationReport(report));
+      return report.valid ? 0 : 1;
+    }
+  }
+};
+
+const KEY_USAGE = `Keys (first match wins):
+  --seed <hex>                32-byte seed in hex
+  --seed-file <path>          File holding a hex seed or a mnemonic
+  --mnemonic "<words>"        Session (13 words) or BIP39 mnemonic
+  --passphrase <text>         BIP39 passphrase
+  --keystore <file> --identity <name>
+                              Identity of an encrypted keystore; the password is read from
+                              ${DEFAULT_PASSWORD_ENV} (or --password-env <NAME>)
+  --seed-env <NAME>           Environment variable holding a hex seed or mnemonic
+                              (${DEFAULT_SEED_ENV} is read when no key option is given)
+
+Modes:
+  (default)                   Owner: pubkey is 00 + Ed25519
+  --session-id                Session ID: pubkey is 05 + X25519, pubkey_ed25519 is set
+  --subaccount-token <hex> --subaccount-sig <base64> --owner <pubkey|Session ID|group id>
+                              Subaccount: the key options give the subaccount key; the owner is an
+                              Ed25519 pubkey (bare or 00), a 05 Session ID or a 03 group id
+
+Output:
+  (default)                   Print the request JSON
+  --url <base url>            Send the request and print the result
+  --insecure                  Accept self-signed certificates
+  --timeout <ms>              Request timeout
+
+Clock:
+  --now <ms>                  Use this time for every timestamp (reproducible output)
+  --clock-offset <ms>         Add this offset to the local clock (e.g. server time - local time)`;
+
+/**
+ * Usage text listing every command
+ */
+export function usage(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map(name => name.length));
+  const commands = Object.entries(COMMANDS)
+    .map(([name, command]) => `  ${name.padEnd(width)}  ${command.summary}${command.usage ? `\n  ${''.padEnd(width)}    ${command.usage}` : ''}`)
+    .join('\n');
+  return `Usage: oxen-storage <command> [options]\n\nCommands:\n${commands}\n\n${KEY_USAGE}`;
+}
+
+/**
+ * Run the CLI with the given arguments (without the node and script paths) and return the exit code
+ * 0 on success, 1 when a request or verification failed, 2 for invalid command lines
+ */
+export async function runCli(argv: string[], io: CliIO = processIO()): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+    const [name, ...extra] = positionals;
+
+    if (values.help || name === undefined || name === 'help') {
+      io.stdout(usage());
+      return 0;
+    }
+    const command = COMMANDS[name];
+    if (!command) {
+      throw new UsageError(`Unknown command: ${name}`);
+    }
+    if (extra.length > 0) {
+      throw new UsageError(`Unexpected argument: ${extra[0]}`);
+    }
+
+    const ctx = await createContext(name, command, values, io);
+    if (command.run) {
+      return await command.run(ctx);
+    }
+    if (command.push) {
+      const { path, build } = command.push;
+      return await output(ctx, build(ctx), body => new PushClient(values.url!, ctx.generator(), clientOptions(values)).send(path, body));
+    }
+    const request = await command.build!(ctx);
+    return await output(ctx, request, () => {
+      const client = new StorageClient(values.url!, ctx.generator(), clientOptions(values));
+      return client.send(request);
+    });
+  } catch (error) {
+    if (error instanceof UsageError || (error as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS')) {
+      io.stderr(`${(error as Error).message}\nRun "oxen-storage --help" for usage`);
+      return 2;
+    }
+    io.stderr(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
+
+async function createContext(name: string, command: Command, values: CliValues, io: CliIO): Promise<CommandContext> {
+  const seed = command.keyless ? undefined : await loadSeed(values, io.env);
+  const subaccountMode = inSubaccountMode(values);
+
+  if (subaccountMode && !command.subaccount) {
+    throw new UsageError(`${name} has no subaccount variant`);
+  }
+  if (subaccountMode && values['session-id']) {
+    throw new UsageError('--session-id cannot be combined with subaccount options');
+  }
+
+  const now = intOption(values, 'now');
+  const clock: CryptoUtilsOptions = {
+    now: now !== undefined ? fixedClock(now) : undefined,
+    clockOffsetMs: intOption(values, 'clock-offset')
+  };
+
+  let generator: PostmanParamsGenerator | undefined;
+
+  if (subaccountMode) {
+    if (!seed) {
+      throw new UsageError('Subaccount mode needs the subaccount key (--seed, --seed-file, --mnemonic or --seed-env)');
+    }
+    // The holder's generator signs every request with the token; only the owner's public key is needed
+    const token = requireOption(values, 'subaccount-token');
+    const tokenSignature = requireOption(values, 'subaccount-sig');
+    const owner = parseSubaccountOwner(requireOption(values, 'owner'), token, tokenSignature);
+    const holder = new CryptoUtils(seed, clock);
+    generator = PostmanParamsGenerator.fromCrypto(holder)
+      .withAuthStrategy(new SubaccountAuthStrategy(owner.ed25519Pubkey, token, tokenSignature, holder, owner.networkPrefix));
+  } else if (seed) {
+    generator = new PostmanParamsGenerator(seed, values['session-id'] ?? false, clock);
+  }
+
+  return {
+    values,
+    io,
+    generator: () => {
+      if (!generator) {
+        throw new UsageError(`No key: use --seed, --seed-file, --mnemonic, --seed-env or set ${DEFAULT_SEED_ENV}`);
+      }
+      return generator;
+    }
+  };
+}
+
+function inSubaccountMode(values: CliValues): boolean {
+  return values['subaccount-token'] !== undefined || values['subaccount-sig'] !== undefined;
+}
+
+/**
+ * Build a batch or sequence from --request, a JSON array of sub-requests: command lines such as
+ * ["store", "--data", "hi"], signed with the key options of the batch, or prepared { method, params } requests
+ */
+async function buildBatch(ctx: CommandContext, mode: BatchMode): Promise<ApiRequest> {
+  const entries = parseJson(await readValue(requireOption(ctx.values, 'request')), '--request');
+  if (!Array.isArray(entries)) {
+    throw new UsageError('--request: expected a JSON array of command lines or { method, params } requests');
+  }
+
+  const builder = new BatchRequestBuilder(ctx.generator(), mode);
+  for (const [index, entry] of entries.entries()) {
+    const request = Array.isArray(entry) ? await buildSubRequest(ctx, entry, `--request[${index}]`) : entry;
+    if (typeof request?.method !== 'string' || typeof request.params !== 'object' || request.params === null) {
+      throw new UsageError(`--request[${index}]: expected a command line or a { method, params } request`);
+    }
+    try {
+      builder.add(request);
+    } catch (error) {
+      throw new UsageError(`--request[${index}]: ${(error as Error).message}`);
+    }
+  }
+  return builder.build();
+}
+
+async function buildSubRequest(ctx: CommandContext, argv: unknown[], source: string): Promise<ApiRequest> {
+  if (!argv.every(arg => typeof arg === 'string')) {
+    throw new UsageError(`${source}: command line arguments must be strings`);
+  }
+  const { values, positionals } = parseArgs({ args: argv as string[], options: OPTIONS, allowPositionals: true, strict: true });
+  const [name, ...extra] = positionals;
+  const command = name === undefined ? undefined : COMMANDS[name];
+  if (!command?.build || name === 'batch' || name === 'sequence') {
+    throw new UsageError(`${source}: expected a storage RPC command, got "${name ?? ''}"`);
+  }
+  if (extra.length > 0) {
+    throw new UsageError(`${source}: unexpected argument: ${extra[0]}`);
+  }
+  const outer = Object.keys(values).filter(option => BATCH_OPTIONS.has(option));
+  if (outer.length > 0) {
+    throw new UsageError(`${source}: --${outer[0]} applies to the whole batch; give it outside --request`);
+  }
+  if (inSubaccountMode(ctx.values) && !command.subaccount) {
+    throw new UsageError(`${source}: ${name} has no subaccount variant`);
+  }
+  return command.build({ ...ctx, values });
+}
+
+async function output<T extends object>(ctx: CommandContext, body: T | Promise<T>, send: (body: T) => Promise<unknown>): Promise<number> {
+  const resolved = await body;
+  if (ctx.values.url === undefined) {
+    printJson(ctx.io, resolved);
+    return 0;
+  }
+  try {
+    printJson(ctx.io, await send(resolved));
+    return 0;
+  } catch (error) {
+    if (error instanceof StorageRpcError || error instanceof PushServerError) {
+      ctx.io.stderr(error.message);
+      return 1;
+    }
+    throw error;
+  }
+}
+
+function clientOptions(values: CliValues): { timeout?: number; allowSelfSigned?: boolean } {
+  return { timeout: intOption(values, 'timeout'), allowSelfSigned: values.insecure };
+}
+
+/**
+ * Read the seed from --seed, --seed-file, --mnemonic, --keystore or --seed-env, falling back to OXEN_STORAGE_SEED
+ */
+async function loadSeed(values: CliValues, env: CliIO['env'], useKeystore: boolean = true): Promise<Uint8Array | undefined> {
+  if (values.seed !== undefined) {
+    return parseSeed(values.seed, '--seed', values.passphrase);
+  }
+  if (values['seed-file'] !== undefined) {
+    return parseSeed(await readFile(values['seed-file']), values['seed-file'], values.passphrase);
+  }
+  if (values.mnemonic !== undefined) {
+    return parseSeed(values.mnemonic, '--mnemonic', values.passphrase);
+  }
+  if (useKeystore && values.keystore !== undefined) {
+    const keystore = await openKeystore(values, env);
+    return keystore.getCrypto(requireOption(values, 'identity')).getSeed();
+  }
+  const name = values['seed-env'] ?? DEFAULT_SEED_ENV;
+  const fromEnv = env[name];
+  if (fromEnv === undefined || fromEnv.trim() === '') {
+    if (values['seed-env'] !== undefined) {
+      throw new UsageError(`Environment variable ${name} is not set`);
+    }
+    return undefined;
+  }
+  return parseSeed(fromEnv, name, values.passphrase);
+}
+
+/**
+ * Name of the keystore identity used as the key, when the key comes from a keystore
+ */
+function keystoreIdentity(values: CliValues): string | undefined {
+  const explicitKey = values.seed !== undefined || values['seed-file'] !== undefined || values.mnemonic !== undefined;
+  return !explicitKey && values.keystore !== undefined ? requireOption(values, 'identity') : undefined;
+}
+
+async function openKeystore(values: CliValues, env: CliIO['env'], create: boolean = false): Promise<Keystore> {
+  const path = requireOption(values, 'keystore');
+  const passwordEnv = values['password-env'] ?? DEFAULT_PASSWORD_ENV;
+  const password = env[passwordEnv];
+  if (!password) {
+    throw new UsageError(`Keystore password not set: export ${passwordEnv}`);
+  }
+  try {
+    return create ? await Keystore.openOrCreate(path, password) : await Keystore.open(path, password);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new UsageError(`Keystore not found: ${path}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Accepts a 32-byte hex seed, a Session mnemonic (13 words, or 25 for legacy seeds) or a BIP39 mnemonic
+ */
+function parseSeed(text: string, source: string, passphrase?: string): Uint8Array {
+  const trimmed = text.trim();
+  if (/^[0-9a-fA-F]{64}$/.test(trimmed)) {
+    return hex.decode(trimmed);
+  }
+  if (splitMnemonic(trimmed).length < 2) {
+    throw new UsageError(`${source}: expected a 64-character hex seed or a mnemonic`);
+  }
+  try {
+    return mnemonicToSeed(trimmed, passphrase);
+  } catch (error) {
+    throw new UsageError(`${source}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Resolve --owner: an Ed25519 pubkey (bare or 00-prefixed), a 03 group id or a 05 Session ID
+ * A Session ID is an X25519 key; its Ed25519 key is the candidate that signed the subaccount token
+ */
+function parseSubaccountOwner(value: string, token: string, tokenSignature: string): { ed25519Pubkey: Uint8Array; networkPrefix?: number } {
+  if (/^[0-9a-fA-F]{64}$/.test(value)) {
+    return { ed25519Pubkey: hex.decode(value) };
+  }
+  if (!/^(00|03|05)[0-9a-fA-F]{64}$/.test(value)) {
+    throw new UsageError('--owner: expected a 64-character hex Ed25519 pubkey, a 00 pubkey, a 03 group id or a 05 Session ID');
+  }
+  const networkPrefix = parseInt(value.slice(0, 2), 16);
+  const key = hex.decode(value.slice(2));
+  if (networkPrefix !== 5) {
+    return { ed25519Pubkey: key, networkPrefix };
+  }
+
+  let tokenBytes: Uint8Array;
+  let signature: Uint8Array;
+  try {
+    tokenBytes = decodeSubaccountToken(token);
+    signature = base64.decode(tokenSignature);
+  } catch (error) {
+    throw new UsageError(`--subaccount-token/--subaccount-sig: ${(error as Error).message}`);
+  }
+  const ed25519Pubkey = ed25519PubkeysFromX25519(key).find(candidate => ed25519.verify(candidate, tokenBytes, signature));
+  if (!ed25519Pubkey) {
+    throw new UsageError('--owner: the subaccount token was not signed by the owner of this Session ID');
+  }
+  return { ed25519Pubkey, networkPrefix };
+}
+
+function parseEncKey(value: string, option: string): Uint8Array {
+  if (!/^[0-9a-fA-F]{64}$/.test(value.trim())) {
+    throw new UsageError(`${option}: expected a 64-character hex key`);
+  }
+  return hex.decode(value.trim());
+}
+
+// `@path` reads the file, anything else is used as-is
+async function readValue(value: string): Promise<string> {
+  return value.startsWith('@') ? readFile(value.slice(1)) : value;
+}
+
+async function readFile(path: string): Promise<string> {
+  try {
+    return await fs.readFile(path, 'utf8');
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${(error as Error).message}`);
+  }
+}
+
+function parseJson(text: string, option: string): any {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new UsageError(`${option}: invalid JSON (${(error as Error).message})`);
+  }
+}
+
+function requireOption<K extends keyof CliValues>(values: CliValues, name: K): string {
+  const value = values[name];
+  if (typeof value !== 'string') {
+    throw new UsageError(`Missing --${name}`);
+  }
+  return value;
+}
+
+function parseInteger(value: string, option: string): number {
+  if (!/^-?\d+$/.test(value.trim())) {
+    throw new UsageError(`${option}: expected an integer, got "${value}"`);
+  }
+  return Number(value);
+}
+
+function intOption(values: CliValues, name: keyof CliValues): number | undefined {
+  const value = values[name];
+  return typeof value === 'string' ? parseInteger(value, `--${name}`) : undefined;
+}
+
+function requireInt(values: CliValues, name: keyof CliValues): number {
+  return parseInteger(requireOption(values, name), `--${name}`);
+}
+
+function hashesOption(values: CliValues): string[] {
+  const hashes = (values.hash ?? []).flatMap(hash => hash.split(',')).filter(Boolean);
+  if (hashes.length === 0) {
+    throw new UsageError('Missing --hash');
+  }
+  return hashes;
+}
+
+function tokensOption(values: CliValues): string[] {
+  const tokens = (values.token ?? []).flatMap(token => token.split(',')).filter(Boolean);
+  if (tokens.length === 0) {
+    throw new UsageError('Missing --token');
+  }
+  return tokens;
+}
+
+function printJson(io: CliIO, value: unknown): void {
+  io.stdout(JSON.stringify(value, null, 2));
+}
+
+function processIO(): CliIO {
+  return {
+    stdout: text => process.stdout.write(`${text}\n`),
+    stderr: text => process.stderr.write(`${text}\n`),
+    env: process.env
+  };
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,244 @@
+import {
+  BaseConfigWrapperNode,
+  ContactsConfigWrapperNode,
+  ConvoInfoVolatileWrapperNode,
+  UserConfigWrapperNode,
+  UserGroupsWrapperNode
+} from 'libsession_util_nodejs';
+import { ApiRequest, PostmanParamsGenerator } from './postman-params';
+import { LastHashStore, MemoryLastHashStore, RequestSender } from './message-poller';
+import { SessionNamespace } from './namespace-policy';
+import { decodeMessageData } from './response-parser';
+import { DeleteParams, RetrieveParams, RetrievedMessage, RetrieveResult, StoreParams, StoreResult } from './types';
+
+/**
+ * User config namespaces kept in sync by libsession
+ */
+export const USER_CONFIG_NAMESPACES = {
+  UserProfile: SessionNamespace.UserProfile,
+  Contacts: SessionNamespace.Contacts,
+  ConvoInfoVolatile: SessionNamespace.ConvoInfoVolatile,
+  UserGroups: SessionNamespace.UserGroups
+} as const;
+
+export type UserConfigVariant = keyof typeof USER_CONFIG_NAMESPACES;
+
+// Config messages live 30 days on the swarm; an unchanged config is pushed again by the next sync after that
+export const CONFIG_MESSAGE_TTL = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * libsession config object of each user config namespace
+ */
+export interface UserConfigWrappers {
+  UserProfile: UserConfigWrapperNode;
+  Contacts: ContactsConfigWrapperNode;
+  ConvoInfoVolatile: ConvoInfoVolatileWrapperNode;
+  UserGroups: UserGroupsWrapperNode;
+}
+
+/**
+ * Serialized config state (libsession dumps), to restore a ConfigSync without retrieving everything again
+ */
+export type UserConfigDumps = Partial<Record<UserConfigVariant, Uint8Array>>;
+
+/**
+ * A dirty config ready to be stored, with the hashes its store makes obsolete
+ */
+export interface PendingConfigPush {
+  variant: UserConfigVariant;
+  seqno: number;
+  request: ApiRequest<StoreParams>;
+  obsoleteHashes: string[];
+}
+
+export interface ConfigSyncResult {
+  /** Hashes of the retrieved messages merged into each config */
+  merged: Partial<Record<UserConfigVariant, string[]>>;
+  /** Seqno and message hash of each config that was pushed */
+  pushed: Partial<Record<UserConfigVariant, { seqno: number; hash: string }>>;
+  /** Obsolete config message hashes deleted from the swarm */
+  deleted: string[];
+}
+
+/**
+ * Syncs the user config namespaces of an account through libsession's config objects:
+ * retrieved config messages are merged into the local configs, dirty configs are pushed back
+ * with signed stores and the messages they replace are deleted
+ */
+export class ConfigSync {
+  private generator: PostmanParamsGenerator;
+  private wrappers: UserConfigWrappers;
+  private lastHashes: LastHashStore;
+  private obsoleteHashes = new Set<string>();
+  private lastPushed: Partial<Record<UserConfigVariant, { seqno: number; hash: string }>> = {};
+
+  constructor(generator: PostmanParamsGenerator, dumps: UserConfigDumps = {}, lastHashes: LastHashStore = new MemoryLastHashStore()) {
+    this.generator = generator;
+    this.lastHashes = lastHashes;
+
+    // libsession takes the 64-byte Ed25519 secret key (seed || pubkey) of the account
+    const secretKey = generator.getCrypto().getEd25519KeyPair().secretKey;
+    this.wrappers = {
+      UserProfile: new UserConfigWrapperNode(secretKey, dumps.UserProfile ?? null),
+      Contacts: new ContactsConfigWrapperNode(secretKey, dumps.Contacts ?? null),
+      ConvoInfoVolatile: new ConvoInfoVolatileWrapperNode(secretKey, dumps.ConvoInfoVolatile ?? null),
+      UserGroups: new UserGroupsWrapperNode(secretKey, dumps.UserGroups ?? null)
+    };
+  }
+
+  /**
+   * Get the libsession config object of a namespace, to inspect or edit it
+   * Edits are pushed by the next sync()
+   */
+  getConfig<V extends UserConfigVariant>(variant: V): UserConfigWrappers[V] {
+    return this.wrappers[variant];
+  }
+
+  /**
+   * Build one retrieve request per config namespace, continuing from the last merged message
+   */
+  async getRetrieveRequests(): Promise<ApiRequest<RetrieveParams>[]> {
+    const pubkey = this.getPubkey();
+    return Promise.all(this.variants().map(async variant => {
+      const namespace = USER_CONFIG_NAMESPACES[variant];
+      return this.generator.getRetrieveParams(await this.lastHashes.get(pubkey, namespace), namespace);
+    }));
+  }
+
+  /**
+   * Merge retrieved config messages into the config of their namespace
+   * Returns the hashes libsession accepted
+   */
+  async merge(variant: UserConfigVariant, messages: RetrievedMessage[]): Promise<string[]> {
+    if (messages.length === 0) {
+      return [];
+    }
+    const merged = this.getWrapper(variant).merge(messages.map(message => ({
+      hash: message.hash,
+      data: decodeMessageData(message)
+    })));
+    await this.lastHashes.set(this.getPubkey(), USER_CONFIG_NAMESPACES[variant], messages[messages.length - 1].hash);
+    return merged;
+  }
+
+  /**
+   * Build store requests for every config with unpushed changes
+   * Call confirmPushed() with the hash each store returns
+   */
+  getPushRequests(): PendingConfigPush[] {
+    return this.variants()
+      .filter(variant => this.getWrapper(variant).needsPush())
+      .map(variant => {
+        // hashes: config messages this push supersedes, to delete once it is stored
+        const { data, seqno, hashes } = this.getWrapper(variant).push();
+        return {
+          variant,
+          seqno,
+          request: this.generator.getStoreParams(data, CONFIG_MESSAGE_TTL, USER_CONFIG_NAMESPACES[variant]),
+          obsoleteHashes: hashes
+        };
+      });
+  }
+
+  /**
+   * Record that a pushed config was stored under `hash` and queue the messages it replaces for deletion
+   */
+  confirmPushed(push: PendingConfigPush, hash: string): void {
+    this.getWrapper(push.variant).confirmPushed(push.seqno, hash);
+    this.lastPushed[push.variant] = { seqno: push.seqno, hash };
+    push.obsoleteHashes.filter(obsolete => obsolete !== hash).forEach(obsolete => this.obsoleteHashes.add(obsolete));
+  }
+
+  /**
+   * Get the seqno and hash of the last confirmed push of a config
+   */
+  getLastPushed(variant: UserConfigVariant): { seqno: number; hash: string } | undefined {
+    return this.lastPushed[variant];
+  }
+
+  /**
+   * Get the config message hashes waiting to be deleted
+   */
+  getObsoleteHashes(): string[] {
+    return [...this.obsoleteHashes];
+  }
+
+  /**
+   * Build the delete request for obsolete config messages, if there are any
+   * Not required: some of them may already have expired
+   */
+  getDeleteObsoleteRequest(): ApiRequest<DeleteParams> | undefined {
+    return this.obsoleteHashes.size > 0 ? this.generator.getDeleteParams(this.getObsoleteHashes(), false) : undefined;
+  }
+
+  /**
+   * Forget obsolete hashes once they were deleted
+   */
+  confirmDeleted(hashes: string[]): void {
+    hashes.forEach(hash => this.obsoleteHashes.delete(hash));
+  }
+
+  /**
+   * Dump the configs that changed since the last dump
+   */
+  dump(): UserConfigDumps {
+    const dumps: UserConfigDumps = {};
+    for (const variant of this.variants()) {
+      const wrapper = this.getWrapper(variant);
+      if (wrapper.needsDump()) {
+        dumps[variant] = wrapper.dump();
+      }
+    }
+    return dumps;
+  }
+
+  /**
+   * Retrieve and merge every config namespace, push dirty configs and delete the messages they replace
+   */
+  async sync(sender: RequestSender): Promise<ConfigSyncResult> {
+    const result: ConfigSyncResult = { merged: {}, pushed: {}, deleted: [] };
+
+    for (const variant of this.variants()) {
+      const namespace = USER_CONFIG_NAMESPACES[variant];
+      const merged: string[] = [];
+      let more = true;
+      while (more) {
+        const lastHash = await this.lastHashes.get(this.getPubkey(), namespace);
+        const response = await sender.send<RetrieveResult>(this.generator.getRetrieveParams(lastHash, namespace));
+        merged.push(...await this.merge(variant, response.messages));
+        more = response.more === true && response.messages.length > 0;
+      }
+      result.merged[variant] = merged;
+    }
+
+    for (const push of this.getPushRequests()) {
+      const response = await sender.send<StoreResult>(push.request);
+      if (!response.hash) {
+        throw new Error(`Store of the ${push.variant} config returned no hash`);
+      }
+      this.confirmPushed(push, response.hash);
+      result.pushed[push.variant] = { seqno: push.seqno, hash: response.hash };
+    }
+
+    const deleteRequest = this.getDeleteObsoleteRequest();
+    if (deleteRequest) {
+      await sender.send(deleteRequest);
+      this.confirmDeleted(deleteRequest.params.messages);
+      result.deleted = deleteRequest.params.messages;
+    }
+
+    return result;
+  }
+
+  private getWrapper(variant: UserConfigVariant): BaseConfigWrapperNode {
+    return this.wrappers[variant];
+  }
+
+  private variants(): UserConfigVariant[] {
+    return Object.keys(USER_CONFIG_NAMESPACES) as UserConfigVariant[];
+  }
+
+  private getPubkey(): string {
+    return this.generator.getAuthStrategy().getPubkey();
+  }
+}
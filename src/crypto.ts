@@ -1,23 +1,148 @@
 import * as ed25519 from '@stablelib/ed25519';
-import { convertPublicKeyToX25519 } from '@stablelib/ed25519';
+import { convertPublicKeyToX25519, convertSecretKeyToX25519 } from '@stablelib/ed25519';
 import * as random from '@stablelib/random';
 import * as hex from '@stablelib/hex';
 import * as base64 from '@stablelib/base64';
 import * as bs58 from 'bs58';
+import { createHash } from 'crypto';
+import { ed25519 as nobleEd25519 } from '@noble/curves/ed25519';
+import { bytesToNumberLE, numberToBytesLE } from '@noble/curves/utils';
+import { invert, mod } from '@noble/curves/abstract/modular';
+import { bip39MnemonicToSeed, encodeSessionMnemonic, sessionMnemonicToSeed } from './mnemonic';
+import { namespaceSignaturePart, validateNamespace } from './namespace-policy';
+
+const ED25519_ORDER = nobleEd25519.CURVE.n;
+const ED25519_FIELD = 2n ** 255n - 19n;
+
+function sha512(...parts: Uint8Array[]): Uint8Array {
+  const hash = createHash('sha512');
+  parts.forEach(part => hash.update(part));
+  return new Uint8Array(hash.digest());
+}
+
+/**
+ * Subaccount blinding factor: k = H(owner_pubkey || target_pubkey) mod L
+ */
+function subaccountBlindingFactor(ownerPubkey: Uint8Array, targetPubkey: Uint8Array): bigint {
+  return bytesToNumberLE(sha512(ownerPubkey, targetPubkey)) % ED25519_ORDER;
+}
+
+/**
+ * Ed25519 pubkeys whose X25519 form is the given key (a Session ID without its 05 prefix)
+ * The conversion drops the sign of x, so both candidates are returned; a signature tells them apart
+ */
+export function ed25519PubkeysFromX25519(x25519Pubkey: Uint8Array): Uint8Array[] {
+  const u = mod(bytesToNumberLE(x25519Pubkey), ED25519_FIELD);
+  if (u === ED25519_FIELD - 1n) {
+    return [];
+  }
+  // Birational map from Montgomery u to Edwards y: y = (u - 1) / (u + 1)
+  const y = numberToBytesLE(mod((u - 1n) * invert(u + 1n, ED25519_FIELD), ED25519_FIELD), 32);
+  const negative = Uint8Array.from(y);
+  negative[31] |= 0x80;
+  return [y, negative];
+}
+
+export interface CryptoUtilsOptions {
+  /** Clock in milliseconds used for request timestamps (defaults to Date.now) */
+  now?: () => number;
+  /** Added to the clock, e.g. the difference between a service node's time and the local time */
+  clockOffsetMs?: number;
+  /** Source of random bytes for generated keys and enc_keys (defaults to CryptoUtils.generateRandomBytes) */
+  randomBytes?: (length: number) => Uint8Array;
+}
+
+/**
+ * Clock that always returns `timestamp`, for reproducible requests
+ */
+export function fixedClock(timestamp: number): () => number {
+  return () => timestamp;
+}
+
+/**
+ * Deterministic random source: SHA-512(seed || counter) blocks, for reproducible keys and enc_keys
+ * Only for tests and documentation examples
+ */
+export function deterministicRandomBytes(seed: Uint8Array | string): (length: number) => Uint8Array {
+  const seedBytes = typeof seed === 'string' ? new TextEncoder().encode(seed) : seed;
+  let counter = 0;
+  return (length: number) => {
+    const result = new Uint8Array(length);
+    for (let offset = 0; offset < length; offset += 64) {
+      const block = sha512(seedBytes, numberToBytesLE(counter++, 8));
+      result.set(block.subarray(0, Math.min(64, length - offset)), offset);
+    }
+    return result;
+  };
+}
 
 export class CryptoUtils {
   private ed25519KeyPair: ed25519.KeyPair;
+  private clock: () => number;
+  private clockOffsetMs: number;
+  private random?: (length: number) => Uint8Array;
+
+  constructor(seed?: Uint8Array, options: CryptoUtilsOptions = {}) {
+    // Date.now and generateRandomBytes are looked up on each call so they can be replaced later (e.g. by test spies)
+    this.clock = options.now ?? (() => Date.now());
+    this.clockOffsetMs = options.clockOffsetMs ?? 0;
+    this.random = options.randomBytes;
 
-  constructor(seed?: Uint8Array) {
     if (seed) {
       // Generate Ed25519 key pair from seed
       this.ed25519KeyPair = ed25519.generateKeyPairFromSeed(seed);
+    } else if (this.random) {
+      this.ed25519KeyPair = ed25519.generateKeyPairFromSeed(this.random(32));
     } else {
       // Generate random Ed25519 key pair
       this.ed25519KeyPair = ed25519.generateKeyPair();
     }
   }
 
+  /**
+   * Current time in milliseconds: the configured clock plus the clock offset
+   */
+  now(): number {
+    return this.clock() + this.clockOffsetMs;
+  }
+
+  /**
+   * Get the offset added to the clock
+   */
+  getClockOffset(): number {
+    return this.clockOffsetMs;
+  }
+
+  /**
+   * Set the offset added to the clock, e.g. after a 406 "timestamp out of window" response
+   */
+  setClockOffset(offsetMs: number): void {
+    this.clockOffsetMs = offsetMs;
+  }
+
+  /**
+   * Set the clock offset so that now() matches a trusted network time (e.g. `t` from get_swarm)
+   * `localTime` is the local clock reading the network time corresponds to
+   */
+  syncClock(networkTime: number, localTime: number = this.clock()): number {
+    this.clockOffsetMs = networkTime - localTime;
+    return this.clockOffsetMs;
+  }
+
+  /**
+   * Random bytes from the configured source
+   */
+  randomBytes(length: number): Uint8Array {
+    return this.random ? this.random(length) : CryptoUtils.generateRandomBytes(length);
+  }
+
+  /**
+   * Get the clock and random source, to create another instance that shares them
+   */
+  getOptions(): CryptoUtilsOptions {
+    return { now: this.clock, clockOffsetMs: this.clockOffsetMs, randomBytes: this.random };
+  }
+
   /**
    * Get the Ed25519 public key as hex string
    */
@@ -51,7 +176,7 @@ export class CryptoUtils {
    * Sign a message for store operation using Ed25519
    */
   signStore(namespace: number, sigTimestamp: number): string {
-    const message = `store${namespace}${sigTimestamp}`;
+    const message = `store${validateNamespace(namespace)}${sigTimestamp}`;
     const signature = ed25519.sign(this.ed25519KeyPair.secretKey, new TextEncoder().encode(message));
     return base64.encode(signature);
   }
@@ -60,8 +185,7 @@ export class CryptoUtils {
    * Sign a message for retrieve operation using Ed25519
    */
   signRetrieve(namespace: number, timestamp: number): string {
-    const namespaceStr = namespace === 0 ? '' : namespace.toString();
-    const message = `retrieve${namespaceStr}${timestamp}`;
+    const message = `retrieve${namespaceSignaturePart(namespace)}${timestamp}`;
     
     const signature = ed25519.sign(this.ed25519KeyPair.secretKey, new TextEncoder().encode(message));
     return base64.encode(signature);
@@ -80,18 +204,28 @@ export class CryptoUtils {
    * Sign a message for delete_all operation using Ed25519
    */
   signDeleteAll(namespace: number | string, timestamp: number): string {
-    const namespaceStr = namespace === 0 ? '' : namespace.toString();
-    const message = `delete_all${namespaceStr}${timestamp}`;
+    const message = `delete_all${namespaceSignaturePart(namespace)}${timestamp}`;
+    const signature = ed25519.sign(this.ed25519KeyPair.secretKey, new TextEncoder().encode(message));
+    return base64.encode(signature);
+  }
+
+  /**
+   * Sign a message for delete_before operation using Ed25519
+   * Signature format: ("delete_before" || namespace || before), with "all" when no namespace is given
+   */
+  signDeleteBefore(namespace: number | 'all' | undefined, before: number): string {
+    const namespaceStr = typeof namespace === 'number' ? validateNamespace(namespace).toString() : 'all';
+    const message = `delete_before${namespaceStr}${before}`;
     const signature = ed25519.sign(this.ed25519KeyPair.secretKey, new TextEncoder().encode(message));
     return base64.encode(signature);
   }
 
   /**
    * Sign a message for expire_all operation using Ed25519
+   * Signature format: ("expire_all" || namespace || expiry), with the namespace left out for 0 and undefined
    */
   signExpireAll(namespace: number | string | undefined, expiry: number): string {
-    const namespaceStr = namespace === undefined || namespace === 0 ? '' : namespace.toString();
-    const message = `expire_all${namespaceStr}${expiry}`;
+    const message = `expire_all${namespaceSignaturePart(namespace)}${expiry}`;
     const signature = ed25519.sign(this.ed25519KeyPair.secretKey, new TextEncoder().encode(message));
     return base64.encode(signature);
   }
@@ -125,7 +259,66 @@ export class CryptoUtils {
 
 
   /**
-   * Sign a message using blinded subaccount keys
+   * Compute the blinded subaccount pubkey Z = kA for a target Ed25519 pubkey A,
+   * where k = H(owner_pubkey || target_pubkey) mod L
+   */
+  static blindSubaccountPubkey(ownerPubkey: Uint8Array, targetPubkey: Uint8Array): Uint8Array {
+    const k = subaccountBlindingFactor(ownerPubkey, targetPubkey);
+    return nobleEd25519.Point.fromBytes(targetPubkey).multiply(k).toBytes();
+  }
+
+  /**
+   * Derive the blinded signing key for a subaccount issued to this key pair by ownerPubkey
+   * Returns 64 bytes: blinded scalar z = ka mod L (32 bytes, little-endian) || nonce prefix (32 bytes)
+   */
+  deriveBlindedSubaccountKey(ownerPubkey: Uint8Array): Uint8Array {
+    const seed = this.ed25519KeyPair.secretKey.slice(0, 32);
+    const { scalar, prefix } = nobleEd25519.utils.getExtendedPublicKey(seed);
+    const k = subaccountBlindingFactor(ownerPubkey, this.ed25519KeyPair.publicKey);
+    const z = (k * scalar) % ED25519_ORDER;
+
+    const zBytes = numberToBytesLE(z, 32);
+    const blindedPrefix = sha512(prefix, numberToBytesLE(k, 32)).slice(0, 32);
+
+    const blindedSecretKey = new Uint8Array(64);
+    blindedSecretKey.set(zBytes, 0);
+    blindedSecretKey.set(blindedPrefix, 32);
+    return blindedSecretKey;
+  }
+
+  /**
+   * Sign a message with a key from deriveBlindedSubaccountKey
+   * Standard EdDSA over the blinded scalar, so it verifies against the blinded pubkey in the token
+   */
+  signWithBlindedScalar(message: string, blindedSecretKey: Uint8Array): string {
+    if (blindedSecretKey.length !== 64) {
+      throw new Error(`Blinded subaccount key must be 64 bytes, got ${blindedSecretKey.length}`);
+    }
+    // A stablelib secret key ends with the pubkey of its seed; a blinded key ends with a nonce prefix
+    if (hex.encode(ed25519.generateKeyPairFromSeed(blindedSecretKey.slice(0, 32)).publicKey) === hex.encode(blindedSecretKey.slice(32))) {
+      throw new Error('Expected a blinded key from deriveBlindedSubaccountKey, got an Ed25519 secret key (seed || pubkey)');
+    }
+
+    const messageBytes = new TextEncoder().encode(message);
+    const z = bytesToNumberLE(blindedSecretKey.slice(0, 32));
+    const prefix = blindedSecretKey.slice(32, 64);
+    const Z = nobleEd25519.Point.BASE.multiply(z).toBytes();
+
+    // r = H(prefix || M) mod L, R = rB, S = r + H(R || Z || M) * z mod L
+    const r = bytesToNumberLE(sha512(prefix, messageBytes)) % ED25519_ORDER;
+    const R = nobleEd25519.Point.BASE.multiply(r).toBytes();
+    const h = bytesToNumberLE(sha512(R, Z, messageBytes)) % ED25519_ORDER;
+    const S = (r + h * z) % ED25519_ORDER;
+
+    const signature = new Uint8Array(64);
+    signature.set(R, 0);
+    signature.set(numberToBytesLE(S, 32), 32);
+    return base64.encode(signature);
+  }
+
+  /**
+   * Sign a message with a 64-byte Ed25519 secret key (seed || pubkey)
+   * Keys from deriveBlindedSubaccountKey are not Ed25519 secret keys: sign with signWithBlindedScalar
    */
   signWithBlindedSubaccount(message: string, blindedSecretKey: Uint8Array): string {
     const signature = ed25519.sign(blindedSecretKey, new TextEncoder().encode(message));
@@ -136,17 +329,16 @@ export class CryptoUtils {
    * Sign store operation using blinded subaccount keys
    */
   signStoreWithSubaccount(namespace: number, sigTimestamp: number, blindedSecretKey: Uint8Array): string {
-    const message = `store${namespace}${sigTimestamp}`;
-    return this.signWithBlindedSubaccount(message, blindedSecretKey);
+    const message = `store${validateNamespace(namespace)}${sigTimestamp}`;
+    return this.signWithBlindedScalar(message, blindedSecretKey);
   }
 
   /**
    * Sign retrieve operation using blinded subaccount keys
    */
   signRetrieveWithSubaccount(namespace: number, timestamp: number, blindedSecretKey: Uint8Array): string {
-    const namespaceStr = namespace === 0 ? '' : namespace.toString();
-    const message = `retrieve${namespaceStr}${timestamp}`;
-    return this.signWithBlindedSubaccount(message, blindedSecretKey);
+    const message = `retrieve${namespaceSignaturePart(namespace)}${timestamp}`;
+    return this.signWithBlindedScalar(message, blindedSecretKey);
   }
 
   /**
@@ -154,7 +346,59 @@ export class CryptoUtils {
    */
   signDeleteWithSubaccount(messages: string[], blindedSecretKey: Uint8Array): string {
     const message = `delete${messages.join('')}`;
-    return this.signWithBlindedSubaccount(message, blindedSecretKey);
+    return this.signWithBlindedScalar(message, blindedSecretKey);
+  }
+
+  /**
+   * Sign delete_before operation using blinded subaccount keys
+   */
+  signDeleteBeforeWithSubaccount(namespace: number | 'all' | undefined, before: number, blindedSecretKey: Uint8Array): string {
+    const namespaceStr = typeof namespace === 'number' ? validateNamespace(namespace).toString() : 'all';
+    const message = `delete_before${namespaceStr}${before}`;
+    return this.signWithBlindedScalar(message, blindedSecretKey);
+  }
+
+  /**
+   * Sign delete_all operation using blinded subaccount keys
+   */
+  signDeleteAllWithSubaccount(namespace: number | string, timestamp: number, blindedSecretKey: Uint8Array): string {
+    const message = `delete_all${namespaceSignaturePart(namespace)}${timestamp}`;
+    return this.signWithBlindedScalar(message, blindedSecretKey);
+  }
+
+  /**
+   * Sign update operation using blinded subaccount keys
+   * Signature format: ("update" || timestamp || messages[0] || ... || messages[N] || data)
+   */
+  signUpdateWithSubaccount(timestamp: number, messages: string[], data: string, blindedSecretKey: Uint8Array): string {
+    const message = `update${timestamp}${messages.join('')}${data}`;
+    return this.signWithBlindedScalar(message, blindedSecretKey);
+  }
+
+  /**
+   * Sign expire operation using blinded subaccount keys
+   */
+  signExpireMsgsWithSubaccount(messages: string[], expiry: number, shorten: boolean | undefined, extend: boolean | undefined, blindedSecretKey: Uint8Array): string {
+    const shortenOrExtend = shorten ? 'shorten' : extend ? 'extend' : '';
+    const message = `expire${shortenOrExtend}${expiry}${messages.join('')}`;
+    return this.signWithBlindedScalar(message, blindedSecretKey);
+  }
+
+  /**
+   * Sign expire_all operation using blinded subaccount keys
+   */
+  signExpireAllWithSubaccount(namespace: number | string | undefined, expiry: number, blindedSecretKey: Uint8Array): string {
+    const message = `expire_all${namespaceSignaturePart(namespace)}${expiry}`;
+    return this.signWithBlindedScalar(message, blindedSecretKey);
+  }
+
+  /**
+   * Sign get_expiries operation using blinded subaccount keys
+   * Signature format: ("get_expiries" || timestamp || messages[0] || ... || messages[N])
+   */
+  signGetExpiriesWithSubaccount(timestamp: number, messages: string[], blindedSecretKey: Uint8Array): string {
+    const message = `get_expiries${timestamp}${messages.join('')}`;
+    return this.signWithBlindedScalar(message, blindedSecretKey);
   }
 
   /**
@@ -210,26 +454,27 @@ export class CryptoUtils {
 
   /**
    * Generate a blinded subaccount token for a specific target pubkey
-   * The subaccount token contains the blinded Ed25519 public key of the target user
+   * The subaccount token contains the blinded Ed25519 public key of the target user,
+   * so the token does not reveal the delegate's real identity
    */
   generateBlindedSubaccountToken(targetPubkey: Uint8Array, permissions: number = 1, networkPrefix: number = 5): {
     token: string;
     blindedPubkey: Uint8Array;
   } {
-    // For this implementation, we'll use the target pubkey directly as the "blinded" pubkey
-    // In a real implementation, you would use proper blinding: k = H(owner_pubkey || target_pubkey) mod L, Z = kB
-    
+    // k = H(owner_pubkey || target_pubkey) mod L, Z = kA
+    const blindedPubkey = CryptoUtils.blindSubaccountPubkey(this.ed25519KeyPair.publicKey, targetPubkey);
+
     // 36 bytes: network_prefix(1) + permissions(1) + reserved(2) + blinded_pubkey(32)
     const token = new Uint8Array(36);
     token[0] = networkPrefix;
     token[1] = permissions;
     token[2] = 0; // reserved byte 1
     token[3] = 0; // reserved byte 2
-    token.set(targetPubkey, 4); // Use target pubkey as the blinded pubkey
+    token.set(blindedPubkey, 4);
     
     return {
       token: hex.encode(token),
-      blindedPubkey: targetPubkey
+      blindedPubkey
     };
   }
 
@@ -250,13 +495,38 @@ export class CryptoUtils {
    */
   signPushSubscribe(sigTs: number, namespaces: number[], data: boolean, accountBytes: Uint8Array): string {
     const dataStr = data ? '1' : '0';
-    const namespacesStr = namespaces.join(',');
+    const namespacesStr = namespaces.map(validateNamespace).join(',');
     const accountHex = hex.encode(accountBytes);
     const message = `MONITOR${accountHex.toLowerCase()}${sigTs}${dataStr}${namespacesStr}`;
     const signature = ed25519.sign(this.ed25519KeyPair.secretKey, new TextEncoder().encode(message));
     return base64.encode(signature);
   }
 
+  /**
+   * Sign a push notification subscribe message using blinded subaccount keys
+   */
+  signPushSubscribeWithSubaccount(sigTs: number, namespaces: number[], data: boolean, accountBytes: Uint8Array, blindedSecretKey: Uint8Array): string {
+    const message = `MONITOR${hex.encode(accountBytes).toLowerCase()}${sigTs}${data ? '1' : '0'}${namespaces.map(validateNamespace).join(',')}`;
+    return this.signWithBlindedScalar(message, blindedSecretKey);
+  }
+
+  /**
+   * Sign a push notification unsubscribe message using Ed25519
+   * Signature format: ("UNSUBSCRIBE" || HEX(ACCOUNT) || SIG_TS)
+   */
+  signPushUnsubscribe(sigTs: number, accountBytes: Uint8Array): string {
+    const message = `UNSUBSCRIBE${hex.encode(accountBytes).toLowerCase()}${sigTs}`;
+    const signature = ed25519.sign(this.ed25519KeyPair.secretKey, new TextEncoder().encode(message));
+    return base64.encode(signature);
+  }
+
+  /**
+   * Sign a push notification unsubscribe message using blinded subaccount keys
+   */
+  signPushUnsubscribeWithSubaccount(sigTs: number, accountBytes: Uint8Array, blindedSecretKey: Uint8Array): string {
+    const message = `UNSUBSCRIBE${hex.encode(accountBytes).toLowerCase()}${sigTs}`;
+    return this.signWithBlindedScalar(message, blindedSecretKey);
+  }
 
 
   /**
@@ -297,8 +567,8 @@ export class CryptoUtils {
   /**
    * Create from existing Ed25519 key pair
    */
-  static fromEd25519KeyPair(publicKey: Uint8Array, secretKey: Uint8Array): CryptoUtils {
-    const instance = new CryptoUtils();
+  static fromEd25519KeyPair(publicKey: Uint8Array, secretKey: Uint8Array, options: CryptoUtilsOptions = {}): CryptoUtils {
+    const instance = new CryptoUtils(undefined, options);
     instance.ed25519KeyPair = { publicKey, secretKey };
     return instance;
   }
@@ -320,6 +590,37 @@ export class CryptoUtils {
     return new CryptoUtils(seed);
   }
 
+  /**
+   * Create from a Session recovery phrase (13 words, or 25 for legacy 32-byte seeds)
+   */
+  static fromSessionMnemonic(words: string): CryptoUtils {
+    return new CryptoUtils(sessionMnemonicToSeed(words));
+  }
+
+  /**
+   * Create from a BIP39 phrase; the Ed25519 seed is the first 32 bytes of the BIP39 seed
+   */
+  static fromBip39Mnemonic(words: string, passphrase: string = ''): CryptoUtils {
+    return new CryptoUtils(bip39MnemonicToSeed(words, passphrase));
+  }
+
+  /**
+   * Get the 32-byte Ed25519 seed
+   */
+  getSeed(): Uint8Array {
+    return this.ed25519KeyPair.secretKey.slice(0, 32);
+  }
+
+  /**
+   * Export the seed as a Session recovery phrase
+   * Seeds whose last 16 bytes are zero (Session's own) give 13 words, other seeds 25
+   * BIP39 phrases cannot be recovered from the seed, so identities loaded from one export as Session phrases
+   */
+  toSessionMnemonic(): string {
+    const seed = this.getSeed();
+    return encodeSessionMnemonic(seed.slice(16).every(byte => byte === 0) ? seed.slice(0, 16) : seed);
+  }
+
   /**
    * Get Ed25519 key pair
    */
@@ -334,6 +635,13 @@ export class CryptoUtils {
     return convertPublicKeyToX25519(this.ed25519KeyPair.publicKey);
   }
 
+  /**
+   * Get X25519 secret key (derived from Ed25519)
+   */
+  getX25519SecretKey(): Uint8Array {
+    return convertSecretKeyToX25519(this.ed25519KeyPair.secretKey);
+  }
+
   /**
    * Generate random bytes
    */
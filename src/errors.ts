@@ -0,0 +1,143 @@
+/**
+ * Base error for a storage RPC that the server rejected or that could not be completed
+ */
+export class StorageRpcError extends Error {
+  readonly method: string;
+  readonly code: number;
+
+  constructor(method: string, code: number, message: string) {
+    super(`${method} failed (${code}): ${message}`);
+    this.name = 'StorageRpcError';
+    this.method = method;
+    this.code = code;
+  }
+}
+
+/**
+ * Thrown for 400 responses (malformed or missing parameters)
+ */
+export class StorageBadRequestError extends StorageRpcError {
+  constructor(method: string, message: string) {
+    super(method, 400, message);
+    this.name = 'StorageBadRequestError';
+  }
+}
+
+/**
+ * Thrown for 401 responses (invalid signature or subaccount)
+ */
+export class StorageUnauthorizedError extends StorageRpcError {
+  constructor(method: string, message: string) {
+    super(method, 401, message);
+    this.name = 'StorageUnauthorizedError';
+  }
+}
+
+/**
+ * Thrown for 404 responses (e.g. delete with `required` and no matching messages)
+ */
+export class StorageNotFoundError extends StorageRpcError {
+  constructor(method: string, message: string) {
+    super(method, 404, message);
+    this.name = 'StorageNotFoundError';
+  }
+}
+
+/**
+ * Thrown for 406 responses (request timestamp outside the server's accepted window)
+ */
+export class StorageClockOutOfSyncError extends StorageRpcError {
+  constructor(method: string, message: string) {
+    super(method, 406, message);
+    this.name = 'StorageClockOutOfSyncError';
+  }
+}
+
+/**
+ * Thrown for 421 responses (the contacted node is not in the pubkey's swarm)
+ * The server includes the current swarm, which is kept in `swarm` when present
+ */
+export class StorageWrongSwarmError extends StorageRpcError {
+  readonly swarm?: any;
+
+  constructor(method: string, message: string, swarm?: any) {
+    super(method, 421, message);
+    this.name = 'StorageWrongSwarmError';
+    this.swarm = swarm;
+  }
+}
+
+/**
+ * Thrown when the request never produced an HTTP response (connection refused, timeout, ...)
+ */
+export class StorageNetworkError extends StorageRpcError {
+  readonly cause?: unknown;
+
+  constructor(method: string, message: string, cause?: unknown) {
+    super(method, 0, message);
+    this.name = 'StorageNetworkError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * Thrown for a sub-request of a `sequence` that was skipped because an earlier one failed
+ */
+export class StorageSequenceAbortedError extends StorageRpcError {
+  constructor(method: string) {
+    super(method, 0, 'not executed: an earlier request in the sequence failed');
+    this.name = 'StorageSequenceAbortedError';
+  }
+}
+
+/**
+ * Thrown when a successful response does not have the shape expected for its method
+ * `path` points at the offending field (e.g. `messages[0].hash`); code is 0 as the server reported no error
+ */
+export class StorageInvalidResponseError extends StorageRpcError {
+  readonly path: string;
+  readonly body?: unknown;
+
+  constructor(method: string, path: string, message: string, body?: unknown) {
+    super(method, 0, `invalid response: ${path} ${message}`);
+    this.name = 'StorageInvalidResponseError';
+    this.path = path;
+    this.body = body;
+  }
+}
+
+/**
+ * Thrown when the push notification server rejects a /subscribe or /unsubscribe request
+ * `code` is the server's error code, or the HTTP status when the body has none (0 when unreachable)
+ */
+export class PushServerError extends Error {
+  readonly endpoint: string;
+  readonly code: number;
+
+  constructor(endpoint: string, code: number, message: string) {
+    super(`${endpoint} failed (${code}): ${message}`);
+    this.name = 'PushServerError';
+    this.endpoint = endpoint;
+    this.code = code;
+  }
+}
+
+/**
+ * Map an HTTP status / RPC error code to the matching typed error
+ */
+export function createStorageRpcError(method: string, code: number, message: string, body?: any): StorageRpcError {
+  switch (code) {
+    case 400:
+      return new StorageBadRequestError(method, message);
+    case 401:
+      return new StorageUnauthorizedError(method, message);
+    case 404:
+      return new StorageNotFoundError(method, message);
+    case 406:
+      return new StorageClockOutOfSyncError(method, message);
+    case 421:
+      return new StorageWrongSwarmError(method, message, body);
+    default:
+      return new StorageRpcError(method, code, message);
+  }
+}
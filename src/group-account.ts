@@ -0,0 +1,105 @@
+import * as hex from '@stablelib/hex';
+import { CryptoUtils, CryptoUtilsOptions } from './crypto';
+import { PostmanParamsGenerator } from './postman-params';
+import { GroupAuthStrategy, SubaccountAuthStrategy } from './auth-strategy';
+import { SessionNamespace } from './namespace-policy';
+import { SubaccountPermission } from './subaccount-manager';
+
+// Network prefix of closed group accounts
+export const GROUP_NETWORK_PREFIX = 3;
+
+/**
+ * Namespaces of a closed group's swarm
+ */
+export const GROUP_NAMESPACES: readonly number[] = [
+  SessionNamespace.GroupMessages,
+  SessionNamespace.GroupKeys,
+  SessionNamespace.GroupInfo,
+  SessionNamespace.GroupMembers,
+  SessionNamespace.GroupRevokedRetrievableMessages
+];
+
+/**
+ * Whether a pubkey is a closed group id: 03 followed by a 32-byte Ed25519 pubkey
+ */
+export function isGroupId(pubkey: string): boolean {
+  return /^03[0-9a-fA-F]{64}$/.test(pubkey);
+}
+
+/**
+ * A closed group account (03-prefixed pubkey)
+ * The group's Ed25519 key is the admin key: it signs requests to the group's swarm directly and
+ * signs the subaccount tokens that let non-admin members store and retrieve
+ */
+export class GroupAccount {
+  private admin: PostmanParamsGenerator;
+
+  private constructor(adminCrypto: CryptoUtils) {
+    this.admin = GroupAccount.adminGenerator(adminCrypto);
+  }
+
+  /**
+   * Create a group identity from a 32-byte seed (random when omitted)
+   */
+  static create(seed?: Uint8Array, options: CryptoUtilsOptions = {}): GroupAccount {
+    return new GroupAccount(new CryptoUtils(seed, options));
+  }
+
+  /**
+   * Load a group from an existing admin key
+   */
+  static fromCrypto(adminCrypto: CryptoUtils): GroupAccount {
+    return new GroupAccount(adminCrypto);
+  }
+
+  /**
+   * Get the group id (03 + group Ed25519 pubkey), used as `pubkey` in group requests
+   */
+  getGroupId(): string {
+    return this.admin.getAuthStrategy().getPubkey();
+  }
+
+  /**
+   * Get the raw Ed25519 pubkey of the group
+   * Members need it to derive their blinded signing key
+   */
+  getGroupEd25519Pubkey(): Uint8Array {
+    return this.admin.getOwnerEd25519Pubkey();
+  }
+
+  /**
+   * Get a generator signing every request with the group admin key
+   */
+  getAdmin(): PostmanParamsGenerator {
+    return this.admin;
+  }
+
+  /**
+   * Issue a subaccount token of the group to a member's Ed25519 pubkey
+   * Members can read and post by default; pass SubaccountPermission.Delete as well to let them
+   * delete and shorten expiries
+   */
+  issueMemberToken(memberPubkeyHex: string, permissions: number = SubaccountPermission.Read | SubaccountPermission.Write): {
+    subaccountToken: string;
+    subaccountSignature: string;
+  } {
+    return this.admin.generateSubaccountDelegation(memberPubkeyHex, permissions, GROUP_NETWORK_PREFIX);
+  }
+
+  /**
+   * Get a generator signing as a non-admin member with a token issued by the group admin
+   */
+  static memberGenerator(groupId: string, subaccountToken: string, subaccountSignature: string, memberCrypto: CryptoUtils): PostmanParamsGenerator {
+    if (!isGroupId(groupId)) {
+      throw new Error(`Invalid group id: expected 03 followed by 64 hex characters, got ${groupId}`);
+    }
+    const auth = new SubaccountAuthStrategy(hex.decode(groupId.slice(2)), subaccountToken, subaccountSignature, memberCrypto, GROUP_NETWORK_PREFIX);
+    return PostmanParamsGenerator.fromCrypto(memberCrypto).withAuthStrategy(auth);
+  }
+
+  private static adminGenerator(adminCrypto: CryptoUtils): PostmanParamsGenerator {
+    const generator = PostmanParamsGenerator.fromCrypto(adminCrypto);
+    generator.setAuthStrategy(new GroupAuthStrategy(adminCrypto));
+    return generator;
+  }
+}
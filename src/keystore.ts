@@ -0,0 +1,343 @@
+import { createCipheriv, createDecipheriv, scrypt } from 'crypto';
+import { promises as fs } from 'fs';
+import * as hex from '@stablelib/hex';
+import * as base64 from '@stablelib/base64';
+import { CryptoUtils } from './crypto';
+import { mnemonicToSeed } from './mnemonic';
+import { PostmanParamsGenerator } from './postman-params';
+import { SubaccountManager, SubaccountRecord } from './subaccount-manager';
+
+export const KEYSTORE_VERSION = 1;
+
+export interface ScryptParams {
+  /** CPU/memory cost (power of two) */
+  N: number;
+  r: number;
+  p: number;
+}
+
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { N: 32768, r: 8, p: 1 };
+
+/**
+ * On-disk format: everything but the version and KDF/cipher parameters is encrypted,
+ * and those parameters are authenticated as associated data
+ */
+export interface KeystoreFile {
+  version: number;
+  kdf: { name: 'scrypt'; salt: string } & ScryptParams;
+  cipher: { name: 'aes-256-gcm'; iv: string; tag: string };
+  ciphertext: string;
+}
+
+export interface KeystoreIdentity {
+  name: string;
+  /** 32-byte Ed25519 seed (hex) */
+  seed: string;
+  /** 05-prefixed Session ID */
+  sessionId: string;
+  /** 00-prefixed account pubkey */
+  pubkey: string;
+  createdAt: number;
+  /** Subaccount tokens issued by this identity */
+  subaccounts: SubaccountRecord[];
+}
+
+/** Identity as listed, without its seed */
+export type KeystoreIdentitySummary = Omit<KeystoreIdentity, 'seed' | 'subaccounts'> & { subaccountCount: number };
+
+export interface KeystoreOptions {
+  /** scrypt parameters for new keystores and password changes */
+  scrypt?: ScryptParams;
+}
+
+interface KeystoreContents {
+  identities: KeystoreIdentity[];
+}
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+/**
+ * Password-encrypted store of named identities and the subaccount tokens they issued
+ * The key is derived with scrypt and the contents are sealed with AES-256-GCM:
+ *
+ *   const keystore = await Keystore.create('keys.json', password);
+ *   keystore.addIdentity('alice', seed);
+ *   await keystore.save();
+ *   const generator = (await Keystore.open('keys.json', password)).getGenerator('alice');
+ */
+export class Keystore {
+  private path: string;
+  private password: string;
+  private scryptParams: ScryptParams;
+  private identities = new Map<string, KeystoreIdentity>();
+
+  private constructor(path: string, password: string, scryptParams: ScryptParams) {
+    this.path = path;
+    this.password = password;
+    this.scryptParams = scryptParams;
+  }
+
+  /**
+   * Create an empty keystore and write it to `path`; fails if the file exists
+   */
+  static async create(path: string, password: string, options: KeystoreOptions = {}): Promise<Keystore> {
+    if (!password) {
+      throw new Error('Keystore password must not be empty');
+    }
+    const keystore = new Keystore(path, password, options.scrypt ?? DEFAULT_SCRYPT_PARAMS);
+    await keystore.write('wx');
+    return keystore;
+  }
+
+  /**
+   * Decrypt an existing keystore
+   */
+  static async open(path: string, password: string): Promise<Keystore> {
+    const file: KeystoreFile = JSON.parse(await fs.readFile(path, 'utf8'));
+    if (file.version !== KEYSTORE_VERSION) {
+      throw new Error(`Unsupported keystore version: ${file.version}`);
+    }
+    if (file.kdf?.name !== 'scrypt' || file.cipher?.name !== 'aes-256-gcm') {
+      throw new Error(`Unsupported keystore encryption: ${file.kdf?.name}/${file.cipher?.name}`);
+    }
+
+    const { N, r, p } = file.kdf;
+    const key = await deriveKey(password, base64.decode(file.kdf.salt), { N, r, p });
+    const decipher = createDecipheriv('aes-256-gcm', key, base64.decode(file.cipher.iv));
+    decipher.setAAD(associatedData(file));
+    decipher.setAuthTag(base64.decode(file.cipher.tag));
+
+    let plaintext: Buffer;
+    try {
+      plaintext = Buffer.concat([decipher.update(base64.decode(file.ciphertext)), decipher.final()]);
+    } catch {
+      throw new Error('Cannot unlock keystore: wrong password or corrupted file');
+    }
+
+    const keystore = new Keystore(path, password, { N, r, p });
+    const contents: KeystoreContents = JSON.parse(plaintext.toString('utf8'));
+    for (const identity of contents.identities) {
+      keystore.identities.set(identity.name, identity);
+    }
+    return keystore;
+  }
+
+  /**
+   * Open the keystore at `path`, creating it when the file does not exist
+   */
+  static async openOrCreate(path: string, password: string, options: KeystoreOptions = {}): Promise<Keystore> {
+    try {
+      return await Keystore.open(path, password);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      return Keystore.create(path, password, options);
+    }
+  }
+
+  /**
+   * Add an identity from a seed, a key pair, a hex seed or a Session/BIP39 phrase
+   * Changes are kept in memory until save()
+   */
+  addIdentity(name: string, source: Uint8Array | CryptoUtils | string): KeystoreIdentitySummary {
+    if (!name.trim()) {
+      throw new Error('Identity name must not be empty');
+    }
+    if (this.identities.has(name)) {
+      throw new Error(`Identity already exists: ${name}`);
+    }
+
+    const crypto = source instanceof CryptoUtils ? source : new CryptoUtils(toSeed(source));
+    const generator = PostmanParamsGenerator.fromCrypto(crypto);
+    const identity: KeystoreIdentity = {
+      name,
+      seed: hex.encode(crypto.getSeed(), true),
+      sessionId: generator.getX25519SessionId().toLowerCase(),
+      pubkey: generator.getPublicKey().toLowerCase(),
+      createdAt: Date.now(),
+      subaccounts: []
+    };
+    this.identities.set(name, identity);
+    return summarize(identity);
+  }
+
+  /**
+   * Remove an identity and its subaccount records
+   */
+  removeIdentity(name: string): boolean {
+    return this.identities.delete(name);
+  }
+
+  /**
+   * List identities without their seeds
+   */
+  listIdentities(): KeystoreIdentitySummary[] {
+    return [...this.identities.values()].map(summarize);
+  }
+
+  /**
+   * Whether an identity with this name exists
+   */
+  hasIdentity(name: string): boolean {
+    return this.identities.has(name);
+  }
+
+  /**
+   * Get the key pair of an identity
+   */
+  getCrypto(name: string): CryptoUtils {
+    return new CryptoUtils(hex.decode(this.require(name).seed));
+  }
+
+  /**
+   * Get a generator signing as an identity
+   */
+  getGenerator(name: string, isSessionId: boolean = false): PostmanParamsGenerator {
+    return PostmanParamsGenerator.fromCrypto(this.getCrypto(name), isSessionId);
+  }
+
+  /**
+   * Export the seed of an identity as hex or as a Session recovery phrase
+   */
+  exportIdentity(name: string, format: 'hex' | 'mnemonic' = 'hex'): string {
+    const identity = this.require(name);
+    return format === 'hex' ? identity.seed : this.getCrypto(name).toSessionMnemonic();
+  }
+
+  /**
+   * Record a subaccount token issued by an identity (replaces a record with the same token)
+   */
+  addSubaccount(name: string, record: SubaccountRecord): void {
+    const identity = this.require(name);
+    identity.subaccounts = [
+      ...identity.subaccounts.filter(existing => existing.token.toLowerCase() !== record.token.toLowerCase()),
+      { ...record }
+    ];
+  }
+
+  /**
+   * Forget a subaccount record (does not revoke it on the server)
+   */
+  removeSubaccount(name: string, token: string): boolean {
+    const identity = this.require(name);
+    const before = identity.subaccounts.length;
+    identity.subaccounts = identity.subaccounts.filter(record => record.token.toLowerCase() !== token.toLowerCase());
+    return identity.subaccounts.length !== before;
+  }
+
+  /**
+   * List the subaccount records of an identity
+   */
+  listSubaccounts(name: string): SubaccountRecord[] {
+    return this.require(name).subaccounts.map(record => ({ ...record }));
+  }
+
+  /**
+   * Get a SubaccountManager for an identity, loaded with its recorded subaccounts
+   * Pass it back to saveSubaccountManager() to keep tokens issued or revoked through it
+   */
+  getSubaccountManager(name: string): SubaccountManager {
+    const manager = new SubaccountManager(this.getGenerator(name));
+    manager.load(this.require(name).subaccounts);
+    return manager;
+  }
+
+  /**
+   * Replace the subaccount records of an identity with those of a manager
+   */
+  saveSubaccountManager(name: string, manager: SubaccountManager): void {
+    this.require(name).subaccounts = manager.toJSON();
+  }
+
+  /**
+   * Re-encrypt the keystore under a new password (takes effect on disk immediately)
+   */
+  async changePassword(newPassword: string, options: KeystoreOptions = {}): Promise<void> {
+    if (!newPassword) {
+      throw new Error('Keystore password must not be empty');
+    }
+    this.password = newPassword;
+    this.scryptParams = options.scrypt ?? this.scryptParams;
+    await this.save();
+  }
+
+  /**
+   * Encrypt and write the keystore with a fresh salt and IV
+   */
+  async save(): Promise<void> {
+    await this.write('w');
+  }
+
+  private async write(flag: 'w' | 'wx'): Promise<void> {
+    const salt = CryptoUtils.generateRandomBytes(SALT_LENGTH);
+    const iv = CryptoUtils.generateRandomBytes(IV_LENGTH);
+    const key = await deriveKey(this.password, salt, this.scryptParams);
+
+    const header = {
+      version: KEYSTORE_VERSION,
+      kdf: { name: 'scrypt' as const, salt: base64.encode(salt), ...this.scryptParams },
+      cipher: { name: 'aes-256-gcm' as const, iv: base64.encode(iv), tag: '' }
+    };
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(associatedData(header));
+    const contents: KeystoreContents = { identities: [...this.identities.values()] };
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(contents), 'utf8'), cipher.final()]);
+
+    const file: KeystoreFile = {
+      ...header,
+      cipher: { ...header.cipher, tag: base64.encode(cipher.getAuthTag()) },
+      ciphertext: base64.encode(ciphertext)
+    };
+
+    const data = JSON.stringify(file, null, 2);
+    if (flag === 'wx') {
+      await fs.writeFile(this.path, data, { flag: 'wx', mode: 0o600 });
+      return;
+    }
+    // Write to a temporary file first so an interrupted save never leaves a truncated keystore
+    const temporary = `${this.path}.tmp`;
+    await fs.writeFile(temporary, data, { mode: 0o600 });
+    await fs.rename(temporary, this.path);
+  }
+
+  private require(name: string): KeystoreIdentity {
+    const identity = this.identities.get(name);
+    if (!identity) {
+      throw new Error(`Unknown identity: ${name}`);
+    }
+    return identity;
+  }
+}
+
+function deriveKey(password: string, salt: Uint8Array, { N, r, p }: ScryptParams): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // scrypt needs 128 * N * r bytes; allow twice that so the default parameters fit
+    scrypt(password.normalize('NFKC'), salt, KEY_LENGTH, { N, r, p, maxmem: 256 * N * r }, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+// The tag is not known when encrypting, so it is excluded from the authenticated header
+function associatedData(file: Pick<KeystoreFile, 'version' | 'kdf' | 'cipher'>): Buffer {
+  const { version, kdf, cipher } = file;
+  return Buffer.from(JSON.stringify({ version, kdf, cipher: { name: cipher.name, iv: cipher.iv } }), 'utf8');
+}
+
+function toSeed(source: Uint8Array | string): Uint8Array {
+  if (typeof source !== 'string') {
+    if (source.length !== 32) {
+      throw new Error(`Seed must be 32 bytes, got ${source.length}`);
+    }
+    return source;
+  }
+  const trimmed = source.trim();
+  return /^[0-9a-fA-F]{64}$/.test(trimmed) ? hex.decode(trimmed) : mnemonicToSeed(trimmed);
+}
+
+function summarize({ name, sessionId, pubkey, createdAt, subaccounts }: KeystoreIdentity): KeystoreIdentitySummary {
+  return { name, sessionId, pubkey, createdAt, subaccountCount: subaccounts.length };
+}
@@ -0,0 +1,269 @@
+import { EventEmitter, on } from 'events';
+import { promises as fs } from 'fs';
+import { ApiRequest, PostmanParamsGenerator } from './postman-params';
+import { BatchRequestBuilder, BatchHandle, MAX_BATCH_REQUESTS } from './batch-builder';
+import { validateNamespace } from './namespace-policy';
+import { RetrieveResult, RetrievedMessage } from './types';
+
+/**
+ * Anything that can deliver a storage RPC (StorageClient, SwarmResolver, ...)
+ */
+export interface RequestSender {
+  send<T = unknown>(request: ApiRequest): Promise<T>;
+}
+
+/**
+ * Persistence for the last seen message hash of each (pubkey, namespace)
+ */
+export interface LastHashStore {
+  get(pubkey: string, namespace: number): Promise<string | undefined>;
+  set(pubkey: string, namespace: number, hash: string): Promise<void>;
+}
+
+/**
+ * In-memory last_hash store (state is lost on restart)
+ */
+export class MemoryLastHashStore implements LastHashStore {
+  private hashes = new Map<string, string>();
+
+  async get(pubkey: string, namespace: number): Promise<string | undefined> {
+    return this.hashes.get(`${pubkey.toLowerCase()}:${namespace}`);
+  }
+
+  async set(pubkey: string, namespace: number, hash: string): Promise<void> {
+    this.hashes.set(`${pubkey.toLowerCase()}:${namespace}`, hash);
+  }
+}
+
+/**
+ * last_hash store backed by a JSON file of `{ "<pubkey>:<namespace>": "<hash>" }`
+ */
+export class JsonFileLastHashStore implements LastHashStore {
+  private path: string;
+  private hashes?: Record<string, string>;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(pubkey: string, namespace: number): Promise<string | undefined> {
+    const hashes = await this.load();
+    return hashes[`${pubkey.toLowerCase()}:${namespace}`];
+  }
+
+  async set(pubkey: string, namespace: number, hash: string): Promise<void> {
+    const hashes = await this.load();
+    hashes[`${pubkey.toLowerCase()}:${namespace}`] = hash;
+    await fs.writeFile(this.path, JSON.stringify(hashes, null, 2));
+  }
+
+  private async load(): Promise<Record<string, string>> {
+    if (!this.hashes) {
+      try {
+        this.hashes = JSON.parse(await fs.readFile(this.path, 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+        this.hashes = {};
+      }
+    }
+    return this.hashes!;
+  }
+}
+
+export interface PolledMessage extends RetrievedMessage {
+  namespace: number;
+}
+
+export interface MessagePollerOptions {
+  /** Namespaces to poll (defaults to [0]) */
+  namespaces?: number[];
+  /** Delay between polls in milliseconds */
+  intervalMs?: number;
+  /** Where last_hash is kept between polls and restarts (defaults to memory) */
+  store?: LastHashStore;
+  /** max_count passed to each retrieve */
+  maxCount?: number;
+  /** Number of recent hashes remembered per namespace for de-duplication */
+  dedupeWindow?: number;
+}
+
+/**
+ * Polls namespaces of an account with one batched retrieve per round
+ * Tracks last_hash per namespace, drops messages it has already delivered and emits the rest:
+ *
+ *   poller.on('message', (message: PolledMessage) => ...)
+ *   poller.on('error', (error: Error) => ...)
+ *   for await (const message of poller) { ... }
+ *
+ * Failed polls are reported through 'error' and polling continues
+ */
+export class MessagePoller extends EventEmitter {
+  private generator: PostmanParamsGenerator;
+  private sender: RequestSender;
+  private namespaces: number[];
+  private intervalMs: number;
+  private store: LastHashStore;
+  private maxCount?: number;
+  private dedupeWindow: number;
+  private seen = new Map<number, Set<string>>();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private pendingMore = false;
+  // Bumped on every start() and stop(); a poll only reschedules while its loop is still current
+  private loop = 0;
+
+  constructor(generator: PostmanParamsGenerator, sender: RequestSender, options: MessagePollerOptions = {}) {
+    super();
+    this.generator = generator;
+    this.sender = sender;
+    this.namespaces = options.namespaces ?? [0];
+    this.intervalMs = options.intervalMs ?? 3000;
+    this.store = options.store ?? new MemoryLastHashStore();
+    this.maxCount = options.maxCount;
+    this.dedupeWindow = options.dedupeWindow ?? 1000;
+
+    if (this.namespaces.length === 0 || this.namespaces.length > MAX_BATCH_REQUESTS) {
+      throw new Error(`A poller needs between 1 and ${MAX_BATCH_REQUESTS} namespaces`);
+    }
+    this.namespaces.forEach(validateNamespace);
+  }
+
+  /**
+   * Run a single poll of every namespace and return the new messages
+   * Namespaces whose retrieve failed are reported through 'error'
+   */
+  async pollOnce(): Promise<PolledMessage[]> {
+    const pubkey = this.getPubkey();
+    const builder = new BatchRequestBuilder(this.generator);
+    const handles = new Map<number, BatchHandle<RetrieveResult>>();
+    for (const namespace of this.namespaces) {
+      const lastHash = await this.store.get(pubkey, namespace);
+      handles.set(namespace, builder.retrieve(lastHash, namespace, this.maxCount));
+    }
+
+    const results = builder.parse(await this.sender.send(builder.build()));
+    const delivered: PolledMessage[] = [];
+    let more = false;
+
+    for (const [namespace, handle] of handles) {
+      const outcome = results.outcome(handle);
+      if (!outcome.ok) {
+        this.reportError(outcome.error);
+        continue;
+      }
+
+      const { messages } = outcome.result;
+      more = more || outcome.result.more === true;
+      for (const message of messages) {
+        if (this.markSeen(namespace, message.hash)) {
+          delivered.push({ ...message, namespace });
+        }
+      }
+      if (messages.length > 0) {
+        await this.store.set(pubkey, namespace, messages[messages.length - 1].hash);
+      }
+    }
+
+    for (const message of delivered) {
+      this.emit('message', message);
+    }
+    // Poll again right away when a namespace reported more messages than returned
+    this.pendingMore = more;
+    return delivered;
+  }
+
+  /**
+   * Start polling on the configured interval
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedule(0, ++this.loop);
+  }
+
+  /**
+   * Stop polling; pending async iterators finish
+   */
+  stop(): void {
+    this.running = false;
+    this.loop++;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.emit('stop');
+  }
+
+  /**
+   * Whether the poll loop is running
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Iterate over new messages until stop() is called
+   * An 'error' event ends the iteration by throwing it
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<PolledMessage> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    this.once('stop', abort);
+    try {
+      for await (const [message] of on(this, 'message', { signal: controller.signal })) {
+        yield message as PolledMessage;
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        throw error;
+      }
+    } finally {
+      this.off('stop', abort);
+    }
+  }
+
+  private schedule(delay: number, loop: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.pollOnce();
+      } catch (error) {
+        this.reportError(error);
+      }
+      if (this.running && loop === this.loop) {
+        this.schedule(this.pendingMore ? 0 : this.intervalMs, loop);
+      }
+    }, delay);
+  }
+
+  private reportError(error: unknown): void {
+    // Without a listener an 'error' event would crash the process from inside the timer
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+
+  // Returns false for hashes delivered recently; the window is bounded per namespace
+  private markSeen(namespace: number, hash: string): boolean {
+    let seen = this.seen.get(namespace);
+    if (!seen) {
+      seen = new Set();
+      this.seen.set(namespace, seen);
+    }
+    if (seen.has(hash)) {
+      return false;
+    }
+    seen.add(hash);
+    if (seen.size > this.dedupeWindow) {
+      seen.delete(seen.values().next().value!);
+    }
+    return true;
+  }
+
+  private getPubkey(): string {
+    return this.generator.getAuthStrategy().getPubkey();
+  }
+}
@@ -0,0 +1,146 @@
+import { mnemonicToSeedSync, validateMnemonic } from '@scure/bip39';
+import { wordlist as bip39Wordlist } from '@scure/bip39/wordlists/english';
+import sessionWordlist from '@session.js/mnemonic/dist/dictionaries/english';
+
+/** 12 words + checksum for a 16-byte seed, 24 words + checksum for a 32-byte (legacy) seed */
+export const SESSION_MNEMONIC_WORD_COUNTS = [13, 25];
+export const BIP39_MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+// Session words are identified by their first three letters, which is also what the checksum covers
+const SESSION_PREFIX_LENGTH = 3;
+const SESSION_PREFIXES = sessionWordlist.map(word => word.slice(0, SESSION_PREFIX_LENGTH));
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(text: string): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < text.length; i++) {
+    crc = (crc >>> 8) ^ CRC32_TABLE[(crc ^ text.charCodeAt(i)) & 0xff];
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function checksumIndex(words: string[]): number {
+  return crc32(words.map(word => word.slice(0, SESSION_PREFIX_LENGTH)).join('')) % words.length;
+}
+
+/**
+ * Split a phrase into lowercase words, ignoring extra whitespace
+ */
+export function splitMnemonic(words: string): string[] {
+  return words.trim().toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Encode a 16- or 32-byte seed as a Session recovery phrase (13 or 25 words, the last one a checksum)
+ */
+export function encodeSessionMnemonic(seed: Uint8Array): string {
+  if (seed.length !== 16 && seed.length !== 32) {
+    throw new Error(`Session mnemonics encode 16 or 32 bytes, got ${seed.length}`);
+  }
+
+  const n = sessionWordlist.length;
+  const words: string[] = [];
+  for (let i = 0; i < seed.length; i += 4) {
+    // Each little-endian 32-bit chunk becomes three words
+    const x = (seed[i] | (seed[i + 1] << 8) | (seed[i + 2] << 16) | (seed[i + 3] << 24)) >>> 0;
+    const w1 = x % n;
+    const w2 = (Math.floor(x / n) + w1) % n;
+    const w3 = (Math.floor(x / n / n) + w2) % n;
+    words.push(sessionWordlist[w1], sessionWordlist[w2], sessionWordlist[w3]);
+  }
+  words.push(words[checksumIndex(words)]);
+  return words.join(' ');
+}
+
+/**
+ * Decode a Session recovery phrase to its seed (16 bytes for 13 words, 32 bytes for 25)
+ * Throws for a wrong word count, unknown words or a checksum mismatch
+ */
+export function decodeSessionMnemonic(words: string): Uint8Array {
+  const list = splitMnemonic(words);
+  if (!SESSION_MNEMONIC_WORD_COUNTS.includes(list.length)) {
+    throw new Error(`Invalid Session mnemonic: expected 13 or 25 words, got ${list.length}`);
+  }
+
+  const checksumWord = list.pop()!;
+  const indexes = list.map((word, position) => {
+    const index = SESSION_PREFIXES.indexOf(word.slice(0, SESSION_PREFIX_LENGTH));
+    if (index === -1) {
+      throw new Error(`Invalid Session mnemonic: unknown word "${word}" at position ${position + 1}`);
+    }
+    return index;
+  });
+
+  if (list[checksumIndex(list)].slice(0, SESSION_PREFIX_LENGTH) !== checksumWord.slice(0, SESSION_PREFIX_LENGTH)) {
+    throw new Error('Invalid Session mnemonic: checksum word does not match');
+  }
+
+  const n = sessionWordlist.length;
+  const seed = new Uint8Array((list.length / 3) * 4);
+  for (let i = 0; i < indexes.length; i += 3) {
+    const [w1, w2, w3] = indexes.slice(i, i + 3);
+    const x = w1 + n * ((n - w1 + w2) % n) + n * n * ((n - w2 + w3) % n);
+    if (x % n !== w1 || x > 0xffffffff) {
+      throw new Error(`Invalid Session mnemonic: words ${i + 1}-${i + 3} do not encode a valid value`);
+    }
+    const offset = (i / 3) * 4;
+    seed[offset] = x & 0xff;
+    seed[offset + 1] = (x >>> 8) & 0xff;
+    seed[offset + 2] = (x >>> 16) & 0xff;
+    seed[offset + 3] = (x >>> 24) & 0xff;
+  }
+  return seed;
+}
+
+/**
+ * Get the 32-byte Ed25519 seed of a Session recovery phrase
+ * 13-word phrases hold 16 bytes, which Session pads with zeros
+ */
+export function sessionMnemonicToSeed(words: string): Uint8Array {
+  const seed = new Uint8Array(32);
+  seed.set(decodeSessionMnemonic(words));
+  return seed;
+}
+
+/**
+ * Get the 32-byte Ed25519 seed of a BIP39 phrase: the first half of the BIP39 seed
+ * Throws for a wrong word count, unknown words or a checksum mismatch
+ */
+export function bip39MnemonicToSeed(words: string, passphrase: string = ''): Uint8Array {
+  const list = splitMnemonic(words);
+  if (!BIP39_MNEMONIC_WORD_COUNTS.includes(list.length)) {
+    throw new Error(`Invalid BIP39 mnemonic: expected ${BIP39_MNEMONIC_WORD_COUNTS.join(', ')} words, got ${list.length}`);
+  }
+  const unknown = list.findIndex(word => !bip39Wordlist.includes(word));
+  if (unknown !== -1) {
+    throw new Error(`Invalid BIP39 mnemonic: unknown word "${list[unknown]}" at position ${unknown + 1}`);
+  }
+  if (!validateMnemonic(list.join(' '), bip39Wordlist)) {
+    throw new Error('Invalid BIP39 mnemonic: checksum does not match');
+  }
+  return mnemonicToSeedSync(list.join(' '), passphrase).slice(0, 32);
+}
+
+/**
+ * Get the 32-byte Ed25519 seed of a Session or BIP39 phrase, told apart by word count
+ */
+export function mnemonicToSeed(words: string, passphrase: string = ''): Uint8Array {
+  const count = splitMnemonic(words).length;
+  if (SESSION_MNEMONIC_WORD_COUNTS.includes(count)) {
+    return sessionMnemonicToSeed(words);
+  }
+  if (BIP39_MNEMONIC_WORD_COUNTS.includes(count)) {
+    return bip39MnemonicToSeed(words, passphrase);
+  }
+  throw new Error(
+    `Invalid mnemonic: expected ${SESSION_MNEMONIC_WORD_COUNTS.join(' or ')} words (Session) or ` +
+    `${BIP39_MNEMONIC_WORD_COUNTS.join(', ')} words (BIP39), got ${count}`
+  );
+}
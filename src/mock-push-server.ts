@@ -0,0 +1,385 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as ed25519 from '@stablelib/ed25519';
+import { convertPublicKeyToX25519 } from '@stablelib/ed25519';
+import * as hex from '@stablelib/hex';
+import * as base64 from '@stablelib/base64';
+import axios from 'axios';
+import sodium from 'libsodium-wrappers-sumo';
+import { MockStorageServer } from './mock-storage-server';
+import { encryptPushNotification, MAX_PUSH_DATA_LENGTH, PushNotificationMetadata, PUSH_ENC_KEY_LENGTH } from './push-notification';
+import { PushServerResult } from './types';
+
+export interface MockPushServerOptions {
+  /** URL every notification is POSTed to; without it notifications are only returned by notify() */
+  webhookUrl?: string;
+  /** Clock used for sig_ts checks (defaults to Date.now) */
+  now?: () => number;
+  /** Maximum difference between sig_ts and the server clock */
+  timestampWindowMs?: number;
+}
+
+export interface PushSubscription {
+  /** 33-byte account pubkey (hex, lowercase) */
+  pubkey: string;
+  namespaces: number[];
+  data: boolean;
+  service: string;
+  service_info: Record<string, any>;
+  enc_key: string;
+}
+
+export interface PushTestMessage {
+  namespace: number;
+  /** Message body; strings are sent as UTF-8 */
+  data: Uint8Array | string;
+  /** Defaults to the hash a storage server would compute */
+  hash?: string;
+  timestamp?: number;
+  expiry?: number;
+}
+
+/**
+ * Body POSTed to the webhook for each notification, as a push service would deliver it
+ */
+export interface PushWebhookNotification {
+  service: string;
+  service_info: Record<string, any>;
+  /** base64 of nonce || XChaCha20-Poly1305 ciphertext, decrypted with the subscription's enc_key */
+  enc_payload: string;
+  spns: number;
+}
+
+// Error codes returned by the push server in `error`
+const ERROR_BAD_INPUT = 1;
+
+// Module-private rejection carrying the push server's error code
+class PushRejection extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+// Subaccount permission bits: read=1, any_prefix=8
+const PERMISSION_READ = 1;
+const PERMISSION_ANY_PREFIX = 8;
+
+/**
+ * In-process fake Session push notification server for offline testing
+ * Accepts signed /subscribe and /unsubscribe requests and sends encrypted notifications
+ * for test messages to a webhook, the way the real server hands them to APNs/Firebase
+ */
+export class MockPushServer {
+  private server?: http.Server;
+  private subscriptions = new Map<string, PushSubscription>();
+  private webhookUrl?: string;
+  private now: () => number;
+  private timestampWindowMs: number;
+
+  constructor(options: MockPushServerOptions = {}) {
+    this.webhookUrl = options.webhookUrl;
+    this.now = options.now ?? Date.now;
+    this.timestampWindowMs = options.timestampWindowMs ?? 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Start listening on localhost and return the base URL
+   */
+  async start(port: number = 0): Promise<string> {
+    await sodium.ready;
+    this.server = http.createServer((req, res) => this.handleHttp(req, res));
+    await new Promise<void>(resolve => this.server!.listen(port, '127.0.0.1', () => resolve()));
+    return this.getBaseUrl();
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    const server = this.server;
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve())));
+  }
+
+  /**
+   * Get the base URL of the running server
+   */
+  getBaseUrl(): string {
+    if (!this.server) {
+      throw new Error('Mock push server is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Change the URL notifications are sent to; pass undefined to stop sending them
+   */
+  setWebhookUrl(url?: string): void {
+    this.webhookUrl = url;
+  }
+
+  /**
+   * Get the active subscriptions, optionally only those of one account
+   */
+  getSubscriptions(pubkey?: string): PushSubscription[] {
+    const subscriptions = [...this.subscriptions.values()];
+    return pubkey === undefined ? subscriptions : subscriptions.filter(s => s.pubkey === pubkey.toLowerCase());
+  }
+
+  /**
+   * Remove all subscriptions
+   */
+  clear(): void {
+    this.subscriptions.clear();
+  }
+
+  /**
+   * Handle a parsed /subscribe or /unsubscribe body and return [HTTP status, response body]
+   */
+  handleRequest(endpoint: string, body: any): [number, PushServerResult] {
+    try {
+      if (!body || typeof body !== 'object') {
+        throw new PushRejection(ERROR_BAD_INPUT, 'invalid request body');
+      }
+      switch (endpoint) {
+        case '/subscribe':
+          return [200, this.handleSubscribe(body)];
+        case '/unsubscribe':
+          return [200, this.handleUnsubscribe(body)];
+        default:
+          return [404, { error: ERROR_BAD_INPUT, message: `unknown endpoint: ${endpoint}` }];
+      }
+    } catch (error) {
+      if (error instanceof PushRejection) {
+        return [400, { error: error.code, message: error.message }];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Notify every subscription of `pubkey` that covers the message's namespace
+   * Each notification is encrypted with the subscription's enc_key and POSTed to the webhook
+   */
+  async notify(pubkey: string, message: PushTestMessage): Promise<PushWebhookNotification[]> {
+    await sodium.ready;
+    const account = pubkey.toLowerCase();
+    const data = typeof message.data === 'string' ? new TextEncoder().encode(message.data) : message.data;
+    const hash = message.hash ?? MockStorageServer.computeMessageHash(account, message.namespace, data);
+
+    const notifications: PushWebhookNotification[] = [];
+    for (const subscription of this.getSubscriptions(account)) {
+      if (!subscription.namespaces.includes(message.namespace)) {
+        continue;
+      }
+
+      const metadata: PushNotificationMetadata = { account, hash, namespace: message.namespace, dataLength: data.length };
+      if (message.timestamp !== undefined) metadata.timestamp = message.timestamp;
+      if (message.expiry !== undefined) metadata.expiry = message.expiry;
+      const tooLong = data.length > MAX_PUSH_DATA_LENGTH;
+      if (subscription.data && tooLong) metadata.dataTooLong = true;
+
+      const payload = await encryptPushNotification(
+        subscription.data && !tooLong ? { metadata, data } : { metadata },
+        subscription.enc_key
+      );
+      notifications.push({
+        service: subscription.service,
+        service_info: subscription.service_info,
+        enc_payload: base64.encode(payload),
+        spns: 1
+      });
+    }
+
+    if (this.webhookUrl) {
+      for (const notification of notifications) {
+        await axios.post(this.webhookUrl, notification, { timeout: 10000 });
+      }
+    }
+    return notifications;
+  }
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method !== 'POST' || !['/subscribe', '/unsubscribe', '/notify'].includes(req.url ?? '')) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('not found');
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      let body: any;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      } catch {
+        this.reply(res, 400, { error: ERROR_BAD_INPUT, message: 'invalid JSON body' });
+        return;
+      }
+
+      if (req.url === '/notify') {
+        this.handleNotify(body).then(
+          result => this.reply(res, ...result),
+          error => this.reply(res, 502, { error: ERROR_BAD_INPUT, message: error instanceof Error ? error.message : String(error) })
+        );
+        return;
+      }
+      this.reply(res, ...this.handleRequest(req.url!, body));
+    });
+  }
+
+  // Test hook: {pubkey, namespace, data (base64), hash?} fires notifications like a stored message would
+  private async handleNotify(body: any): Promise<[number, object]> {
+    if (typeof body?.pubkey !== 'string' || typeof body.namespace !== 'number' || typeof body.data !== 'string') {
+      return [400, { error: ERROR_BAD_INPUT, message: 'notify requires pubkey, namespace and base64 data' }];
+    }
+    const notifications = await this.notify(body.pubkey, {
+      namespace: body.namespace,
+      data: base64.decode(body.data),
+      hash: body.hash,
+      timestamp: body.timestamp,
+      expiry: body.expiry
+    });
+    return [200, { notified: notifications.length }];
+  }
+
+  private reply(res: http.ServerResponse, status: number, body: object): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private handleSubscribe(params: any): PushServerResult {
+    const pubkey = this.requirePubkey(params);
+    if (!Array.isArray(params.namespaces) || params.namespaces.length === 0
+      || !params.namespaces.every((n: unknown) => Number.isInteger(n) && (n as number) >= -32768 && (n as number) <= 32767)) {
+      throw new PushRejection(ERROR_BAD_INPUT, 'namespaces must be a non-empty list of 16-bit integers');
+    }
+    if (typeof params.data !== 'boolean') {
+      throw new PushRejection(ERROR_BAD_INPUT, 'data must be a boolean');
+    }
+    if (typeof params.enc_key !== 'string' || !/^[0-9a-fA-F]+$/.test(params.enc_key) || params.enc_key.length !== PUSH_ENC_KEY_LENGTH * 2) {
+      throw new PushRejection(ERROR_BAD_INPUT, `enc_key must be ${PUSH_ENC_KEY_LENGTH} bytes of hex`);
+    }
+    this.authenticate(params, `MONITOR${pubkey}${params.sig_ts}${params.data ? 1 : 0}${params.namespaces.join(',')}`);
+
+    const key = this.subscriptionKey(pubkey, params);
+    const updated = this.subscriptions.has(key);
+    this.subscriptions.set(key, {
+      pubkey,
+      namespaces: [...params.namespaces],
+      data: params.data,
+      service: params.service,
+      service_info: params.service_info,
+      enc_key: params.enc_key.toLowerCase()
+    });
+    return updated ? { success: true, updated: true } : { success: true, added: true };
+  }
+
+  private handleUnsubscribe(params: any): PushServerResult {
+    const pubkey = this.requirePubkey(params);
+    this.authenticate(params, `UNSUBSCRIBE${pubkey}${params.sig_ts}`);
+    return { success: true, removed: this.subscriptions.delete(this.subscriptionKey(pubkey, params)) };
+  }
+
+  // One subscription per account, service and device token
+  private subscriptionKey(pubkey: string, params: any): string {
+    if (typeof params.service !== 'string' || !params.service) {
+      throw new PushRejection(ERROR_BAD_INPUT, 'service is required');
+    }
+    if (!params.service_info || typeof params.service_info !== 'object') {
+      throw new PushRejection(ERROR_BAD_INPUT, 'service_info is required');
+    }
+    return `${pubkey}/${params.service}/${JSON.stringify(params.service_info.token ?? params.service_info)}`;
+  }
+
+  /**
+   * Check sig_ts and the signature, resolving the signing key from pubkey (00/03 prefix),
+   * session_ed25519 (05 prefix) or the subaccount token
+   */
+  private authenticate(params: any, message: string): void {
+    if (typeof params.sig_ts !== 'number' || !Number.isInteger(params.sig_ts)) {
+      throw new PushRejection(ERROR_BAD_INPUT, 'sig_ts must be a unix timestamp in seconds');
+    }
+    if (Math.abs(this.now() - params.sig_ts * 1000) > this.timestampWindowMs) {
+      throw new PushRejection(ERROR_BAD_INPUT, 'sig_ts is outside the allowed window');
+    }
+    if (typeof params.signature !== 'string') {
+      throw new PushRejection(ERROR_BAD_INPUT, 'missing signature');
+    }
+
+    const pubkey: string = params.pubkey.toLowerCase();
+    const ownerKey = this.resolveOwnerKey(params);
+    let signingKey = ownerKey;
+
+    if (params.subaccount !== undefined) {
+      const token = this.decodeHex(params.subaccount, 'subaccount');
+      if (token.length !== 36 || typeof params.subaccount_sig !== 'string') {
+        throw new PushRejection(ERROR_BAD_INPUT, 'subaccount requires a 36-byte token and subaccount_sig');
+      }
+      if (!this.verifySignature(ownerKey, token, params.subaccount_sig)) {
+        throw new PushRejection(ERROR_BAD_INPUT, 'invalid subaccount signature');
+      }
+      if (!(token[1] & PERMISSION_READ)) {
+        throw new PushRejection(ERROR_BAD_INPUT, 'subaccount lacks read permission');
+      }
+      if (!(token[1] & PERMISSION_ANY_PREFIX) && token[0] !== parseInt(pubkey.slice(0, 2), 16)) {
+        throw new PushRejection(ERROR_BAD_INPUT, 'subaccount network prefix does not match pubkey');
+      }
+      signingKey = token.slice(4);
+    }
+
+    if (!this.verifySignature(signingKey, new TextEncoder().encode(message), params.signature)) {
+      throw new PushRejection(ERROR_BAD_INPUT, 'invalid signature');
+    }
+  }
+
+  private resolveOwnerKey(params: any): Uint8Array {
+    const pubkey: string = params.pubkey.toLowerCase();
+
+    if (pubkey.startsWith('05')) {
+      if (typeof params.session_ed25519 !== 'string') {
+        throw new PushRejection(ERROR_BAD_INPUT, 'session_ed25519 is required for 05-prefixed pubkeys');
+      }
+      const ed25519Key = this.decodeHex(params.session_ed25519, 'session_ed25519');
+      if (ed25519Key.length !== 32) {
+        throw new PushRejection(ERROR_BAD_INPUT, 'invalid session_ed25519 length');
+      }
+      if (hex.encode(convertPublicKeyToX25519(ed25519Key), true) !== pubkey.slice(2)) {
+        throw new PushRejection(ERROR_BAD_INPUT, 'session_ed25519 does not match pubkey');
+      }
+      return ed25519Key;
+    }
+
+    return hex.decode(pubkey.slice(2));
+  }
+
+  private verifySignature(publicKey: Uint8Array, message: Uint8Array, signature: string): boolean {
+    try {
+      return ed25519.verify(publicKey, message, base64.decode(signature));
+    } catch {
+      return false;
+    }
+  }
+
+  private requirePubkey(params: any): string {
+    if (typeof params.pubkey !== 'string' || !/^[0-9a-fA-F]{66}$/.test(params.pubkey)) {
+      throw new PushRejection(ERROR_BAD_INPUT, 'invalid pubkey: expected 66 hex characters');
+    }
+    return params.pubkey.toLowerCase();
+  }
+
+  private decodeHex(value: unknown, field: string): Uint8Array {
+    try {
+      return hex.decode(value as string);
+    } catch {
+      throw new PushRejection(ERROR_BAD_INPUT, `invalid ${field}: not hex`);
+    }
+  }
+}
@@ -0,0 +1,793 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as ed25519 from '@stablelib/ed25519';
+import { convertPublicKeyToX25519 } from '@stablelib/ed25519';
+import * as hex from '@stablelib/hex';
+import * as base64 from '@stablelib/base64';
+import sodium from 'libsodium-wrappers-sumo';
+import { CryptoUtils } from './crypto';
+import { STORAGE_RPC_PATH } from './storage-client';
+import { MAX_BATCH_REQUESTS } from './batch-builder';
+import { ONION_REQ_PATH, decodeOnionPayload, encodeOnionPayload, encryptWithOnionKey, peelOnionLayer } from './onion-request';
+import { namespaceSignaturePart, requiresSignature, validateNamespace } from './namespace-policy';
+import { SnodeInfo } from './types';
+
+export interface MockStorageServerOptions {
+  /** Clock used for TTL expiry and timestamp checks (defaults to Date.now) */
+  now?: () => number;
+  /** Maximum difference between a signed timestamp and the server clock */
+  timestampWindowMs?: number;
+  /** Seed for the fake service node's Ed25519 identity */
+  seed?: Uint8Array;
+}
+
+export interface StoredMessage {
+  hash: string;
+  namespace: number;
+  timestamp: number;
+  expiration: number;
+  data: string;
+}
+
+// Module-private rejection carrying the HTTP status returned to the client
+class RpcRejection extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const MAX_TTL = 30 * 24 * 60 * 60 * 1000;
+
+// Subaccount permission bits: read=1, write=2, delete=4, any_prefix=8
+const PERMISSION_READ = 1;
+const PERMISSION_WRITE = 2;
+const PERMISSION_DELETE = 4;
+const PERMISSION_ANY_PREFIX = 8;
+
+type Handler = (params: any) => any;
+
+/**
+ * In-process fake Oxen storage server for offline integration testing
+ * Keeps messages in memory and verifies the same signature strings CryptoUtils produces
+ */
+export class MockStorageServer {
+  private server?: http.Server;
+  private messages = new Map<string, StoredMessage[]>();
+  private revokedSubaccounts = new Map<string, Set<string>>();
+  private now: () => number;
+  private timestampWindowMs: number;
+  private snode: CryptoUtils;
+  private onionRelays = new Map<string, CryptoUtils>();
+  private swarmRedirect?: SnodeInfo[];
+  private handlers: Record<string, Handler>;
+
+  constructor(options: MockStorageServerOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.timestampWindowMs = options.timestampWindowMs ?? 60000;
+    this.snode = new CryptoUtils(options.seed);
+    this.handlers = {
+      store: params => this.handleStore(params),
+      retrieve: params => this.handleRetrieve(params),
+      delete: params => this.handleDelete(params),
+      delete_all: params => this.handleDeleteAll(params),
+      delete_before: params => this.handleDeleteBefore(params),
+      expire: params => this.handleExpire(params),
+      expire_all: params => this.handleExpireAll(params),
+      get_expiries: params => this.handleGetExpiries(params),
+      update: params => this.handleUpdate(params),
+      get_swarm: () => this.handleGetSwarm(),
+      revoke_subaccount: params => this.handleRevokeSubaccount(params),
+      unrevoke_subaccount: params => this.handleUnrevokeSubaccount(params),
+      revoked_subaccounts: params => this.handleRevokedSubaccounts(params),
+      batch: params => this.handleBatch(params, false),
+      sequence: params => this.handleBatch(params, true)
+    };
+  }
+
+  /**
+   * Start listening on localhost and return the base URL
+   */
+  async start(port: number = 0): Promise<string> {
+    await sodium.ready;
+    this.server = http.createServer((req, res) => this.handleHttp(req, res));
+    await new Promise<void>(resolve => this.server!.listen(port, '127.0.0.1', () => resolve()));
+    return this.getBaseUrl();
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    const server = this.server;
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve())));
+  }
+
+  /**
+   * Get the base URL of the running server
+   */
+  getBaseUrl(): string {
+    if (!this.server) {
+      throw new Error('Mock storage server is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Get the fake service node's entry as returned by get_swarm
+   */
+  getSnodeInfo(): SnodeInfo {
+    const port = this.server ? (this.server.address() as AddressInfo).port : 0;
+    return {
+      ip: '127.0.0.1',
+      port: String(port),
+      port_https: port,
+      pubkey_ed25519: this.snode.getPublicKeyHex(),
+      pubkey_legacy: this.snode.getPublicKeyHex(),
+      pubkey_x25519: this.snode.getX25519PublicKeyHex()
+    };
+  }
+
+  /**
+   * Create an onion path through this server: its own node as the entry, followed by
+   * (length - 1) in-process relays; the last hop is the destination that executes the RPC
+   */
+  getOnionPath(length: number = 3): SnodeInfo[] {
+    if (length < 1) {
+      throw new Error('An onion path needs at least one service node');
+    }
+    const entry = this.getSnodeInfo();
+    const path = [entry];
+    for (let i = 1; i < length; i++) {
+      const relay = new CryptoUtils();
+      this.onionRelays.set(relay.getPublicKeyHex().toLowerCase(), relay);
+      path.push({
+        ...entry,
+        pubkey_ed25519: relay.getPublicKeyHex(),
+        pubkey_legacy: relay.getPublicKeyHex(),
+        pubkey_x25519: relay.getX25519PublicKeyHex()
+      });
+    }
+    return path;
+  }
+
+  /**
+   * Make this node answer as if it were outside the account's swarm: get_swarm returns `snodes`
+   * and every other request is rejected with 421 and that swarm; pass undefined to reset
+   */
+  setSwarmRedirect(snodes?: SnodeInfo[]): void {
+    this.swarmRedirect = snodes;
+  }
+
+  /**
+   * Get the unexpired messages stored for a pubkey, optionally limited to one namespace
+   */
+  getStoredMessages(pubkey: string, namespace?: number): StoredMessage[] {
+    this.purgeExpired(pubkey);
+    const messages = this.messages.get(pubkey.toLowerCase()) ?? [];
+    return namespace === undefined ? [...messages] : messages.filter(m => m.namespace === namespace);
+  }
+
+  /**
+   * Remove all stored messages and revocations
+   */
+  clear(): void {
+    this.messages.clear();
+    this.revokedSubaccounts.clear();
+  }
+
+  /**
+   * Compute a message hash the way service nodes do:
+   * unpadded base64 of BLAKE2b-256(pubkey(33 bytes) || namespace (if non-zero) || data)
+   */
+  static computeMessageHash(pubkey: string, namespace: number, data: Uint8Array): string {
+    const pubkeyBytes = hex.decode(pubkey);
+    const namespaceBytes = namespace === 0 ? new Uint8Array(0) : new TextEncoder().encode(namespace.toString());
+    const input = new Uint8Array(pubkeyBytes.length + namespaceBytes.length + data.length);
+    input.set(pubkeyBytes, 0);
+    input.set(namespaceBytes, pubkeyBytes.length);
+    input.set(data, pubkeyBytes.length + namespaceBytes.length);
+    const digest = sodium.crypto_generichash(32, input);
+    return base64.encode(digest).replace(/=+$/, '');
+  }
+
+  /**
+   * Dispatch a parsed RPC body and return [status, response body]
+   */
+  handleRequest(body: any): [number, any] {
+    try {
+      if (!body || typeof body.method !== 'string') {
+        throw new RpcRejection(400, 'invalid request: missing method');
+      }
+      const handler = this.handlers[body.method];
+      if (!handler) {
+        throw new RpcRejection(400, `invalid method: ${body.method}`);
+      }
+      if (this.swarmRedirect && body.method !== 'get_swarm') {
+        return [421, { snodes: this.swarmRedirect }];
+      }
+      return [200, handler(body.params ?? {})];
+    } catch (error) {
+      if (error instanceof RpcRejection) {
+        return [error.code, error.message];
+      }
+      return [500, error instanceof Error ? error.message : String(error)];
+    }
+  }
+
+  /**
+   * Peel an onion payload hop by hop as each node on the path would, execute the inner RPC
+   * and return the destination's encrypted response (base64) as [status, body]
+   * Relay failures are returned in plain text, like the entry node reports them
+   */
+  async handleOnionRequest(payload: Uint8Array): Promise<[number, string]> {
+    let node = this.snode;
+    let current = payload;
+
+    for (;;) {
+      let layer;
+      try {
+        layer = await peelOnionLayer(current, node);
+      } catch (error) {
+        return [400, error instanceof Error ? error.message : String(error)];
+      }
+
+      // Relay layers carry the next hop's ciphertext; the destination layer is the JSON request
+      let next;
+      try {
+        next = decodeOnionPayload(layer.plaintext);
+      } catch {
+        next = undefined;
+      }
+
+      if (next?.info.destination) {
+        const relay = this.onionRelays.get(next.info.destination.toLowerCase());
+        if (!relay) {
+          return [502, `next node not found: ${next.info.destination}`];
+        }
+        node = relay;
+        current = encodeOnionPayload(next.ciphertext, { ephemeral_key: next.info.ephemeral_key, enc_type: next.info.enc_type });
+        continue;
+      }
+
+      let status: number;
+      let body: any;
+      try {
+        const request = JSON.parse(new TextDecoder().decode(layer.plaintext));
+        [status, body] = this.handleRequest(JSON.parse(request.body));
+      } catch {
+        [status, body] = [400, 'invalid onion request body'];
+      }
+
+      const response = JSON.stringify({ status, body: typeof body === 'string' ? body : JSON.stringify(body) });
+      const encrypted = await encryptWithOnionKey(new TextEncoder().encode(response), layer.key, layer.encType);
+      return [200, base64.encode(encrypted)];
+    }
+  }
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method === 'POST' && req.url === ONION_REQ_PATH) {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        this.handleOnionRequest(new Uint8Array(Buffer.concat(chunks)))
+          .catch((error): [number, string] => [500, error instanceof Error ? error.message : String(error)])
+          .then(([status, body]) => {
+            res.writeHead(status, { 'Content-Type': 'text/plain' });
+            res.end(body);
+          });
+      });
+      return;
+    }
+
+    if (req.method !== 'POST' || req.url !== STORAGE_RPC_PATH) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('not found');
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      let body: any;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'text/plain' });
+        res.end('invalid JSON body');
+        return;
+      }
+
+      const [status, result] = this.handleRequest(body);
+      if (typeof result === 'string') {
+        res.writeHead(status, { 'Content-Type': 'text/plain' });
+        res.end(result);
+      } else {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(result));
+      }
+    });
+  }
+
+  private handleStore(params: any): any {
+    const pubkey = this.requirePubkey(params);
+    const namespace = this.parseNamespace(params.namespace);
+    const timestamp = this.requireNumber(params, 'timestamp');
+    const ttl = this.requireNumber(params, 'ttl');
+    if (typeof params.data !== 'string') {
+      throw new RpcRejection(400, 'invalid request: missing data');
+    }
+
+    // Namespaces divisible by 10 (including -10) accept unauthenticated deposits
+    if (requiresSignature(namespace, 'store')) {
+      const sigTimestamp = params.sig_timestamp ?? timestamp;
+      this.checkTimestamp(sigTimestamp);
+      this.authenticate(params, `store${namespace}${sigTimestamp}`, PERMISSION_WRITE);
+    }
+
+    if (ttl <= 0 || ttl > MAX_TTL) {
+      throw new RpcRejection(400, `invalid ttl: ${ttl}`);
+    }
+
+    const data = base64.decode(params.data);
+    const hash = MockStorageServer.computeMessageHash(pubkey, namespace, data);
+    const messages = this.getAccount(pubkey);
+    const already = messages.some(m => m.hash === hash);
+    if (!already) {
+      messages.push({ hash, namespace, timestamp, expiration: timestamp + ttl, data: params.data });
+    }
+
+    const t = this.now();
+    return {
+      hash,
+      swarm: this.swarmResult({ hash, t, already }, hash),
+      t
+    };
+  }
+
+  private handleRetrieve(params: any): any {
+    const pubkey = this.requirePubkey(params);
+    const namespace = this.parseNamespace(params.namespace);
+
+    // Legacy closed groups (-10) can be retrieved without a signature
+    if (requiresSignature(namespace, 'retrieve')) {
+      const timestamp = this.requireNumber(params, 'timestamp');
+      this.checkTimestamp(timestamp);
+      this.authenticate(params, `retrieve${namespaceSignaturePart(namespace)}${timestamp}`, PERMISSION_READ);
+    }
+
+    let messages = this.getStoredMessages(pubkey, namespace);
+    if (params.last_hash) {
+      const index = messages.findIndex(m => m.hash === params.last_hash);
+      if (index >= 0) {
+        messages = messages.slice(index + 1);
+      }
+    }
+
+    const maxCount = typeof params.max_count === 'number' && params.max_count > 0 ? params.max_count : messages.length;
+    const page = messages.slice(0, maxCount);
+
+    return {
+      messages: page.map(({ hash, timestamp, expiration, data }) => ({ hash, timestamp, expiration, data })),
+      more: messages.length > page.length,
+      hf: [19, 3],
+      t: this.now()
+    };
+  }
+
+  private handleDelete(params: any): any {
+    const pubkey = this.requirePubkey(params);
+    const messages = this.requireHashes(params);
+    this.authenticate(params, `delete${messages.join('')}`, PERMISSION_DELETE);
+
+    const deleted = this.removeMessages(pubkey, m => messages.includes(m.hash)).map(m => m.hash);
+    if (params.required && deleted.length === 0) {
+      throw new RpcRejection(404, 'no matching messages found');
+    }
+
+    return {
+      swarm: this.swarmResult({ deleted }, `${pubkey}${messages.join('')}${deleted.join('')}`)
+    };
+  }
+
+  private handleDeleteAll(params: any): any {
+    const pubkey = this.requirePubkey(params);
+    const timestamp = this.requireNumber(params, 'timestamp');
+    const namespace = params.namespace === 'all' ? 'all' : this.parseNamespace(params.namespace);
+    this.checkTimestamp(timestamp);
+
+    this.authenticate(params, `delete_all${namespaceSignaturePart(namespace)}${timestamp}`, PERMISSION_DELETE);
+
+    const removed = this.removeMessages(pubkey, m => namespace === 'all' || m.namespace === namespace);
+    const deleted = namespace === 'all' ? this.groupByNamespace(removed) : removed.map(m => m.hash);
+
+    return {
+      swarm: this.swarmResult({ deleted }, `${pubkey}${timestamp}${removed.map(m => m.hash).join('')}`)
+    };
+  }
+
+  private handleDeleteBefore(params: any): any {
+    const pubkey = this.requirePubkey(params);
+    const before = this.requireNumber(params, 'before');
+    const namespace = params.namespace === undefined || params.namespace === 'all'
+      ? 'all'
+      : this.parseNamespace(params.namespace);
+
+    this.authenticate(params, `delete_before${namespace}${before}`, PERMISSION_DELETE);
+
+    const removed = this.removeMessages(
+      pubkey,
+      m => (namespace === 'all' || m.namespace === namespace) && m.timestamp <= before
+    );
+    const deleted = namespace === 'all' ? this.groupByNamespace(removed) : removed.map(m => m.hash);
+
+    return {
+      swarm: this.swarmResult({ deleted }, `${pubkey}${before}${removed.map(m => m.hash).join('')}`)
+    };
+  }
+
+  private handleExpire(params: any): any {
+    const pubkey = this.requirePubkey(params);
+    const messages = this.requireHashes(params);
+    const expiry = this.requireNumber(params, 'expiry');
+    if (params.shorten && params.extend) {
+      throw new RpcRejection(400, 'shorten and extend are mutually exclusive');
+    }
+
+    let shortenOrExtend = '';
+    let permission = PERMISSION_WRITE | PERMISSION_DELETE;
+    if (params.shorten) {
+      shortenOrExtend = 'shorten';
+      permission = PERMISSION_DELETE;
+    } else if (params.extend) {
+      shortenOrExtend = 'extend';
+      permission = PERMISSION_WRITE;
+    }
+    this.authenticate(params, `expire${shortenOrExtend}${expiry}${messages.join('')}`, permission);
+
+    const newExpiry = Math.min(expiry, this.now() + MAX_TTL);
+    const updated: string[] = [];
+    const unchanged: Record<string, number> = {};
+    for (const message of this.getStoredMessages(pubkey)) {
+      if (!messages.includes(message.hash)) {
+        continue;
+      }
+      const blocked = (params.shorten && newExpiry >= message.expiration)
+        || (params.extend && newExpiry <= message.expiration);
+      if (blocked) {
+        unchanged[message.hash] = message.expiration;
+      } else {
+        message.expiration = newExpiry;
+        updated.push(message.hash);
+      }
+    }
+
+    return {
+      swarm: this.swarmResult(
+        { updated, unchanged, expiry: newExpiry },
+        `${pubkey}${newExpiry}${messages.join('')}${updated.join('')}`
+      )
+    };
+  }
+
+  private handleExpireAll(params: any): any {
+    const pubkey = this.requirePubkey(params);
+    const expiry = this.requireNumber(params, 'expiry');
+    const namespace = params.namespace === undefined || params.namespace === 'all'
+      ? undefined
+      : this.parseNamespace(params.namespace);
+
+    // 'all' is signed as "all"; a missing namespace is left out of the signing string
+    const signedNamespace = params.namespace === 'all' ? 'all' : namespaceSignaturePart(namespace);
+    this.authenticate(params, `expire_all${signedNamespace}${expiry}`, PERMISSION_DELETE);
+
+    // expire_all can only shorten expiries
+    const updated: string[] = [];
+    for (const message of this.getStoredMessages(pubkey)) {
+      if ((namespace === undefined || message.namespace === namespace) && expiry < message.expiration) {
+        message.expiration = expiry;
+        updated.push(message.hash);
+      }
+    }
+
+    return {
+      swarm: this.swarmResult({ updated }, `${pubkey}${expiry}${updated.join('')}`)
+    };
+  }
+
+  private handleGetExpiries(params: any): any {
+    const pubkey = this.requirePubkey(params);
+    const messages = this.requireHashes(params);
+    const timestamp = this.requireNumber(params, 'timestamp');
+    this.checkTimestamp(timestamp);
+    this.authenticate(params, `get_expiries${timestamp}${messages.join('')}`, PERMISSION_READ);
+
+    const expiries: Record<string, number> = {};
+    for (const message of this.getStoredMessages(pubkey)) {
+      if (messages.includes(message.hash)) {
+        expiries[message.hash] = message.expiration;
+      }
+    }
+
+    return { expiries, hf: [19, 3], t: this.now() };
+  }
+
+  private handleUpdate(params: any): any {
+    const pubkey = this.requirePubkey(params);
+    const messages = this.requireHashes(params);
+    const timestamp = this.requireNumber(params, 'timestamp');
+    if (typeof params.data !== 'string') {
+      throw new RpcRejection(400, 'invalid request: missing data');
+    }
+    this.checkTimestamp(timestamp);
+    this.authenticate(params, `update${timestamp}${messages.join('')}${params.data}`, PERMISSION_WRITE);
+
+    const updated: string[] = [];
+    for (const message of this.getStoredMessages(pubkey)) {
+      if (messages.includes(message.hash)) {
+        message.data = params.data;
+        updated.push(message.hash);
+      }
+    }
+
+    return {
+      swarm: this.swarmResult({ updated }, `${pubkey}${timestamp}${updated.join('')}`)
+    };
+  }
+
+  private handleRevokeSubaccount(params: any): any {
+    const pubkey = this.requirePubkey(params);
+    if (typeof params.revoke !== 'string') {
+      throw new RpcRejection(400, 'invalid request: missing revoke');
+    }
+    this.requireOwner(params);
+    this.authenticate(params, `revoke_subaccount${params.revoke}`, 0);
+
+    this.getRevocations(pubkey).add(params.revoke.toLowerCase());
+    return {
+      swarm: this.swarmResult({}, `${pubkey}${params.revoke}`)
+    };
+  }
+
+  private handleUnrevokeSubaccount(params: any): any {
+    const pubkey = this.requirePubkey(params);
+    const timestamp = this.requireNumber(params, 'timestamp');
+    if (!Array.isArray(params.unrevoke) || !params.unrevoke.every((t: unknown) => typeof t === 'string')) {
+      throw new RpcRejection(400, 'invalid request: unrevoke must be an array of tokens');
+    }
+    this.checkTimestamp(timestamp);
+    this.requireOwner(params);
+    this.authenticate(params, `unrevoke_subaccount${timestamp}${params.unrevoke.join('')}`, 0);
+
+    const revocations = this.getRevocations(pubkey);
+    params.unrevoke.forEach((token: string) => revocations.delete(token.toLowerCase()));
+    return {
+      swarm: this.swarmResult({}, `${pubkey}${timestamp}${params.unrevoke.join('')}`)
+    };
+  }
+
+  private handleRevokedSubaccounts(params: any): any {
+    const pubkey = this.requirePubkey(params);
+    const timestamp = this.requireNumber(params, 'timestamp');
+    this.checkTimestamp(timestamp);
+    this.requireOwner(params);
+    this.authenticate(params, `revoked_subaccounts${timestamp}`, 0);
+
+    return { revoked: [...this.getRevocations(pubkey)], t: this.now() };
+  }
+
+  private handleBatch(params: any, stopOnFailure: boolean): any {
+    if (!Array.isArray(params.requests) || params.requests.length === 0) {
+      throw new RpcRejection(400, 'invalid request: requests must be a non-empty array');
+    }
+    if (params.requests.length > MAX_BATCH_REQUESTS) {
+      throw new RpcRejection(400, `too many requests: at most ${MAX_BATCH_REQUESTS} allowed`);
+    }
+
+    const results: Array<{ code: number; body: any }> = [];
+    for (const request of params.requests) {
+      if (request?.method === 'batch' || request?.method === 'sequence') {
+        results.push({ code: 400, body: 'nested batch/sequence requests are not allowed' });
+      } else {
+        const [code, body] = this.handleRequest(request);
+        results.push({ code, body });
+      }
+      const failed = results[results.length - 1].code >= 300;
+      if (stopOnFailure && failed) {
+        break;
+      }
+    }
+    return { results };
+  }
+
+  private handleGetSwarm(): any {
+    return {
+      hf: [19, 3],
+      snodes: this.swarmRedirect ?? [this.getSnodeInfo()],
+      swarm: 'ffffffffffffffff',
+      t: this.now()
+    };
+  }
+
+  /**
+   * Verify the request signature, resolving the signing key from
+   * pubkey (00/03 prefix), pubkey_ed25519 (05 prefix) or the subaccount token
+   */
+  private authenticate(params: any, message: string, permission: number): void {
+    if (typeof params.signature !== 'string') {
+      throw new RpcRejection(401, 'missing signature');
+    }
+
+    const pubkey: string = params.pubkey.toLowerCase();
+    const ownerKey = this.resolveOwnerKey(params);
+    let signingKey = ownerKey;
+
+    if (params.subaccount !== undefined) {
+      if (typeof params.subaccount !== 'string' || typeof params.subaccount_sig !== 'string') {
+        throw new RpcRejection(400, 'subaccount requires subaccount and subaccount_sig');
+      }
+      const token = this.decodeHex(params.subaccount, 'subaccount');
+      if (token.length !== 36) {
+        throw new RpcRejection(400, 'invalid subaccount token length');
+      }
+      if (this.getRevocations(pubkey).has(params.subaccount.toLowerCase())) {
+        throw new RpcRejection(401, 'subaccount has been revoked');
+      }
+      if (!this.verifySignature(ownerKey, token, params.subaccount_sig)) {
+        throw new RpcRejection(401, 'invalid subaccount signature');
+      }
+      const permissions = token[1];
+      if ((permissions & permission) !== permission) {
+        throw new RpcRejection(401, 'subaccount lacks the required permission');
+      }
+      const networkPrefix = parseInt(pubkey.slice(0, 2), 16);
+      if (!(permissions & PERMISSION_ANY_PREFIX) && token[0] !== networkPrefix) {
+        throw new RpcRejection(401, 'subaccount network prefix does not match pubkey');
+      }
+      signingKey = token.slice(4);
+    }
+
+    if (!this.verifySignature(signingKey, new TextEncoder().encode(message), params.signature)) {
+      throw new RpcRejection(401, 'invalid signature');
+    }
+  }
+
+  private requireOwner(params: any): void {
+    if (params.subaccount !== undefined) {
+      throw new RpcRejection(401, 'subaccounts cannot manage subaccount revocations');
+    }
+  }
+
+  private getRevocations(pubkey: string): Set<string> {
+    let revocations = this.revokedSubaccounts.get(pubkey);
+    if (!revocations) {
+      revocations = new Set();
+      this.revokedSubaccounts.set(pubkey, revocations);
+    }
+    return revocations;
+  }
+
+  private resolveOwnerKey(params: any): Uint8Array {
+    const pubkey: string = params.pubkey.toLowerCase();
+
+    if (pubkey.startsWith('05')) {
+      if (typeof params.pubkey_ed25519 !== 'string') {
+        throw new RpcRejection(400, 'pubkey_ed25519 is required for 05-prefixed pubkeys');
+      }
+      const ed25519Key = this.decodeHex(params.pubkey_ed25519, 'pubkey_ed25519');
+      if (ed25519Key.length !== 32) {
+        throw new RpcRejection(400, 'invalid pubkey_ed25519 length');
+      }
+      const x25519Key = hex.encode(convertPublicKeyToX25519(ed25519Key), true);
+      if (x25519Key !== pubkey.slice(2)) {
+        throw new RpcRejection(401, 'pubkey_ed25519 does not match pubkey');
+      }
+      return ed25519Key;
+    }
+
+    return hex.decode(pubkey.slice(2));
+  }
+
+  private verifySignature(publicKey: Uint8Array, message: Uint8Array, signature: string): boolean {
+    try {
+      return ed25519.verify(publicKey, message, base64.decode(signature));
+    } catch {
+      return false;
+    }
+  }
+
+  private checkTimestamp(timestamp: number): void {
+    if (Math.abs(this.now() - timestamp) > this.timestampWindowMs) {
+      throw new RpcRejection(406, 'timestamp is outside the allowed window');
+    }
+  }
+
+  private requirePubkey(params: any): string {
+    if (typeof params.pubkey !== 'string' || !/^[0-9a-fA-F]{66}$/.test(params.pubkey)) {
+      throw new RpcRejection(400, 'invalid pubkey: expected 66 hex characters');
+    }
+    return params.pubkey.toLowerCase();
+  }
+
+  private requireNumber(params: any, field: string): number {
+    if (typeof params[field] !== 'number' || !Number.isFinite(params[field])) {
+      throw new RpcRejection(400, `invalid request: missing ${field}`);
+    }
+    return params[field];
+  }
+
+  private requireHashes(params: any): string[] {
+    if (!Array.isArray(params.messages) || params.messages.length === 0
+      || !params.messages.every((m: unknown) => typeof m === 'string')) {
+      throw new RpcRejection(400, 'invalid request: messages must be a non-empty array of hashes');
+    }
+    return params.messages;
+  }
+
+  private parseNamespace(namespace: unknown): number {
+    if (namespace === undefined) {
+      return 0;
+    }
+    try {
+      return validateNamespace(namespace);
+    } catch {
+      throw new RpcRejection(400, `invalid namespace: ${namespace}`);
+    }
+  }
+
+  private decodeHex(value: string, field: string): Uint8Array {
+    try {
+      return hex.decode(value);
+    } catch {
+      throw new RpcRejection(400, `invalid ${field}: not hex`);
+    }
+  }
+
+  private getAccount(pubkey: string): StoredMessage[] {
+    let messages = this.messages.get(pubkey);
+    if (!messages) {
+      messages = [];
+      this.messages.set(pubkey, messages);
+    }
+    return messages;
+  }
+
+  private purgeExpired(pubkey: string): void {
+    const now = this.now();
+    this.removeMessages(pubkey.toLowerCase(), m => m.expiration <= now);
+  }
+
+  private removeMessages(pubkey: string, predicate: (message: StoredMessage) => boolean): StoredMessage[] {
+    const messages = this.messages.get(pubkey);
+    if (!messages) {
+      return [];
+    }
+    const removed = messages.filter(predicate);
+    this.messages.set(pubkey, messages.filter(m => !predicate(m)));
+    return removed;
+  }
+
+  private groupByNamespace(messages: StoredMessage[]): Record<string, string[]> {
+    const grouped: Record<string, string[]> = {};
+    for (const message of messages) {
+      (grouped[message.namespace] ??= []).push(message.hash);
+    }
+    return grouped;
+  }
+
+  private swarmResult(result: Record<string, any>, signedPayload: string): Record<string, any> {
+    return {
+      [this.snode.getPublicKeyHex()]: {
+        ...result,
+        signature: this.snode.signMessage(signedPayload)
+      }
+    };
+  }
+}
@@ -0,0 +1,109 @@
+// Namespaces are signed 16-bit integers
+export const MIN_NAMESPACE = -32768;
+export const MAX_NAMESPACE = 32767;
+
+/**
+ * Namespaces used by Session clients
+ */
+export const SessionNamespace = {
+  /** One-to-one messages; anyone can deposit */
+  Default: 0,
+  /** Config messages of the account owner's own devices */
+  UserProfile: 2,
+  Contacts: 3,
+  ConvoInfoVolatile: 4,
+  UserGroups: 5,
+  /** Legacy closed groups: deposits and retrieval both unauthenticated */
+  LegacyClosedGroup: -10,
+  /** Closed group (03-prefixed account) messages and configs */
+  GroupMessages: 11,
+  GroupKeys: 12,
+  GroupInfo: 13,
+  GroupMembers: 14,
+  /** Closed group messages kept readable by removed members */
+  GroupRevokedRetrievableMessages: -11
+} as const;
+
+export type NamespaceOperation = 'store' | 'retrieve' | 'delete';
+
+/**
+ * Authentication rules of one namespace
+ */
+export interface NamespaceRules {
+  namespace: number;
+  /** SessionNamespace name, when the namespace is a known one */
+  name?: string;
+  /** Divisible by 10: anyone may store without a signature */
+  public: boolean;
+  /** Whether store, retrieve and delete requests must be signed */
+  signed: Record<NamespaceOperation, boolean>;
+}
+
+/**
+ * Check that a namespace is an integer in the signed 16-bit range and return it
+ */
+export function validateNamespace(namespace: unknown): number {
+  if (typeof namespace !== 'number' || !Number.isInteger(namespace) || namespace < MIN_NAMESPACE || namespace > MAX_NAMESPACE) {
+    throw new Error(`Invalid namespace: expected an integer from ${MIN_NAMESPACE} to ${MAX_NAMESPACE}, got ${String(namespace)}`);
+  }
+  return namespace;
+}
+
+/**
+ * Namespaces divisible by 10 (0, 10, -10, -20, ...) accept unauthenticated deposits
+ */
+export function isPublicNamespace(namespace: number): boolean {
+  return validateNamespace(namespace) % 10 === 0;
+}
+
+/**
+ * Whether a request on a namespace must carry the account's (or a subaccount's) signature:
+ * store is unsigned in public namespaces, retrieve only in the legacy closed group namespace (-10),
+ * and deleting always needs a signature
+ */
+export function requiresSignature(namespace: number, operation: NamespaceOperation): boolean {
+  switch (operation) {
+    case 'store':
+      return !isPublicNamespace(namespace);
+    case 'retrieve':
+      return validateNamespace(namespace) !== SessionNamespace.LegacyClosedGroup;
+    case 'delete':
+      validateNamespace(namespace);
+      return true;
+  }
+}
+
+/**
+ * Namespace as it appears in retrieve, delete_all and expire_all signatures: omitted when it is 0
+ * or not given, kept as is for 'all' (store and delete_before signatures always include it)
+ */
+export function namespaceSignaturePart(namespace: number | string | undefined): string {
+  if (typeof namespace !== 'number') {
+    return namespace ?? '';
+  }
+  return validateNamespace(namespace) === SessionNamespace.Default ? '' : String(namespace);
+}
+
+/**
+ * Get the SessionNamespace name of a namespace, if it is a known one
+ */
+export function getNamespaceName(namespace: number): string | undefined {
+  return Object.keys(SessionNamespace).find(name => SessionNamespace[name as keyof typeof SessionNamespace] === namespace);
+}
+
+/**
+ * Describe the authentication rules of a namespace
+ */
+export function describeNamespace(namespace: number): NamespaceRules {
+  const name = getNamespaceName(namespace);
+  return {
+    namespace,
+    ...(name !== undefined && { name }),
+    public: isPublicNamespace(namespace),
+    signed: {
+      store: requiresSignature(namespace, 'store'),
+      retrieve: requiresSignature(namespace, 'retrieve'),
+      delete: requiresSignature(namespace, 'delete')
+    }
+  };
+}
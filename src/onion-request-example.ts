@@ -0,0 +1,47 @@
+import { PostmanParamsGenerator } from './postman-params';
+import { MockStorageServer } from './mock-storage-server';
+import { StorageClient } from './storage-client';
+import { OnionRequestBuilder, decodeOnionPayload } from './onion-request';
+import { RetrieveResult, StoreResult } from './types';
+
+function convertToJSON(data: any) {
+    return JSON.stringify(data, null, 2);
+}
+
+async function main() {
+    console.log('=== Onion Request Testing ===\n');
+
+    const seedHex = "610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16";
+    const generator = new PostmanParamsGenerator(Buffer.from(seedHex, "hex"));
+
+    // The mock server acts as the entry node and hosts the relays of the path in-process
+    const server = new MockStorageServer();
+    const baseUrl = await server.start();
+    const path = server.getOnionPath(3);
+
+    console.log('🧅 Onion path:');
+    path.forEach((hop, i) => console.log(`  ${i === 0 ? 'entry' : i === path.length - 1 ? 'destination' : 'relay'}: ${hop.pubkey_ed25519}`));
+
+    // 1. Inspect the outer layer: the entry node only learns the ephemeral key
+    const storeRequest = generator.getStoreParams("Hello through the onion! " + Date.now(), 86400000, 0);
+    const onion = await new OnionRequestBuilder(path).build(storeRequest);
+    const outer = decodeOnionPayload(onion.payload);
+    console.log('\n📦 Onion payload:', onion.payload.length, 'bytes');
+    console.log('Outer layer trailer:', convertToJSON(outer.info));
+
+    // 2. Send store + retrieve through the path (aes-gcm and xchacha20 layers)
+    const client = new StorageClient(baseUrl, generator);
+    const stored = await client.sendOnion<StoreResult>(storeRequest, path);
+    console.log('\n✅ Stored via onion:', stored.hash);
+
+    const retrieved = await client.sendOnion<RetrieveResult>(generator.getRetrieveParams(undefined, 0), path, 'xchacha20');
+    console.log('📥 Retrieved via onion:', convertToJSON(retrieved.messages));
+
+    await server.stop();
+    console.log('\n✅ Onion Request Testing Complete!');
+}
+
+main().catch(error => {
+    console.error('❌ Onion request example failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,293 @@
+import * as x25519 from '@stablelib/x25519';
+import * as hex from '@stablelib/hex';
+import * as base64 from '@stablelib/base64';
+import { createCipheriv, createDecipheriv, createHmac } from 'crypto';
+import sodium from 'libsodium-wrappers-sumo';
+import { CryptoUtils } from './crypto';
+import { ApiRequest } from './postman-params';
+
+export const ONION_REQ_PATH = '/onion_req/v2';
+
+export type OnionEncryptionType = 'aes-gcm' | 'xchacha20';
+
+/**
+ * A service node on an onion path (compatible with the SnodeInfo entries returned by get_swarm)
+ */
+export interface OnionHop {
+  pubkey_ed25519: string;
+  pubkey_x25519: string;
+}
+
+/**
+ * JSON trailer of an onion layer
+ * Relay layers name the next hop in `destination`; the outermost layer only carries the key
+ */
+export interface OnionLayerInfo {
+  ephemeral_key: string;
+  enc_type?: OnionEncryptionType;
+  destination?: string;
+}
+
+/**
+ * A built onion request together with the key needed to read its response
+ */
+export interface OnionRequest {
+  payload: Uint8Array;
+  destinationKey: Uint8Array;
+  encType: OnionEncryptionType;
+}
+
+/**
+ * Decrypted response of the destination node
+ */
+export interface OnionResponse {
+  status: number;
+  body: any;
+}
+
+const AES_GCM_IV_LENGTH = 12;
+const AES_GCM_TAG_LENGTH = 16;
+const XCHACHA20_NONCE_LENGTH = 24;
+
+/**
+ * Encode an onion payload: ciphertext length (4 bytes, little-endian) || ciphertext || JSON trailer
+ */
+export function encodeOnionPayload(ciphertext: Uint8Array, info: OnionLayerInfo): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(info));
+  const payload = new Uint8Array(4 + ciphertext.length + json.length);
+  new DataView(payload.buffer).setUint32(0, ciphertext.length, true);
+  payload.set(ciphertext, 4);
+  payload.set(json, 4 + ciphertext.length);
+  return payload;
+}
+
+/**
+ * Decode an onion payload produced by encodeOnionPayload
+ */
+export function decodeOnionPayload(payload: Uint8Array): { ciphertext: Uint8Array; info: OnionLayerInfo } {
+  if (payload.length < 4) {
+    throw new Error('Invalid onion payload: missing length prefix');
+  }
+  const length = new DataView(payload.buffer, payload.byteOffset, payload.byteLength).getUint32(0, true);
+  if (4 + length > payload.length) {
+    throw new Error(`Invalid onion payload: ciphertext length ${length} exceeds payload size`);
+  }
+
+  let info: OnionLayerInfo;
+  try {
+    info = JSON.parse(new TextDecoder().decode(payload.slice(4 + length)));
+  } catch {
+    throw new Error('Invalid onion payload: trailer is not JSON');
+  }
+  if (!info || typeof info.ephemeral_key !== 'string') {
+    throw new Error('Invalid onion payload: missing ephemeral_key');
+  }
+  return { ciphertext: payload.slice(4, 4 + length), info };
+}
+
+/**
+ * Derive the symmetric key shared by the client's ephemeral key and a node's X25519 key
+ * aes-gcm: HMAC-SHA256(key = "LOKI", shared secret)
+ * xchacha20: BLAKE2b-256(shared secret || ephemeral pubkey || node pubkey)
+ */
+export async function deriveOnionKey(
+  sharedSecret: Uint8Array,
+  ephemeralPublicKey: Uint8Array,
+  nodePublicKey: Uint8Array,
+  encType: OnionEncryptionType
+): Promise<Uint8Array> {
+  if (encType === 'aes-gcm') {
+    return new Uint8Array(createHmac('sha256', 'LOKI').update(sharedSecret).digest());
+  }
+
+  await sodium.ready;
+  const input = new Uint8Array(sharedSecret.length + ephemeralPublicKey.length + nodePublicKey.length);
+  input.set(sharedSecret, 0);
+  input.set(ephemeralPublicKey, sharedSecret.length);
+  input.set(nodePublicKey, sharedSecret.length + ephemeralPublicKey.length);
+  return sodium.crypto_generichash(32, input);
+}
+
+/**
+ * Encrypt with a derived onion key; the random nonce/IV is prepended to the ciphertext
+ */
+export async function encryptWithOnionKey(
+  plaintext: Uint8Array,
+  key: Uint8Array,
+  encType: OnionEncryptionType
+): Promise<Uint8Array> {
+  if (encType === 'aes-gcm') {
+    const iv = CryptoUtils.generateRandomBytes(AES_GCM_IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+    return concat(iv, ciphertext);
+  }
+
+  await sodium.ready;
+  const nonce = CryptoUtils.generateRandomBytes(XCHACHA20_NONCE_LENGTH);
+  return concat(nonce, sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(plaintext, null, null, nonce, key));
+}
+
+/**
+ * Decrypt data produced by encryptWithOnionKey
+ */
+export async function decryptWithOnionKey(
+  data: Uint8Array,
+  key: Uint8Array,
+  encType: OnionEncryptionType
+): Promise<Uint8Array> {
+  if (encType === 'aes-gcm') {
+    if (data.length < AES_GCM_IV_LENGTH + AES_GCM_TAG_LENGTH) {
+      throw new Error('Onion ciphertext is too short');
+    }
+    const iv = data.slice(0, AES_GCM_IV_LENGTH);
+    const tag = data.slice(data.length - AES_GCM_TAG_LENGTH);
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    try {
+      return new Uint8Array(Buffer.concat([decipher.update(data.slice(AES_GCM_IV_LENGTH, data.length - AES_GCM_TAG_LENGTH)), decipher.final()]));
+    } catch {
+      throw new Error('Failed to decrypt onion layer');
+    }
+  }
+
+  await sodium.ready;
+  if (data.length < XCHACHA20_NONCE_LENGTH) {
+    throw new Error('Onion ciphertext is too short');
+  }
+  try {
+    return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+      null, data.slice(XCHACHA20_NONCE_LENGTH), null, data.slice(0, XCHACHA20_NONCE_LENGTH), key
+    );
+  } catch {
+    throw new Error('Failed to decrypt onion layer');
+  }
+}
+
+/**
+ * Encrypt a layer for a node with a fresh ephemeral X25519 key
+ */
+export async function encryptForNode(
+  plaintext: Uint8Array,
+  nodeX25519Pubkey: Uint8Array,
+  encType: OnionEncryptionType
+): Promise<{ ciphertext: Uint8Array; ephemeralPublicKey: Uint8Array; key: Uint8Array }> {
+  const ephemeral = x25519.generateKeyPairFromSeed(CryptoUtils.generateRandomBytes(32));
+  const shared = x25519.sharedKey(ephemeral.secretKey, nodeX25519Pubkey);
+  const key = await deriveOnionKey(shared, ephemeral.publicKey, nodeX25519Pubkey, encType);
+  const ciphertext = await encryptWithOnionKey(plaintext, key, encType);
+  return { ciphertext, ephemeralPublicKey: ephemeral.publicKey, key };
+}
+
+/**
+ * Decrypt the outer layer of an onion payload as the node owning `node`
+ * Returns the layer plaintext and the key the node uses to encrypt its response
+ */
+export async function peelOnionLayer(
+  payload: Uint8Array,
+  node: CryptoUtils
+): Promise<{ plaintext: Uint8Array; key: Uint8Array; encType: OnionEncryptionType }> {
+  const { ciphertext, info } = decodeOnionPayload(payload);
+  const encType = info.enc_type ?? 'aes-gcm';
+  const ephemeralPublicKey = hex.decode(info.ephemeral_key);
+  const shared = x25519.sharedKey(node.getX25519SecretKey(), ephemeralPublicKey);
+  const key = await deriveOnionKey(shared, ephemeralPublicKey, node.getX25519PublicKey(), encType);
+  return { plaintext: await decryptWithOnionKey(ciphertext, key, encType), key, encType };
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a, 0);
+  result.set(b, a.length);
+  return result;
+}
+
+/**
+ * Wraps storage RPCs in layered encryption over a path of service nodes
+ * The last hop is the destination that executes the RPC; every other hop only learns the next one,
+ * so the swarm never sees the client's IP and the entry node never sees the request
+ */
+export class OnionRequestBuilder {
+  private path: OnionHop[];
+  private encType: OnionEncryptionType;
+
+  constructor(path: OnionHop[], encType: OnionEncryptionType = 'aes-gcm') {
+    if (path.length === 0) {
+      throw new Error('An onion path needs at least one service node');
+    }
+    this.path = path;
+    this.encType = encType;
+  }
+
+  /**
+   * Get the entry (guard) node the payload must be POSTed to
+   */
+  getEntryNode(): OnionHop {
+    return this.path[0];
+  }
+
+  /**
+   * Get the destination node that executes the request
+   */
+  getDestination(): OnionHop {
+    return this.path[this.path.length - 1];
+  }
+
+  /**
+   * Build the onion payload for a request produced by PostmanParamsGenerator
+   */
+  async build(request: ApiRequest): Promise<OnionRequest> {
+    const destination = this.getDestination();
+    const body = JSON.stringify({ headers: {}, body: JSON.stringify({ method: request.method, params: request.params }) });
+    const final = await encryptForNode(new TextEncoder().encode(body), hex.decode(destination.pubkey_x25519), this.encType);
+
+    // Wrap from the destination outwards; each relay layer names the node it forwards to
+    let ciphertext = final.ciphertext;
+    let ephemeralPublicKey = final.ephemeralPublicKey;
+    for (let i = this.path.length - 2; i >= 0; i--) {
+      const relay = encodeOnionPayload(ciphertext, {
+        destination: this.path[i + 1].pubkey_ed25519,
+        ephemeral_key: hex.encode(ephemeralPublicKey, true),
+        enc_type: this.encType
+      });
+      const layer = await encryptForNode(relay, hex.decode(this.path[i].pubkey_x25519), this.encType);
+      ciphertext = layer.ciphertext;
+      ephemeralPublicKey = layer.ephemeralPublicKey;
+    }
+
+    return {
+      payload: encodeOnionPayload(ciphertext, { ephemeral_key: hex.encode(ephemeralPublicKey, true), enc_type: this.encType }),
+      destinationKey: final.key,
+      encType: this.encType
+    };
+  }
+
+  /**
+   * Decrypt the destination's response (base64 text or raw bytes) relayed back by the entry node
+   */
+  async decryptResponse(response: string | Uint8Array, onion: OnionRequest): Promise<OnionResponse> {
+    const data = typeof response === 'string' ? base64.decode(response.trim()) : response;
+    const plaintext = new TextDecoder().decode(await decryptWithOnionKey(data, onion.destinationKey, onion.encType));
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(plaintext);
+    } catch {
+      throw new Error('Invalid onion response: decrypted body is not JSON');
+    }
+    if (typeof parsed?.status !== 'number') {
+      throw new Error('Invalid onion response: missing status');
+    }
+
+    // Service nodes return the RPC body as a string; decode it when it holds JSON
+    let body = parsed.body;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // Plain-text error bodies are kept as is
+      }
+    }
+    return { status: parsed.status, body };
+  }
+}
@@ -0,0 +1,93 @@
+import * as hex from '@stablelib/hex';
+import { CryptoUtils } from './crypto';
+import { Keystore } from './keystore';
+import { PostmanParamsGenerator } from './postman-params';
+import { PostmanCollectionExporter } from './postman-exporter';
+
+// Usage: npm run postman -- [output directory] [base URL]
+//
+// The owner key comes from a keystore identity (OXEN_STORAGE_KEYSTORE, OXEN_STORAGE_IDENTITY,
+// password in OXEN_STORAGE_PASSWORD) or from a hex seed in OXEN_STORAGE_SEED.
+// The Subaccount folder is exported when a holder is given as OXEN_STORAGE_SUBACCOUNT_IDENTITY
+// (from the same keystore) or OXEN_STORAGE_SUBACCOUNT_SEED.
+// Secret variables are exported without their values unless OXEN_STORAGE_EXPORT_SECRETS=1.
+
+function seedFromEnv(name: string): Uint8Array | undefined {
+    const value = process.env[name]?.trim();
+    if (!value) {
+        return undefined;
+    }
+    if (!/^[0-9a-fA-F]{64}$/.test(value)) {
+        throw new Error(`${name} must be a 64-character hex seed`);
+    }
+    return hex.decode(value);
+}
+
+async function openKeystore(): Promise<Keystore | undefined> {
+    const path = process.env.OXEN_STORAGE_KEYSTORE;
+    if (!path) {
+        return undefined;
+    }
+    const password = process.env.OXEN_STORAGE_PASSWORD;
+    if (!password) {
+        throw new Error('Keystore password not set: export OXEN_STORAGE_PASSWORD');
+    }
+    return Keystore.open(path, password);
+}
+
+async function loadIdentities(): Promise<{ owner: CryptoUtils; holder?: CryptoUtils }> {
+    const keystore = await openKeystore();
+    const identity = process.env.OXEN_STORAGE_IDENTITY;
+    const holderIdentity = process.env.OXEN_STORAGE_SUBACCOUNT_IDENTITY;
+    const ownerSeed = seedFromEnv('OXEN_STORAGE_SEED');
+    const holderSeed = seedFromEnv('OXEN_STORAGE_SUBACCOUNT_SEED');
+
+    let owner: CryptoUtils;
+    if (keystore && identity) {
+        owner = keystore.getCrypto(identity);
+    } else if (ownerSeed) {
+        owner = new CryptoUtils(ownerSeed);
+    } else {
+        throw new Error('No key: set OXEN_STORAGE_KEYSTORE and OXEN_STORAGE_IDENTITY, or OXEN_STORAGE_SEED');
+    }
+
+    let holder: CryptoUtils | undefined;
+    if (keystore && holderIdentity) {
+        holder = keystore.getCrypto(holderIdentity);
+    } else if (holderSeed) {
+        holder = PostmanParamsGenerator.createSubaccountUser(holderSeed);
+    }
+    return { owner, holder };
+}
+
+async function main() {
+    const outputDir = process.argv[2] ?? './postman';
+    const baseUrl = process.argv[3] ?? 'https://localhost:22021';
+
+    const { owner, holder } = await loadIdentities();
+    const generator = PostmanParamsGenerator.fromCrypto(owner);
+    const delegation = holder && generator.generateSubaccountDelegation(holder.getPublicKeyHex(), 7, 0);
+
+    const exporter = new PostmanCollectionExporter(generator, {
+        baseUrl,
+        includeSecretValues: process.env.OXEN_STORAGE_EXPORT_SECRETS === '1',
+        subaccount: holder && delegation && {
+            token: delegation.subaccountToken,
+            signature: delegation.subaccountSignature,
+            crypto: holder
+        }
+    });
+
+    const files = await exporter.writeFiles(outputDir);
+    console.log('📦 Postman collection:', files.collection);
+    console.log('🌍 Postman environment:', files.environment);
+    console.log('\nImport both files into Postman and select the environment before sending requests.');
+    if (process.env.OXEN_STORAGE_EXPORT_SECRETS !== '1') {
+        console.log('Secret variables (ed25519SecretKey, subaccount token and signature) are empty: set their current values in Postman.');
+    }
+}
+
+main().catch(error => {
+    console.error('❌ Postman export failed:', error);
+    process.exit(1);
+});
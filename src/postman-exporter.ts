@@ -0,0 +1,328 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as hex from '@stablelib/hex';
+import { CryptoUtils } from './crypto';
+import { ApiRequest, PostmanParamsGenerator } from './postman-params';
+import { STORAGE_RPC_PATH } from './storage-client';
+import { DEFAULT_PUSH_SERVER_URL } from './push-client';
+import { describeSubaccountPermissions } from './subaccount-manager';
+
+export const POSTMAN_COLLECTION_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+export interface PostmanScript {
+  listen: 'prerequest' | 'test';
+  script: { type: 'text/javascript'; exec: string[] };
+}
+
+export interface PostmanRequestItem {
+  name: string;
+  request: {
+    method: 'POST';
+    header: Array<{ key: string; value: string }>;
+    url: { raw: string; host: string[]; path: string[] };
+    body: { mode: 'raw'; raw: string; options: { raw: { language: 'json' } } };
+    description?: string;
+  };
+}
+
+export interface PostmanFolder {
+  name: string;
+  description?: string;
+  item: PostmanRequestItem[];
+}
+
+export interface PostmanCollection {
+  info: { _postman_id: string; name: string; description?: string; schema: string };
+  item: PostmanFolder[];
+  event?: PostmanScript[];
+}
+
+export interface PostmanEnvironment {
+  id: string;
+  name: string;
+  values: Array<{ key: string; value: string; type: 'default' | 'secret'; enabled: boolean }>;
+  _postman_variable_scope: 'environment';
+}
+
+export interface PostmanSubaccount {
+  token: string;
+  signature: string;
+  /** Key pair of the subaccount holder, used to sign the subaccount items */
+  crypto: CryptoUtils;
+}
+
+export interface PostmanExportOptions {
+  /** Collection and environment name */
+  name?: string;
+  /** Storage server base URL stored in the environment as {{baseUrl}} */
+  baseUrl?: string;
+  /** Push notification server base URL stored as {{pushServerUrl}} */
+  pushServerUrl?: string;
+  /** Add a collection-level pre-request script that re-signs requests at send time */
+  preRequestScripts?: boolean;
+  /** Delegation used for the subaccount items */
+  subaccount?: PostmanSubaccount;
+  /**
+   * Write the values of secret variables (signing key, subaccount token and signature) into the environment
+   * Off by default: they are exported empty and set as current values in Postman, which are not exported
+   */
+  includeSecretValues?: boolean;
+}
+
+// Collection-level pre-request script; runs in the Postman sandbox, so it is plain JavaScript
+// and repeats the namespace rules of namespace-policy.ts instead of importing them
+const RESIGN_SCRIPT = `// Regenerates timestamps and signatures at send time using {{ed25519SecretKey}}
+// Subaccount requests are left untouched: their blinded-key signatures cannot be produced here
+const nacl = pm.require('npm:tweetnacl@1.0.3');
+
+const hexToBytes = hex => new Uint8Array(hex.match(/../g).map(byte => parseInt(byte, 16)));
+const utf8 = str => new Uint8Array(unescape(encodeURIComponent(str)).split('').map(c => c.charCodeAt(0)));
+const toBase64 = bytes => btoa(String.fromCharCode.apply(null, Array.from(bytes)));
+const omitZero = ns => ns === undefined || ns === 0 ? '' : String(ns);
+
+(function () {
+  const secretKey = pm.environment.get('ed25519SecretKey');
+  if (!secretKey || !pm.request.body || pm.request.body.mode !== 'raw' || !pm.request.body.raw) {
+    return;
+  }
+
+  const body = JSON.parse(pm.request.body.raw);
+  const isPush = body.method === undefined;
+  const p = isPush ? body : body.params;
+  if (!p || p.subaccount) {
+    return;
+  }
+
+  const now = Date.now();
+  const hashes = (p.messages || []).join('');
+  let message;
+
+  if (isPush) {
+    p.sig_ts = Math.floor(now / 1000);
+    if (Array.isArray(p.namespaces)) {
+      message = 'MONITOR' + p.pubkey.toLowerCase() + p.sig_ts + (p.data ? '1' : '0') + p.namespaces.join(',');
+    } else {
+      message = 'UNSUBSCRIBE' + p.pubkey.toLowerCase() + p.sig_ts;
+    }
+  } else {
+    switch (body.method) {
+      case 'store':
+        if ((p.namespace || 0) % 10 === 0) return;
+        p.timestamp = now;
+        p.sig_timestamp = now;
+        message = 'store' + (p.namespace || 0) + now;
+        break;
+      case 'retrieve':
+        if (p.namespace === -10) return;
+        p.timestamp = now;
+        message = 'retrieve' + omitZero(p.namespace) + now;
+        break;
+      case 'delete':
+        message = 'delete' + hashes;
+        break;
+      case 'delete_all':
+        p.timestamp = now;
+        message = 'delete_all' + omitZero(p.namespace) + now;
+        break;
+      case 'delete_before':
+        message = 'delete_before' + (p.namespace === undefined ? 'all' : p.namespace) + p.before;
+        break;
+      case 'expire':
+        message = 'expire' + (p.shorten ? 'shorten' : p.extend ? 'extend' : '') + p.expiry + hashes;
+        break;
+      case 'expire_all':
+        message = 'expire_all' + omitZero(p.namespace) + p.expiry;
+        break;
+      case 'get_expiries':
+        p.timestamp = now;
+        message = 'get_expiries' + now + hashes;
+        break;
+      case 'update':
+        p.timestamp = now;
+        message = 'update' + now + hashes + p.data;
+        break;
+      case 'revoke_subaccount':
+        message = 'revoke_subaccount' + p.revoke;
+        break;
+      case 'unrevoke_subaccount':
+        p.timestamp = now;
+        message = 'unrevoke_subaccount' + now + p.unrevoke.join('');
+        break;
+      case 'revoked_subaccounts':
+        p.timestamp = now;
+        message = 'revoked_subaccounts' + now;
+        break;
+      default:
+        return;
+    }
+  }
+
+  p.signature = toBase64(nacl.sign.detached(utf8(message), hexToBytes(secretKey)));
+  pm.request.body.update(JSON.stringify(body, null, 2));
+})();`;
+
+/**
+ * Exports the requests built by PostmanParamsGenerator as a Postman Collection v2.1
+ * plus a matching environment (base URLs, pubkeys, signing key, subaccount token)
+ */
+export class PostmanCollectionExporter {
+  private generator: PostmanParamsGenerator;
+  private name: string;
+  private baseUrl: string;
+  private pushServerUrl: string;
+  private preRequestScripts: boolean;
+  private subaccount?: PostmanSubaccount;
+  private includeSecretValues: boolean;
+
+  constructor(generator: PostmanParamsGenerator, options: PostmanExportOptions = {}) {
+    this.generator = generator;
+    this.name = options.name ?? 'Oxen Storage RPC';
+    this.baseUrl = options.baseUrl ?? 'https://localhost:22021';
+    this.pushServerUrl = options.pushServerUrl ?? DEFAULT_PUSH_SERVER_URL;
+    this.preRequestScripts = options.preRequestScripts ?? true;
+    this.subaccount = options.subaccount;
+    this.includeSecretValues = options.includeSecretValues ?? false;
+  }
+
+  /**
+   * Build the collection: one item per RPC, grouped into storage, subaccount and push folders
+   */
+  buildCollection(): PostmanCollection {
+    const g = this.generator;
+    const now = g.now();
+
+    const storage: PostmanRequestItem[] = [
+      this.rpcItem('store (namespace 0, unsigned)', g.getStoreParams('Hello World!', 86400000, 0)),
+      this.rpcItem('store (namespace 3)', g.getStoreParams('Hello World!', 86400000, 3)),
+      this.rpcItem('retrieve', g.getRetrieveParams(undefined, 0)),
+      this.rpcItem('delete', g.getDeleteParams(['test_hash_1'])),
+      this.rpcItem('delete_all', g.getDeleteAllParams(0)),
+      this.rpcItem('delete_before', g.getDeleteBeforeParams(now, 'all')),
+      this.rpcItem('update', g.getUpdateParams('Updated data!', 'test_hash_1')),
+      this.rpcItem('expire', g.getExpireMsgsParams(['test_hash_1'], now + 86400000, false, true)),
+      this.rpcItem('expire_all', g.getExpireAllParams(now + 86400000)),
+      this.rpcItem('get_expiries', g.getExpiriesParams(['test_hash_1'])),
+      this.rpcItem('get_swarm', g.getSwarmParams()),
+      this.rpcItem('revoked_subaccounts', g.getRevokedSubaccountsParams())
+    ];
+
+    const folders: PostmanFolder[] = [{ name: 'Storage', item: storage }];
+
+    if (this.subaccount) {
+      const { token, signature, crypto } = this.subaccount;
+      storage.push(
+        this.rpcItem('revoke_subaccount', g.getRevokeSubaccountParams(token)),
+        this.rpcItem('unrevoke_subaccount', g.getUnrevokeSubaccountParams([token]))
+      );
+      // Only the methods the token's permission bits allow; the generator refuses the others
+      const { read, write, delete: canDelete } = describeSubaccountPermissions(hex.decode(token)[1]);
+      const subaccountItems: [boolean, string, () => ApiRequest][] = [
+        [write, 'store (subaccount)', () => g.getStoreParamsWithSubaccount('Hello from subaccount!', 86400000, 1, token, signature, crypto)],
+        [read, 'retrieve (subaccount)', () => g.getRetrieveParamsWithSubaccount(undefined, 1, 100, -5, token, signature, crypto)],
+        [canDelete, 'delete (subaccount)', () => g.getDeleteParamsWithSubaccount(['test_hash_1'], true, token, signature, crypto)],
+        [canDelete, 'delete_all (subaccount)', () => g.getDeleteAllParamsWithSubaccount(1, token, signature, crypto)],
+        [canDelete, 'delete_before (subaccount)', () => g.getDeleteBeforeParamsWithSubaccount(now, 'all', token, signature, crypto)],
+        [write, 'update (subaccount)', () => g.getUpdateParamsWithSubaccount('Updated by subaccount!', 'test_hash_1', token, signature, crypto)],
+        [canDelete, 'expire shorten (subaccount)', () => g.getExpireMsgsParamsWithSubaccount(['test_hash_1'], now + 3600000, true, undefined, token, signature, crypto)],
+        [canDelete, 'expire_all (subaccount)', () => g.getExpireAllParamsWithSubaccount(now + 3600000, undefined, token, signature, crypto)],
+        [read, 'get_expiries (subaccount)', () => g.getExpiriesParamsWithSubaccount(['test_hash_1'], token, signature, crypto)]
+      ];
+      folders.push({
+        name: 'Subaccount',
+        description: 'Signed with the blinded subaccount key at export time; re-export to refresh the timestamps',
+        item: subaccountItems
+          .filter(([allowed]) => allowed)
+          .map(([, name, build]) => this.rpcItem(name, build()))
+      });
+    }
+
+    folders.push({
+      name: 'Push',
+      item: [
+        this.item('push subscribe', '{{pushServerUrl}}', ['subscribe'], g.getPushSubscribeParams()),
+        this.item('push unsubscribe', '{{pushServerUrl}}', ['unsubscribe'], g.getPushUnsubscribeParams())
+      ]
+    });
+
+    return {
+      info: {
+        _postman_id: randomUUID(),
+        name: this.name,
+        description: `Requests for ${this.accountPubkey()}`,
+        schema: POSTMAN_COLLECTION_SCHEMA
+      },
+      item: folders,
+      ...(this.preRequestScripts && {
+        event: [{ listen: 'prerequest', script: { type: 'text/javascript', exec: RESIGN_SCRIPT.split('\n') } }]
+      })
+    };
+  }
+
+  /**
+   * Build the environment holding the variables the collection and its script use
+   * The signing key is a secret variable, present only when pre-request scripts are enabled;
+   * secret values are left empty unless includeSecretValues is set
+   */
+  buildEnvironment(): PostmanEnvironment {
+    const g = this.generator;
+    const values: PostmanEnvironment['values'] = [
+      { key: 'baseUrl', value: this.baseUrl, type: 'default', enabled: true },
+      { key: 'pushServerUrl', value: this.pushServerUrl, type: 'default', enabled: true },
+      { key: 'pubkey', value: this.accountPubkey(), type: 'default', enabled: true },
+      { key: 'pubkeyEd25519', value: g.getPublicKeyNoPrefix(), type: 'default', enabled: true },
+      { key: 'sessionId', value: g.getX25519SessionId(), type: 'default', enabled: true }
+    ];
+    if (this.preRequestScripts) {
+      values.push(this.secret('ed25519SecretKey', g.getCrypto().getSecretKeyHex()));
+    }
+    if (this.subaccount) {
+      values.push(this.secret('subaccountToken', this.subaccount.token), this.secret('subaccountSignature', this.subaccount.signature));
+    }
+
+    return {
+      id: randomUUID(),
+      name: this.name,
+      values,
+      _postman_variable_scope: 'environment'
+    };
+  }
+
+  /**
+   * Write `<name>.postman_collection.json` and `<name>.postman_environment.json` to a directory
+   */
+  async writeFiles(directory: string): Promise<{ collection: string; environment: string }> {
+    const base = this.name.replace(/[^A-Za-z0-9._-]+/g, '_');
+    const collection = path.join(directory, `${base}.postman_collection.json`);
+    const environment = path.join(directory, `${base}.postman_environment.json`);
+
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(collection, JSON.stringify(this.buildCollection(), null, 2));
+    await fs.writeFile(environment, JSON.stringify(this.buildEnvironment(), null, 2));
+    return { collection, environment };
+  }
+
+  private secret(key: string, value: string): PostmanEnvironment['values'][number] {
+    return { key, value: this.includeSecretValues ? value : '', type: 'secret', enabled: true };
+  }
+
+  private rpcItem(name: string, request: ApiRequest): PostmanRequestItem {
+    return this.item(name, '{{baseUrl}}', STORAGE_RPC_PATH.split('/').filter(Boolean), request);
+  }
+
+  private item(name: string, host: string, urlPath: string[], body: any): PostmanRequestItem {
+    return {
+      name,
+      request: {
+        method: 'POST',
+        header: [{ key: 'Content-Type', value: 'application/json' }],
+        url: { raw: `${host}/${urlPath.join('/')}`, host: [host], path: urlPath },
+        body: { mode: 'raw', raw: JSON.stringify(body, null, 2), options: { raw: { language: 'json' } } }
+      }
+    };
+  }
+
+  private accountPubkey(): string {
+    return this.generator.getAuthStrategy().getPubkey();
+  }
+}
@@ -1,11 +1,20 @@
-import { CryptoUtils } from './crypto';
+import { CryptoUtils, CryptoUtilsOptions } from './crypto';
 import * as hex from '@stablelib/hex';
+import { decryptSessionMessage, encryptSessionMessage, OpenedSessionMessage } from './session-envelope';
+import { decryptPushNotification, PushNotification, PUSH_ENC_KEY_LENGTH } from './push-notification';
+import type { Keystore } from './keystore';
+import { namespaceSignaturePart, requiresSignature, validateNamespace } from './namespace-policy';
+import { SubaccountPermission } from './subaccount-manager';
+import { AuthStrategy, OwnerEd25519AuthStrategy, SessionIdAuthStrategy, SubaccountAuthStrategy } from './auth-strategy';
 import { 
   StoreParams, 
   RetrieveParams, 
   DeleteParams, 
   DeleteAllParams,
+  DeleteBeforeParams,
   UpdateParams,
+  UnrevokeSubaccountParams,
+  RevokedSubaccountsParams,
   SwarmParams,
   OxendRequestParams,
   TestConfig,
@@ -15,7 +24,7 @@ import {
 } from './types';
 
 // Define the response type for all parameter functions
-interface ApiRequest<T = any> {
+export interface ApiRequest<T = any> {
   method: string;
   params: T;
 }
@@ -23,8 +32,11 @@ interface ApiRequest<T = any> {
 // Define missing types
 interface GetMessagesParams {
   pubkey: string;
+  timestamp: number;
   signature: string;
   pubkey_ed25519?: string;
+  subaccount?: string;
+  subaccount_sig?: string;
 }
 
 interface GetExpiriesParams {
@@ -33,6 +45,8 @@ interface GetExpiriesParams {
   timestamp: number;
   signature: string;
   pubkey_ed25519?: string;
+  subaccount?: string;
+  subaccount_sig?: string;
 }
 
 interface ExpireAllParams {
@@ -41,6 +55,8 @@ interface ExpireAllParams {
   expiry: number;
   signature: string;
   pubkey_ed25519?: string;
+  subaccount?: string;
+  subaccount_sig?: string;
 }
 
 interface ExpireMsgsParams {
@@ -51,11 +67,8 @@ interface ExpireMsgsParams {
   shorten?: boolean;
   extend?: boolean;
   pubkey_ed25519?: string;
-}
-
-interface SubaccountParams {
-  subaccount: string;
-  subaccount_sig: string;
+  subaccount?: string;
+  subaccount_sig?: string;
 }
 
 interface RevokeSubaccountParams {
@@ -64,6 +77,8 @@ interface RevokeSubaccountParams {
   signature: string;
   timestamp?: number;
   pubkey_ed25519?: string;
+  subaccount?: string;
+  subaccount_sig?: string;
 }
 
 interface GetStatsParams {
@@ -130,14 +145,88 @@ interface GetTestExpire6Params {
 export class PostmanParamsGenerator {
   private crypto: CryptoUtils;
   private isSessionId: boolean = false;
+  private pushEncKey?: Uint8Array;
+  private authStrategy?: AuthStrategy;
 
-  constructor(seed?: Uint8Array, isSessionId: boolean = false) {
-    this.crypto = new CryptoUtils(seed);
+  constructor(seed?: Uint8Array, isSessionId: boolean = false, options: CryptoUtilsOptions = {}) {
+    this.crypto = new CryptoUtils(seed, options);
     this.isSessionId = isSessionId;
   }
 
   setCrypto(seed:Uint8Array) {
-    this.crypto = new CryptoUtils(seed);
+    this.crypto = new CryptoUtils(seed, this.crypto.getOptions());
+  }
+
+  /**
+   * Current time in milliseconds used for timestamps, including the clock offset
+   */
+  now(): number {
+    return this.crypto.now();
+  }
+
+  /**
+   * Get the offset added to the local clock
+   */
+  getClockOffset(): number {
+    return this.crypto.getClockOffset();
+  }
+
+  /**
+   * Shift all request timestamps by `offsetMs`, for machines whose clock is off
+   */
+  setClockOffset(offsetMs: number): void {
+    this.crypto.setClockOffset(offsetMs);
+  }
+
+  /**
+   * Align request timestamps with a trusted network time, such as `t` returned by get_swarm
+   */
+  syncClock(networkTime: number, localTime?: number): number {
+    return this.crypto.syncClock(networkTime, localTime);
+  }
+
+  /**
+   * Create a generator around an existing CryptoUtils instance
+   */
+  static fromCrypto(crypto: CryptoUtils, isSessionId: boolean = false): PostmanParamsGenerator {
+    const generator = new PostmanParamsGenerator(undefined, isSessionId);
+    generator.crypto = crypto;
+    return generator;
+  }
+
+  /**
+   * Create a generator from a Session recovery phrase
+   */
+  static fromSessionMnemonic(words: string, isSessionId: boolean = false): PostmanParamsGenerator {
+    return PostmanParamsGenerator.fromCrypto(CryptoUtils.fromSessionMnemonic(words), isSessionId);
+  }
+
+  /**
+   * Create a generator from a BIP39 phrase and optional passphrase
+   */
+  static fromBip39Mnemonic(words: string, passphrase: string = '', isSessionId: boolean = false): PostmanParamsGenerator {
+    return PostmanParamsGenerator.fromCrypto(CryptoUtils.fromBip39Mnemonic(words, passphrase), isSessionId);
+  }
+
+  /**
+   * Create a generator signing as an identity of an unlocked keystore
+   */
+  static fromKeystore(keystore: Keystore, name: string, isSessionId: boolean = false): PostmanParamsGenerator {
+    return PostmanParamsGenerator.fromCrypto(keystore.getCrypto(name), isSessionId);
+  }
+
+  /**
+   * Export the signing key as a Session recovery phrase
+   */
+  getSessionMnemonic(): string {
+    return this.crypto.toSessionMnemonic();
+  }
+
+  /**
+   * Get the key pair used to sign requests
+   */
+  getCrypto(): CryptoUtils {
+    return this.crypto;
   }
 
   /**
@@ -154,6 +243,34 @@ export class PostmanParamsGenerator {
     return this.isSessionId;
   }
 
+  /**
+   * Get the auth strategy that signs requests and picks their pubkey fields
+   * Defaults to the owner's Ed25519 key, or the Session ID when Session ID mode is on
+   */
+  getAuthStrategy(): AuthStrategy {
+    if (this.authStrategy) {
+      return this.authStrategy;
+    }
+    return this.isSessionId ? new SessionIdAuthStrategy(this.crypto) : new OwnerEd25519AuthStrategy(this.crypto);
+  }
+
+  /**
+   * Sign every request with a custom auth strategy; pass undefined to go back to the default
+   */
+  setAuthStrategy(authStrategy?: AuthStrategy): void {
+    this.authStrategy = authStrategy;
+  }
+
+  /**
+   * Create a generator that shares this one's keys, clock and push enc_key but signs with another auth strategy
+   */
+  withAuthStrategy(authStrategy: AuthStrategy): PostmanParamsGenerator {
+    const generator = PostmanParamsGenerator.fromCrypto(this.crypto, this.isSessionId);
+    generator.authStrategy = authStrategy;
+    generator.pushEncKey = this.pushEncKey;
+    return generator;
+  }
+
   /**
    * Get the public key for testing (default - testnet/localdev prefix, 66 hex characters)
    * Oxen Storage API requires 66 hex digits (33 bytes) with network prefix
@@ -205,9 +322,9 @@ export class PostmanParamsGenerator {
   }
 
   /**
-   * Generate base64 encoded data
+   * Generate base64 encoded data (strings are UTF-8 encoded, bytes are sent as is)
    */
-  encodeData(data: string): string {
+  encodeData(data: string | Uint8Array): string {
     return Buffer.from(data).toString('base64');
   }
 
@@ -216,40 +333,29 @@ export class PostmanParamsGenerator {
    * Based on official API: https://api.oxen.io/storage-rpc/#/storage
    */
   getStoreParams(
-    data: string = "Hello World!", 
+    data: string | Uint8Array = "Hello World!", 
     ttl: number = 86400000, 
     namespace: number = 0
   ): ApiRequest<StoreParams> {
-    const timestamp = Date.now();
+    const auth = this.getAuthStrategy();
+    const timestamp = this.now();
     const encodedData = this.encodeData(data);
     
-    // Handle different namespace types with appropriate authentication
-    let signature: string | undefined;
-    
-    if (namespace === -10) {
-      // Legacy closed groups - no signature for storage
-      // But authentication still needed for retrieval
-      // This maintains backward compatibility with old Session clients
-    } else if (namespace % 10 === 0) {
-      // Public namespaces (0, 10, 20, -10, -20, etc.)
-      // No signature for storage, but needed for retrieval
-      // Examples: namespace 0 (public DMs), namespace 10 (legacy groups)
-    } else {
-      // Private namespaces (1, 2, 3, 7, 11, etc.)
-      // Full authentication required for all operations
-      // Examples: namespace 2-5 (Session config), namespace 7 (private chats)
-      signature = this.crypto.signStore(namespace, timestamp);
-    }
+    // Public namespaces (divisible by 10) take unsigned deposits; see namespace-policy
+    // Signature format: ("store" || namespace || sig_timestamp)
+    const signature = requiresSignature(namespace, 'store')
+      ? auth.sign(`store${namespace}${timestamp}`, SubaccountPermission.Write, 'store')
+      : undefined;
 
     const params: StoreParams = {
-      pubkey: this.isSessionId ? this.getX25519SessionId() : this.getPublicKey(), // 05 + X25519 for Session ID, 00 + Ed25519 for regular
+      pubkey: auth.getPubkey(),
       timestamp,
       ttl,
       data: encodedData,
       namespace,
       signature,
       sig_timestamp: timestamp, // Use the same timestamp for signature
-      ...(this.isSessionId && { pubkey_ed25519: this.getPublicKeyNoPrefix() }) // Only include if isSessionId is true
+      ...auth.getAuthFields()
     };
 
     return {
@@ -263,25 +369,24 @@ export class PostmanParamsGenerator {
    * Based on official API: https://api.oxen.io/storage-rpc/#/storage
    */
   getRetrieveParams(lastHash?: string, namespace: number = 0, maxCount: number = 100, maxSize: number = -5): ApiRequest<RetrieveParams> {
-    const timestamp = Date.now();
+    const auth = this.getAuthStrategy();
+    const timestamp = this.now();
     
-    // For all namespaces except -10, signature is required
-    let signature: string | undefined;
-    
-    if (namespace !== -10) {
-      // Use the specific signRetrieve method from CryptoUtils
-      signature = this.crypto.signRetrieve(namespace, timestamp);
-    }
+    // Every namespace except the legacy closed group one (-10) needs a signature
+    // Signature format: ("retrieve" || namespace, omitted for 0 || timestamp)
+    const signature = requiresSignature(namespace, 'retrieve')
+      ? auth.sign(`retrieve${namespaceSignaturePart(namespace)}${timestamp}`, SubaccountPermission.Read, 'retrieve')
+      : undefined;
 
     const params: RetrieveParams = {
-      pubkey: this.isSessionId ? this.getX25519SessionId() : this.getPublicKey(), // 05 + X25519 for Session ID, 00 + Ed25519 for regular
+      pubkey: auth.getPubkey(),
       namespace,
       last_hash: lastHash,
       max_count: maxCount,
       max_size: maxSize, // -5 means 1/5 of network max transmission size
       timestamp,
       signature,
-      ...(this.isSessionId && { pubkey_ed25519: this.getPublicKeyNoPrefix() }) // Only include if isSessionId is true
+      ...auth.getAuthFields()
     };
 
     return {
@@ -293,52 +398,67 @@ export class PostmanParamsGenerator {
   /**
    * Generate retrieve parameters for Postman using X25519 keys
    * Based on official API: https://api.oxen.io/storage-rpc/#/storage
-   * When pubkey_ed25519 is X25519, the signature should be generated using X25519
+   * X25519 keys cannot sign, so this is the same request as getRetrieveParams: the Ed25519 key
+   * signs and the auth strategy picks the pubkey fields
    */
   getRetrieveParamsX25519(lastHash?: string, namespace: number = 0, maxCount: number = 100, maxSize: number = -5): ApiRequest<RetrieveParams> {
-    const timestamp = Date.now();
-    
-    // For all namespaces except -10, signature is required
-    let signature: string | undefined;
-    
-    if (namespace !== -10) {
-      // Use X25519 signature method
-      signature = this.crypto.signRetrieve(namespace, timestamp);
+    return this.getRetrieveParams(lastHash, namespace, maxCount, maxSize);
+  }
+
+  /**
+   * Generate store parameters for a message encrypted to another Session ID
+   * The data is sealed for the recipient and signed by this identity, then stored in the
+   * recipient's account; only public namespaces accept deposits without the recipient's signature
+   */
+  async getEncryptedStoreParams(
+    data: string,
+    recipientSessionId: string,
+    ttl: number = 86400000,
+    namespace: number = 0
+  ): Promise<ApiRequest<StoreParams>> {
+    if (requiresSignature(namespace, 'store')) {
+      throw new Error(`Cannot store to namespace ${namespace} of another account: only public namespaces (divisible by 10) accept unsigned deposits`);
     }
 
-    const params: RetrieveParams = {
-      pubkey: this.isSessionId ? this.getX25519SessionId() : this.getPublicKey(), // 05 + X25519 for Session ID, 00 + Ed25519 for regular
-      namespace,
-      last_hash: lastHash,
-      max_count: maxCount,
-      max_size: maxSize,
+    const timestamp = this.now();
+    const params: StoreParams = {
+      pubkey: recipientSessionId,
       timestamp,
-      signature,
-      ...(this.isSessionId && { pubkey_ed25519: this.getPublicKeyNoPrefix() }) // Only include if isSessionId is true
+      ttl,
+      data: await encryptSessionMessage(data, recipientSessionId, this.crypto, timestamp),
+      namespace
     };
 
     return {
-      method: 'retrieve',
+      method: 'store',
       params
     };
   }
 
+  /**
+   * Decrypt the base64 data of a retrieved message sent to this identity's Session ID
+   * and verify the sender's signature
+   */
+  decryptMessage(data: string): Promise<OpenedSessionMessage> {
+    return decryptSessionMessage(data, this.crypto);
+  }
+
   /**
    * Generate delete parameters for Postman
    * Based on official API: https://api.oxen.io/storage-rpc/#/storage
    */
   getDeleteParams(messages: string[] = ["test_hash_1", "test_hash_2"], required: boolean = true): ApiRequest<DeleteParams> {
-    const pubkey = this.isSessionId ? this.getX25519SessionId() : this.getPublicKey();
+    const auth = this.getAuthStrategy();
     
-    // Use the specific signDelete method from CryptoUtils
-    const signature = this.crypto.signDelete(messages);
+    // Signature format: ("delete" || messages[0] || ... || messages[N])
+    const signature = auth.sign(`delete${messages.join('')}`, SubaccountPermission.Delete, 'delete');
 
     const params: DeleteParams = {
-      pubkey,
+      pubkey: auth.getPubkey(),
       messages,
       required,
       signature,
-      ...(this.isSessionId && { pubkey_ed25519: this.getPublicKeyNoPrefix() })
+      ...auth.getAuthFields()
     };
 
     return {
@@ -351,19 +471,19 @@ export class PostmanParamsGenerator {
    * Generate delete_all parameters for Postman
    * Based on official API: https://api.oxen.io/storage-rpc/#/storage
    */
-  getDeleteAllParams(namespace: number = 0): ApiRequest<DeleteAllParams> {
-    const pubkey = this.isSessionId ? this.getX25519SessionId() : this.getPublicKey();
-    const timestamp = Date.now();
+  getDeleteAllParams(namespace: number | 'all' = 0): ApiRequest<DeleteAllParams> {
+    const auth = this.getAuthStrategy();
+    const timestamp = this.now();
     
-    // Use the specific signDeleteAll method from CryptoUtils
-    const signature = this.crypto.signDeleteAll(namespace, timestamp);
+    // Signature format: ("delete_all" || namespace, omitted for 0 || timestamp)
+    const signature = auth.sign(`delete_all${namespaceSignaturePart(namespace)}${timestamp}`, SubaccountPermission.Delete, 'delete_all');
 
     const params: DeleteAllParams = {
-      pubkey,
+      pubkey: auth.getPubkey(),
       namespace,
       timestamp,
       signature,
-      ...(this.isSessionId && { pubkey_ed25519: this.getPublicKeyNoPrefix() })
+      ...auth.getAuthFields()
     };
 
     return {
@@ -372,25 +492,51 @@ export class PostmanParamsGenerator {
     };
   }
 
+  /**
+   * Generate delete_before parameters for Postman
+   * Deletes all messages with a timestamp <= before, in one namespace or in all namespaces
+   * when namespace is omitted or 'all'
+   */
+  getDeleteBeforeParams(before: number = this.now(), namespace?: number | 'all'): ApiRequest<DeleteBeforeParams> {
+    const auth = this.getAuthStrategy();
+
+    // Signature format: ("delete_before" || namespace || before), "all" when no namespace
+    const namespaceStr = typeof namespace === 'number' ? validateNamespace(namespace).toString() : 'all';
+    const signature = auth.sign(`delete_before${namespaceStr}${before}`, SubaccountPermission.Delete, 'delete_before');
+
+    const params: DeleteBeforeParams = {
+      pubkey: auth.getPubkey(),
+      before,
+      signature,
+      ...(namespace !== undefined && { namespace }),
+      ...auth.getAuthFields()
+    };
+
+    return {
+      method: 'delete_before',
+      params
+    };
+  }
+
   /**
    * Generate update parameters for Postman
    * Based on official API: https://api.oxen.io/storage-rpc/#/storage
    */
   getUpdateParams(newData: string = "Updated data!", messageHash: string = "test_hash"): ApiRequest<UpdateParams> {
-    const pubkey = this.isSessionId ? this.getX25519SessionId() : this.getPublicKey();
-    const timestamp = Date.now();
+    const auth = this.getAuthStrategy();
+    const timestamp = this.now();
     const encodedData = this.encodeData(newData);
     
     // Signature format: ("update" || timestamp || messages[0] || ... || messages[N] || data)
-    const message = `update${timestamp}${messageHash}${encodedData}`;
-    const signature = this.generateSignature(message);
+    const signature = auth.sign(`update${timestamp}${messageHash}${encodedData}`, SubaccountPermission.Write, 'update');
 
     const params: UpdateParams = {
-      pubkey,
+      pubkey: auth.getPubkey(),
       messages: [messageHash],
       data: encodedData,
+      timestamp,
       signature,
-      ...(this.isSessionId && { pubkey_ed25519: this.getPublicKeyNoPrefix() })
+      ...auth.getAuthFields()
     };
 
     return {
@@ -404,7 +550,8 @@ export class PostmanParamsGenerator {
    * Based on official API: https://api.oxen.io/storage-rpc/#/storage
    */
   getSwarmParams(): ApiRequest<{pubkey: string}> {
-    const pubkey = this.getPublicKey();
+    // The swarm is looked up for the account the auth strategy addresses (Session ID, group, ...)
+    const pubkey = this.getAuthStrategy().getPubkey();
     
     // get_swarm only requires pubkey, no signature needed
     const params = {
@@ -422,17 +569,17 @@ export class PostmanParamsGenerator {
    * Based on official API: https://api.oxen.io/storage-rpc/#/storage
    */
   getMessagesParams(): ApiRequest<GetMessagesParams> {
-    const pubkey = this.isSessionId ? this.getX25519SessionId() : this.getPublicKey();
-    const timestamp = Date.now();
+    const auth = this.getAuthStrategy();
+    const timestamp = this.now();
     
     // Signature format: ("get_messages" || timestamp)
-    const message = `get_messages${timestamp}`;
-    const signature = this.generateSignature(message);
+    const signature = auth.sign(`get_messages${timestamp}`, SubaccountPermission.Read, 'get_messages');
 
     const params: GetMessagesParams = {
-      pubkey,
+      pubkey: auth.getPubkey(),
+      timestamp,
       signature,
-      ...(this.isSessionId && { pubkey_ed25519: this.getPublicKeyNoPrefix() })
+      ...auth.getAuthFields()
     };
 
     return {
@@ -446,19 +593,18 @@ export class PostmanParamsGenerator {
    * Based on official API: https://api.oxen.io/storage-rpc/#/storage
    */
   getExpiriesParams(messages: string[] = ["test_hash_1"]): ApiRequest<GetExpiriesParams> {
-    const pubkey = this.isSessionId ? this.getX25519SessionId() : this.getPublicKey();
-    const timestamp = Date.now();
+    const auth = this.getAuthStrategy();
+    const timestamp = this.now();
     
     // Signature format: ("get_expiries" || timestamp || messages[0] || ... || messages[N])
-    const message = `get_expiries${timestamp}${messages.join('')}`;
-    const signature = this.generateSignature(message);
+    const signature = auth.sign(`get_expiries${timestamp}${messages.join('')}`, SubaccountPermission.Read, 'get_expiries');
 
     const params: GetExpiriesParams = {
-      pubkey,
+      pubkey: auth.getPubkey(),
       messages,
       timestamp,
       signature,
-      ...(this.isSessionId && { pubkey_ed25519: this.getPublicKeyNoPrefix() })
+      ...auth.getAuthFields()
     };
 
     return {
@@ -472,17 +618,18 @@ export class PostmanParamsGenerator {
    * Based on official API: https://api.oxen.io/storage-rpc/#/storage
    * Updates (shortens) the expiry of all stored messages
    */
-  getExpireAllParams(expiry: number = Date.now() + 86400000, namespace?: number | string): ApiRequest<ExpireAllParams> {
-    const pubkey = this.isSessionId ? this.getX25519SessionId() : this.getPublicKey();
+  getExpireAllParams(expiry: number = this.now() + 86400000, namespace?: number | string): ApiRequest<ExpireAllParams> {
+    const auth = this.getAuthStrategy();
     
-    // Use the specific signExpireAll method from CryptoUtils
-    const signature = this.crypto.signExpireAll(namespace, expiry);
+    // Signature format: ("expire_all" || namespace, omitted for 0 || expiry); 'all' is signed as "all"
+    const namespaceStr = namespaceSignaturePart(namespace);
+    const signature = auth.sign(`expire_all${namespaceStr}${expiry}`, SubaccountPermission.Delete, 'expire_all');
 
     const params: ExpireAllParams = {
-      pubkey,
+      pubkey: auth.getPubkey(),
       expiry,
       signature,
-      ...(this.isSessionId && { pubkey_ed25519: this.getPublicKeyNoPrefix() }),
+      ...auth.getAuthFields(),
       ...(namespace !== undefined && { namespace })
     };
 
@@ -496,19 +643,25 @@ export class PostmanParamsGenerator {
    * Generate expire_msgs parameters for Postman
    * Based on official API: https://api.oxen.io/storage-rpc/#/storage
    * Updates (shortens or extends) the expiry of one or more stored messages
+   * A subaccount needs the delete permission to shorten, the write permission to extend and
+   * both to set an arbitrary expiry
    */
-  getExpireMsgsParams(messages: string[] = ["test_hash_1"], expiry: number = Date.now() + 86400000, shorten?: boolean, extend?: boolean): ApiRequest<ExpireMsgsParams> {
-    const pubkey = this.isSessionId ? this.getX25519SessionId() : this.getPublicKey();
+  getExpireMsgsParams(messages: string[] = ["test_hash_1"], expiry: number = this.now() + 86400000, shorten?: boolean, extend?: boolean): ApiRequest<ExpireMsgsParams> {
+    const auth = this.getAuthStrategy();
     
-    // Use the specific signExpireMsgs method from CryptoUtils
-    const signature = this.crypto.signExpireMsgs(messages, expiry, shorten, extend);
+    // Signature format: ("expire" || "shorten" | "extend" | "" || expiry || messages[0] || ... || messages[N])
+    const shortenOrExtend = shorten ? 'shorten' : extend ? 'extend' : '';
+    const permission = shorten
+      ? SubaccountPermission.Delete
+      : extend ? SubaccountPermission.Write : SubaccountPermission.Write | SubaccountPermission.Delete;
+    const signature = auth.sign(`expire${shortenOrExtend}${expiry}${messages.join('')}`, permission, 'expire');
 
     const params: ExpireMsgsParams = {
-      pubkey,
+      pubkey: auth.getPubkey(),
       messages,
       expiry,
       signature,
-      ...(this.isSessionId && { pubkey_ed25519: this.getPublicKeyNoPrefix() }),
+      ...auth.getAuthFields(),
       ...(shorten !== undefined && { shorten }),
       ...(extend !== undefined && { extend })
     };
@@ -525,18 +678,18 @@ export class PostmanParamsGenerator {
    * Revokes a subaccount by adding it to the revocation list
    */
   getRevokeSubaccountParams(subaccountToken: string): ApiRequest<RevokeSubaccountParams> {
-    const timestamp = Date.now();
-    const pubkey = this.isSessionId ? this.getX25519SessionId() : this.getPublicKey();
+    const auth = this.getAuthStrategy();
+    const timestamp = this.now();
     
     // Owner signs: "revoke_subaccount" || subaccount_token
-    const signature = this.crypto.signRevokeSubaccount(subaccountToken);
+    const signature = auth.sign(`revoke_subaccount${subaccountToken}`, 0, 'revoke_subaccount');
 
     const params: RevokeSubaccountParams = {
-      pubkey,
+      pubkey: auth.getPubkey(),
       revoke: subaccountToken,
       signature,
       timestamp,
-      ...(this.isSessionId && { pubkey_ed25519: this.getPublicKeyNoPrefix() })
+      ...auth.getAuthFields()
     };
 
     return {
@@ -545,6 +698,55 @@ export class PostmanParamsGenerator {
     };
   }
 
+  /**
+   * Generate unrevoke_subaccount parameters for Postman
+   * Removes one or more subaccount tokens from the revocation list
+   */
+  getUnrevokeSubaccountParams(subaccountTokens: string[]): ApiRequest<UnrevokeSubaccountParams> {
+    const auth = this.getAuthStrategy();
+    const timestamp = this.now();
+
+    // Owner signs: "unrevoke_subaccount" || timestamp || token[0] || ... || token[N]
+    const signature = auth.sign(`unrevoke_subaccount${timestamp}${subaccountTokens.join('')}`, 0, 'unrevoke_subaccount');
+
+    const params: UnrevokeSubaccountParams = {
+      pubkey: auth.getPubkey(),
+      unrevoke: subaccountTokens,
+      timestamp,
+      signature,
+      ...auth.getAuthFields()
+    };
+
+    return {
+      method: 'unrevoke_subaccount',
+      params
+    };
+  }
+
+  /**
+   * Generate revoked_subaccounts parameters for Postman
+   * Lists the subaccount tokens currently on the revocation list
+   */
+  getRevokedSubaccountsParams(): ApiRequest<RevokedSubaccountsParams> {
+    const auth = this.getAuthStrategy();
+    const timestamp = this.now();
+
+    // Owner signs: "revoked_subaccounts" || timestamp
+    const signature = auth.sign(`revoked_subaccounts${timestamp}`, 0, 'revoked_subaccounts');
+
+    const params: RevokedSubaccountsParams = {
+      pubkey: auth.getPubkey(),
+      timestamp,
+      signature,
+      ...auth.getAuthFields()
+    };
+
+    return {
+      method: 'revoked_subaccounts',
+      params
+    };
+  }
+
   /**
    * Generate subaccount token and signature for delegation
    * Creates a subaccount token that can be used by another pubkey to access this account
@@ -563,6 +765,14 @@ export class PostmanParamsGenerator {
     };
   }
 
+  /**
+   * Get the raw Ed25519 public key of the account owner
+   * Subaccount holders need it to derive their blinded signing key
+   */
+  getOwnerEd25519Pubkey(): Uint8Array {
+    return this.crypto.getEd25519KeyPair().publicKey;
+  }
+
   /**
    * Create a subaccount user with a specific Ed25519 key pair
    * This represents the target user who will use the subaccount
@@ -571,6 +781,15 @@ export class PostmanParamsGenerator {
     return new CryptoUtils(seed);
   }
 
+  /**
+   * Generator for the *WithSubaccount methods: signs as a holder of a subaccount token of this account
+   */
+  private withSubaccount(subaccountToken: string, subaccountSignature: string, subaccountCrypto: CryptoUtils): PostmanParamsGenerator {
+    // Any-prefix tokens address the account the way this generator does: Session ID or 00 pubkey
+    const networkPrefix = this.isSessionId ? 5 : 0;
+    return this.withAuthStrategy(new SubaccountAuthStrategy(this.getOwnerEd25519Pubkey(), subaccountToken, subaccountSignature, subaccountCrypto, networkPrefix));
+  }
+
   /**
    * Generate store parameters with subaccount authentication
    */
@@ -582,99 +801,63 @@ export class PostmanParamsGenerator {
     subaccountSignature: string, 
     subaccountCrypto: CryptoUtils
   ): ApiRequest<StoreParams> {
-    const timestamp = Date.now();
-    const encodedData = this.encodeData(data);
-    
-    // Handle different namespace types with appropriate authentication
-    let signature: string | undefined;
-    
-    if (namespace === -10) {
-      // Legacy closed groups - no signature for storage
-      // But authentication still needed for retrieval
-      // This maintains backward compatibility with old Session clients
-    } else if (namespace % 10 === 0) {
-      // Public namespaces (0, 10, 20, -10, -20, etc.)
-      // No signature for storage, but needed for retrieval
-      // Examples: namespace 0 (public DMs), namespace 10 (legacy groups)
-    } else {
-      // Private namespaces (1, 2, 3, 7, 11, etc.)
-      // Full authentication required for all operations
-      // Examples: namespace 2-5 (Session config), namespace 7 (private chats)
-      signature = subaccountCrypto.signStore(namespace, timestamp);
-    }
-
-    const params: StoreParams = {
-      pubkey: this.getPublicKey(),
-      timestamp,
-      ttl,
-      data: encodedData,
-      namespace,
-      signature,
-      sig_timestamp: timestamp, // Use the same timestamp for signature
-      subaccount: subaccountToken,
-      subaccount_sig: subaccountSignature
-    };
-
-    return {
-      method: 'store',
-      params
-    };
+    return this.withSubaccount(subaccountToken, subaccountSignature, subaccountCrypto).getStoreParams(data, ttl, namespace);
   }
 
   /**
    * Generate retrieve parameters with subaccount authentication
    */
   getRetrieveParamsWithSubaccount(lastHash: string | undefined, namespace: number, maxCount: number, maxSize: number, subaccountToken: string, subaccountSignature: string, subaccountCrypto: CryptoUtils): ApiRequest<RetrieveParams> {
-    const timestamp = Date.now();
-    
-    // For all namespaces except -10, signature is required
-    let signature: string | undefined;
-    
-    if (namespace !== -10) {
-      // Use the subaccount's Ed25519 key to sign the request
-      signature = subaccountCrypto.signRetrieve(namespace, timestamp);
-    }
-
-    const params: RetrieveParams = {
-      pubkey: this.getPublicKey(),
-      namespace,
-      last_hash: lastHash,
-      max_count: maxCount,
-      max_size: maxSize,
-      timestamp,
-      signature,
-      subaccount: subaccountToken,
-      subaccount_sig: subaccountSignature
-    };
-
-    return {
-      method: 'retrieve',
-      params
-    };
+    return this.withSubaccount(subaccountToken, subaccountSignature, subaccountCrypto).getRetrieveParams(lastHash, namespace, maxCount, maxSize);
   }
 
   /**
    * Generate delete parameters with subaccount authentication
    */
   getDeleteParamsWithSubaccount(messages: string[], required: boolean, subaccountToken: string, subaccountSignature: string, subaccountCrypto: CryptoUtils): ApiRequest<DeleteParams> {
-    const pubkey = this.getPublicKey();
-    
-    // Use the subaccount's Ed25519 key to sign the request
-    const signature = subaccountCrypto.signDelete(messages);
+    return this.withSubaccount(subaccountToken, subaccountSignature, subaccountCrypto).getDeleteParams(messages, required);
+  }
 
-    const params: DeleteParams = {
-      pubkey,
-      messages,
-      required,
-      signature,
-      subaccount: subaccountToken,
-      subaccount_sig: subaccountSignature
-    };
+  /**
+   * Generate delete_before parameters with subaccount authentication
+   */
+  getDeleteBeforeParamsWithSubaccount(before: number, namespace: number | 'all' | undefined, subaccountToken: string, subaccountSignature: string, subaccountCrypto: CryptoUtils): ApiRequest<DeleteBeforeParams> {
+    return this.withSubaccount(subaccountToken, subaccountSignature, subaccountCrypto).getDeleteBeforeParams(before, namespace);
+  }
 
-    return {
-      method: 'delete',
-      params
-    };
+  /**
+   * Generate delete_all parameters with subaccount authentication
+   */
+  getDeleteAllParamsWithSubaccount(namespace: number | 'all', subaccountToken: string, subaccountSignature: string, subaccountCrypto: CryptoUtils): ApiRequest<DeleteAllParams> {
+    return this.withSubaccount(subaccountToken, subaccountSignature, subaccountCrypto).getDeleteAllParams(namespace);
+  }
+
+  /**
+   * Generate update parameters with subaccount authentication
+   */
+  getUpdateParamsWithSubaccount(newData: string, messageHash: string, subaccountToken: string, subaccountSignature: string, subaccountCrypto: CryptoUtils): ApiRequest<UpdateParams> {
+    return this.withSubaccount(subaccountToken, subaccountSignature, subaccountCrypto).getUpdateParams(newData, messageHash);
+  }
+
+  /**
+   * Generate expire parameters with subaccount authentication
+   */
+  getExpireMsgsParamsWithSubaccount(messages: string[], expiry: number, shorten: boolean | undefined, extend: boolean | undefined, subaccountToken: string, subaccountSignature: string, subaccountCrypto: CryptoUtils): ApiRequest<ExpireMsgsParams> {
+    return this.withSubaccount(subaccountToken, subaccountSignature, subaccountCrypto).getExpireMsgsParams(messages, expiry, shorten, extend);
+  }
+
+  /**
+   * Generate expire_all parameters with subaccount authentication
+   */
+  getExpireAllParamsWithSubaccount(expiry: number, namespace: number | 'all' | undefined, subaccountToken: string, subaccountSignature: string, subaccountCrypto: CryptoUtils): ApiRequest<ExpireAllParams> {
+    return this.withSubaccount(subaccountToken, subaccountSignature, subaccountCrypto).getExpireAllParams(expiry, namespace);
+  }
+
+  /**
+   * Generate get_expiries parameters with subaccount authentication
+   */
+  getExpiriesParamsWithSubaccount(messages: string[], subaccountToken: string, subaccountSignature: string, subaccountCrypto: CryptoUtils): ApiRequest<GetExpiriesParams> {
+    return this.withSubaccount(subaccountToken, subaccountSignature, subaccountCrypto).getExpiriesParams(messages);
   }
 
   /**
@@ -717,7 +900,7 @@ export class PostmanParamsGenerator {
    * Generate oxend_request parameters for Postman
    * Based on official API: https://api.oxen.io/storage-rpc/#/storage
    */
-  getOxendRequestParams(endpoint: string = "get_service_nodes", params: any = {}): ApiRequest<OxendRequestParams> {
+  getOxendRequestParams(endpoint: string = "get_service_nodes", params: Record<string, unknown> = {}): ApiRequest<OxendRequestParams> {
     // Only whitelisted endpoints are supported:
     // - get_service_nodes
     // - ons_resolve
@@ -835,6 +1018,20 @@ export class PostmanParamsGenerator {
    * Generate push notification subscribe parameters for Postman
    * Based on Session push notification server API
    */
+  getPushSubscribeParams(namespaces?: number[], data?: boolean, service?: string, serviceInfo?: any): PushSubscribeParams;
+  /**
+   * @deprecated Use getPushSubscribeParamsWithSubaccount. A subaccount subscription is signed with the
+   * subaccount key, so the token and its signature alone (without subaccountCrypto) are rejected
+   */
+  getPushSubscribeParams(
+    namespaces: number[] | undefined,
+    data: boolean | undefined,
+    service: string | undefined,
+    serviceInfo: any,
+    subaccountToken: string,
+    subaccountSignature: string,
+    subaccountCrypto?: CryptoUtils
+  ): PushSubscribeParams;
   getPushSubscribeParams(
     namespaces: number[] = [-400, 0, 1, 2, 17],
     data: boolean = true,
@@ -843,33 +1040,31 @@ export class PostmanParamsGenerator {
       token: "1234567890123456789012345678901234567890123456789012345678901234"
     },
     subaccountToken?: string,
-    subaccountSignature?: string
+    subaccountSignature?: string,
+    subaccountCrypto?: CryptoUtils
   ): PushSubscribeParams {
-    const sigTs = Math.floor(Date.now() / 1000); // Unix timestamp in seconds
-    
-    // For Session ID mode: pubkey is the Session ID (05 + X25519), session_ed25519 is the Ed25519
-    // For regular mode: pubkey is the regular pubkey (00 + Ed25519), no session_ed25519
-    let pubkey: string;
-    let sessionEd25519: string | undefined;
-    
-    if (this.isSessionId) {
-      // Session ID mode: pubkey = 05 + X25519, session_ed25519 = Ed25519
-      pubkey = this.getX25519SessionId();
-      sessionEd25519 = this.getPublicKeyNoPrefix();
-    } else {
-      // Regular mode: pubkey = 00 + Ed25519, no session_ed25519
-      pubkey = this.getPublicKey(); // This is already 00 + Ed25519
-      sessionEd25519 = undefined; // Not provided for regular mode
+    if (subaccountToken !== undefined || subaccountSignature !== undefined) {
+      if (!subaccountToken || !subaccountSignature || !subaccountCrypto) {
+        throw new Error('A subaccount push subscription is signed with the subaccount key: use getPushSubscribeParamsWithSubaccount');
+      }
+      return this.getPushSubscribeParamsWithSubaccount(namespaces, data, service, serviceInfo, subaccountToken, subaccountSignature, subaccountCrypto);
     }
+
+    const auth = this.getAuthStrategy();
+    const sigTs = Math.floor(this.now() / 1000); // Unix timestamp in seconds
+    
+    // pubkey is the Session ID (05 + X25519) with session_ed25519 in Session ID mode,
+    // otherwise the 00-prefixed account pubkey
+    const pubkey = auth.getPubkey();
     
-    // Generate a random 32-byte encryption key
-    const encKeyBytes = CryptoUtils.generateRandomBytes(32);
-    const encKey = hex.encode(encKeyBytes);
+    // The push server encrypts notifications with this key; it is generated once and
+    // reused by later subscriptions so decryptPushNotification() can read them
+    const encKey = this.getPushEncKey();
     
-    // Use the specific signPushSubscribe method from CryptoUtils
-    // The signature should be over the raw 33-byte pubkey (the pubkey field)
-    const pubkeyBytes = hex.decode(pubkey);
-    const signature = this.crypto.signPushSubscribe(sigTs, namespaces, data, pubkeyBytes);
+    // Signature format: ("MONITOR" || hex pubkey, lowercase || sig_ts || "1" | "0" || namespaces joined by ",")
+    const namespacesStr = namespaces.map(validateNamespace).join(',');
+    const message = `MONITOR${pubkey.toLowerCase()}${sigTs}${data ? '1' : '0'}${namespacesStr}`;
+    const signature = auth.sign(message, SubaccountPermission.Read, 'subscribe to push notifications');
 
     const params: PushSubscribeParams = {
       pubkey,
@@ -880,15 +1075,84 @@ export class PostmanParamsGenerator {
       service,
       service_info: serviceInfo,
       enc_key: encKey,
-      ...(sessionEd25519 && { session_ed25519: sessionEd25519 }),
-      ...(subaccountToken && { subaccount: subaccountToken }),
-      ...(subaccountSignature && { subaccount_sig: subaccountSignature })
+      ...auth.getPushAuthFields()
     };
 
     return params;
   }
 
+  /**
+   * Generate push notification subscribe parameters with subaccount authentication
+   * The subscription shares this generator's enc_key, like owner-signed subscriptions
+   */
+  getPushSubscribeParamsWithSubaccount(namespaces: number[], data: boolean, service: string, serviceInfo: any, subaccountToken: string, subaccountSignature: string, subaccountCrypto: CryptoUtils): PushSubscribeParams {
+    this.getPushEncKey(); // create it here so this generator keeps it
+    return this.withSubaccount(subaccountToken, subaccountSignature, subaccountCrypto).getPushSubscribeParams(namespaces, data, service, serviceInfo);
+  }
+
+  /**
+   * Get the enc_key (hex) sent with push subscriptions, generating a random one on first use
+   */
+  getPushEncKey(): string {
+    this.pushEncKey ??= this.crypto.randomBytes(PUSH_ENC_KEY_LENGTH);
+    return hex.encode(this.pushEncKey);
+  }
+
+  /**
+   * Use a known enc_key for push subscriptions, e.g. one saved from an earlier subscription
+   */
+  setPushEncKey(encKey: Uint8Array | string): void {
+    const key = typeof encKey === 'string' ? hex.decode(encKey) : encKey;
+    if (key.length !== PUSH_ENC_KEY_LENGTH) {
+      throw new Error(`enc_key must be ${PUSH_ENC_KEY_LENGTH} bytes, got ${key.length}`);
+    }
+    this.pushEncKey = key;
+  }
 
+  /**
+   * Decrypt an encrypted push notification payload (raw or base64) with this generator's enc_key
+   */
+  async decryptPushNotification(payload: Uint8Array | string): Promise<PushNotification> {
+    if (!this.pushEncKey) {
+      throw new Error('No push enc_key: subscribe first or call setPushEncKey()');
+    }
+    return decryptPushNotification(payload, this.pushEncKey);
+  }
+
+  /**
+   * Generate push notification unsubscribe parameters for Postman
+   * Removes the subscription of this account for the given service and device
+   */
+  getPushUnsubscribeParams(
+    service: string = "apns",
+    serviceInfo: any = {
+      token: "1234567890123456789012345678901234567890123456789012345678901234"
+    }
+  ): PushUnsubscribeParams {
+    const auth = this.getAuthStrategy();
+    const sigTs = Math.floor(this.now() / 1000); // Unix timestamp in seconds
+
+    // Same account fields as subscribe
+    // Signature format: ("UNSUBSCRIBE" || hex pubkey, lowercase || sig_ts)
+    const pubkey = auth.getPubkey();
+    const signature = auth.sign(`UNSUBSCRIBE${pubkey.toLowerCase()}${sigTs}`, SubaccountPermission.Read, 'unsubscribe from push notifications');
+
+    return {
+      pubkey,
+      ...auth.getPushAuthFields(),
+      sig_ts: sigTs,
+      signature,
+      service,
+      service_info: serviceInfo
+    };
+  }
+
+  /**
+   * Generate push notification unsubscribe parameters with subaccount authentication
+   */
+  getPushUnsubscribeParamsWithSubaccount(service: string, serviceInfo: any, subaccountToken: string, subaccountSignature: string, subaccountCrypto: CryptoUtils): PushUnsubscribeParams {
+    return this.withSubaccount(subaccountToken, subaccountSignature, subaccountCrypto).getPushUnsubscribeParams(service, serviceInfo);
+  }
 
   /**
    * Generate complete request body for any method
@@ -909,6 +1173,9 @@ export class PostmanParamsGenerator {
       case 'delete_all':
         params = this.getDeleteAllParams();
         break;
+      case 'delete_before':
+        params = this.getDeleteBeforeParams();
+        break;
       case 'get_swarm':
         params = this.getSwarmParams();
         break;
@@ -921,6 +1188,9 @@ export class PostmanParamsGenerator {
       case 'push_subscribe':
         params = this.getPushSubscribeParams();
         break;
+      case 'push_unsubscribe':
+        params = this.getPushUnsubscribeParams();
+        break;
       default:
         params = customParams || {};
     }
@@ -934,22 +1204,22 @@ export class PostmanParamsGenerator {
   /**
    * Print all parameters for Postman collection
    */
-  printAllParams(): void {
+  printAllParams(baseUrl: string = 'https://localhost:22021'): void {
     console.log('\n=== Postman Parameters for All APIs ===\n');
     
     const methods = [
-      'store', 'retrieve', 'delete', 'delete_all', 'update', 'get_swarm', 
+      'store', 'retrieve', 'delete', 'delete_all', 'delete_before', 'update', 'get_swarm', 
       'get_messages', 'get_expiries', 'get_stats', 'get_bstats', 
       'get_version', 'oxend_request', 'test', 'test_retrieve', 
       'test_delete', 'test_update', 'test_expire', 'test_expire2', 
       'test_expire3', 'test_expire4', 'test_expire5', 'test_expire6',
-      'push_subscribe'
+      'push_subscribe', 'push_unsubscribe'
     ];
 
     methods.forEach(method => {
       const requestBody = this.generateRequestBody(method);
       console.log(`\n--- ${method.toUpperCase()} ---`);
-      console.log('URL: POST https://localhost:22021/storage_rpc/v1');
+      console.log(`URL: POST ${baseUrl}/storage_rpc/v1`);
       console.log('Headers: Content-Type: application/json');
       console.log('Body:');
       console.log(JSON.stringify(requestBody, null, 2));
@@ -0,0 +1,73 @@
+import axios, { AxiosInstance } from 'axios';
+import * as https from 'https';
+import { CryptoUtils } from './crypto';
+import { PostmanParamsGenerator } from './postman-params';
+import { StorageClientOptions } from './storage-client';
+import { PushServerError } from './errors';
+import { PushServerResult, PushSubscribeParams, PushUnsubscribeParams } from './types';
+
+export const DEFAULT_PUSH_SERVER_URL = 'https://push.getsession.org';
+
+/**
+ * HTTP client for the Session push notification server
+ * Builds subscribe/unsubscribe bodies with PostmanParamsGenerator and POSTs them to `<baseUrl>/subscribe` and `<baseUrl>/unsubscribe`
+ */
+export class PushClient {
+  private http: AxiosInstance;
+  private generator: PostmanParamsGenerator;
+
+  constructor(baseUrl: string, generator: PostmanParamsGenerator | CryptoUtils, options: StorageClientOptions = {}) {
+    this.generator = generator instanceof CryptoUtils
+      ? PostmanParamsGenerator.fromCrypto(generator)
+      : generator;
+
+    this.http = axios.create({
+      baseURL: baseUrl.replace(/\/+$/, ''),
+      timeout: options.timeout ?? 10000,
+      headers: { 'Content-Type': 'application/json' },
+      validateStatus: () => true,
+      ...(options.allowSelfSigned && { httpsAgent: new https.Agent({ rejectUnauthorized: false }) })
+    });
+  }
+
+  /**
+   * Get the generator used to build requests
+   */
+  getGenerator(): PostmanParamsGenerator {
+    return this.generator;
+  }
+
+  /**
+   * POST a prepared body to a push server endpoint
+   * Throws PushServerError for error statuses or `error` bodies
+   */
+  async send(endpoint: '/subscribe' | '/unsubscribe', body: PushSubscribeParams | PushUnsubscribeParams): Promise<PushServerResult> {
+    let response;
+    try {
+      response = await this.http.post(endpoint, body);
+    } catch (error) {
+      throw new PushServerError(endpoint, 0, error instanceof Error ? error.message : String(error));
+    }
+
+    const result = response.data as PushServerResult;
+    if (response.status < 200 || response.status >= 300 || (result && typeof result === 'object' && result.error !== undefined)) {
+      const message = typeof result === 'string' ? result : result?.message ?? JSON.stringify(result);
+      throw new PushServerError(endpoint, typeof result === 'object' && result?.error !== undefined ? result.error : response.status, message);
+    }
+    return result;
+  }
+
+  /**
+   * Subscribe this account to notifications for the given namespaces
+   */
+  subscribe(namespaces?: number[], data?: boolean, service?: string, serviceInfo?: any): Promise<PushServerResult> {
+    return this.send('/subscribe', this.generator.getPushSubscribeParams(namespaces, data, service, serviceInfo));
+  }
+
+  /**
+   * Remove this account's subscription for a service and device
+   */
+  unsubscribe(service?: string, serviceInfo?: any): Promise<PushServerResult> {
+    return this.send('/unsubscribe', this.generator.getPushUnsubscribeParams(service, serviceInfo));
+  }
+}
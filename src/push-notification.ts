@@ -0,0 +1,253 @@
+import * as hex from '@stablelib/hex';
+import * as base64 from '@stablelib/base64';
+import sodium from 'libsodium-wrappers-sumo';
+import { CryptoUtils } from './crypto';
+
+export const PUSH_ENC_KEY_LENGTH = 32;
+
+// Larger messages are announced with their metadata only (and the `B` flag set)
+export const MAX_PUSH_DATA_LENGTH = 2500;
+
+const XCHACHA20_NONCE_LENGTH = 24;
+
+// The push server pads the bencoded plaintext with null bytes to a multiple of this size
+const PADDING_BLOCK_SIZE = 256;
+
+/**
+ * Metadata dict of a notification: `@` account, `#` hash, `n` namespace, `l` data length,
+ * `B` data omitted, `t` timestamp and `z` expiry
+ */
+export interface PushNotificationMetadata {
+  /** 33-byte account pubkey (hex) the message was stored for */
+  account: string;
+  hash: string;
+  namespace: number;
+  /** Length of the message data, also when the data was not included */
+  dataLength: number;
+  /** Set when the data was too large to be included */
+  dataTooLong?: boolean;
+  /** Message timestamp in milliseconds */
+  timestamp?: number;
+  /** Message expiry in milliseconds */
+  expiry?: number;
+}
+
+export interface PushNotification {
+  metadata: PushNotificationMetadata;
+  /** Message data, present when the subscription asked for it and it fit */
+  data?: Uint8Array;
+}
+
+type BencodeValue = number | Uint8Array | BencodeValue[] | { [key: string]: BencodeValue };
+
+/**
+ * Encode a notification as the bencoded list [metadata, data?], padded with null bytes
+ */
+export function encodePushNotification({ metadata, data }: PushNotification): Uint8Array {
+  if (!/^[0-9a-fA-F]{66}$/.test(metadata.account)) {
+    throw new Error(`Invalid account: expected 66 hex characters, got ${metadata.account}`);
+  }
+
+  const dict: { [key: string]: BencodeValue } = {
+    '@': hex.decode(metadata.account),
+    '#': new TextEncoder().encode(metadata.hash),
+    n: metadata.namespace,
+    l: metadata.dataLength
+  };
+  if (metadata.dataTooLong) dict.B = 1;
+  if (metadata.timestamp !== undefined) dict.t = metadata.timestamp;
+  if (metadata.expiry !== undefined) dict.z = metadata.expiry;
+
+  const encoded = bencode(data ? [dict, data] : [dict]);
+  const padded = new Uint8Array(Math.ceil(encoded.length / PADDING_BLOCK_SIZE) * PADDING_BLOCK_SIZE);
+  padded.set(encoded);
+  return padded;
+}
+
+/**
+ * Decode the plaintext of a notification, ignoring the null padding after the list
+ */
+export function decodePushNotification(plaintext: Uint8Array): PushNotification {
+  const [value, end] = bdecode(plaintext, 0);
+  if (plaintext.subarray(end).some(byte => byte !== 0)) {
+    throw new Error('Invalid push notification: unexpected data after the bencoded list');
+  }
+  if (!Array.isArray(value) || value.length < 1 || value.length > 2) {
+    throw new Error('Invalid push notification: expected a list of metadata and optional data');
+  }
+
+  const [dict, data] = value;
+  if (!isDict(dict)) {
+    throw new Error('Invalid push notification: metadata is not a dict');
+  }
+  const account = dict['@'];
+  const hash = dict['#'];
+  if (!(account instanceof Uint8Array) || account.length !== 33) {
+    throw new Error('Invalid push notification: `@` must be a 33-byte account');
+  }
+  if (!(hash instanceof Uint8Array)) {
+    throw new Error('Invalid push notification: `#` must be a string');
+  }
+  if (typeof dict.n !== 'number' || typeof dict.l !== 'number') {
+    throw new Error('Invalid push notification: `n` and `l` must be integers');
+  }
+  if (data !== undefined && !(data instanceof Uint8Array)) {
+    throw new Error('Invalid push notification: data must be a byte string');
+  }
+  if (data && data.length !== dict.l) {
+    throw new Error(`Invalid push notification: data is ${data.length} bytes but \`l\` says ${dict.l}`);
+  }
+
+  const metadata: PushNotificationMetadata = {
+    account: hex.encode(account, true),
+    hash: new TextDecoder().decode(hash),
+    namespace: dict.n,
+    dataLength: dict.l
+  };
+  if (dict.B === 1) metadata.dataTooLong = true;
+  if (typeof dict.t === 'number') metadata.timestamp = dict.t;
+  if (typeof dict.z === 'number') metadata.expiry = dict.z;
+
+  return data ? { metadata, data } : { metadata };
+}
+
+/**
+ * Encrypt a notification for a subscription's enc_key:
+ * nonce (24 bytes) || XChaCha20-Poly1305(padded bencoded notification)
+ */
+export async function encryptPushNotification(notification: PushNotification, encKey: Uint8Array | string): Promise<Uint8Array> {
+  await sodium.ready;
+  const nonce = CryptoUtils.generateRandomBytes(XCHACHA20_NONCE_LENGTH);
+  const ciphertext = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+    encodePushNotification(notification), null, null, nonce, toEncKey(encKey)
+  );
+  const payload = new Uint8Array(nonce.length + ciphertext.length);
+  payload.set(nonce, 0);
+  payload.set(ciphertext, nonce.length);
+  return payload;
+}
+
+/**
+ * Decrypt an encrypted notification payload (raw or base64) with the enc_key sent at subscription
+ */
+export async function decryptPushNotification(payload: Uint8Array | string, encKey: Uint8Array | string): Promise<PushNotification> {
+  await sodium.ready;
+  const key = toEncKey(encKey);
+  const bytes = typeof payload === 'string' ? base64.decode(payload) : payload;
+  if (bytes.length < XCHACHA20_NONCE_LENGTH) {
+    throw new Error('Push notification payload is too short');
+  }
+
+  let plaintext: Uint8Array;
+  try {
+    plaintext = sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+      null, bytes.slice(XCHACHA20_NONCE_LENGTH), null, bytes.slice(0, XCHACHA20_NONCE_LENGTH), key
+    );
+  } catch {
+    throw new Error('Failed to decrypt push notification: wrong enc_key or corrupted payload');
+  }
+  return decodePushNotification(plaintext);
+}
+
+function toEncKey(encKey: Uint8Array | string): Uint8Array {
+  const key = typeof encKey === 'string' ? hex.decode(encKey) : encKey;
+  if (key.length !== PUSH_ENC_KEY_LENGTH) {
+    throw new Error(`enc_key must be ${PUSH_ENC_KEY_LENGTH} bytes, got ${key.length}`);
+  }
+  return key;
+}
+
+function isDict(value: BencodeValue | undefined): value is { [key: string]: BencodeValue } {
+  return typeof value === 'object' && !(value instanceof Uint8Array) && !Array.isArray(value);
+}
+
+// Minimal bencoding: integers, byte strings, lists and dicts with sorted keys
+
+function bencode(value: BencodeValue): Uint8Array {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+
+  const write = (item: BencodeValue): void => {
+    if (typeof item === 'number') {
+      parts.push(encoder.encode(`i${item}e`));
+    } else if (item instanceof Uint8Array) {
+      parts.push(encoder.encode(`${item.length}:`), item);
+    } else if (Array.isArray(item)) {
+      parts.push(encoder.encode('l'));
+      item.forEach(write);
+      parts.push(encoder.encode('e'));
+    } else {
+      parts.push(encoder.encode('d'));
+      for (const key of Object.keys(item).sort()) {
+        write(encoder.encode(key));
+        write(item[key]);
+      }
+      parts.push(encoder.encode('e'));
+    }
+  };
+  write(value);
+
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function bdecode(data: Uint8Array, offset: number): [BencodeValue, number] {
+  const decoder = new TextDecoder();
+  const readUntil = (terminator: string, start: number): [string, number] => {
+    const end = data.indexOf(terminator.charCodeAt(0), start);
+    if (end < 0) {
+      throw new Error('Invalid push notification: truncated bencode');
+    }
+    return [decoder.decode(data.subarray(start, end)), end + 1];
+  };
+
+  switch (String.fromCharCode(data[offset])) {
+    case 'i': {
+      const [digits, next] = readUntil('e', offset + 1);
+      if (!/^-?\d+$/.test(digits)) {
+        throw new Error(`Invalid push notification: bad integer "${digits}"`);
+      }
+      return [Number(digits), next];
+    }
+    case 'l':
+    case 'd': {
+      const isList = data[offset] === 'l'.charCodeAt(0);
+      const items: BencodeValue[] = [];
+      let next = offset + 1;
+      while (data[next] !== 'e'.charCodeAt(0)) {
+        if (next >= data.length) {
+          throw new Error('Invalid push notification: truncated bencode');
+        }
+        let item: BencodeValue;
+        [item, next] = bdecode(data, next);
+        items.push(item);
+      }
+      if (isList) {
+        return [items, next + 1];
+      }
+      if (items.length % 2 !== 0) {
+        throw new Error('Invalid push notification: dict key without a value');
+      }
+      const dict: { [key: string]: BencodeValue } = {};
+      for (let i = 0; i < items.length; i += 2) {
+        if (!(items[i] instanceof Uint8Array)) {
+          throw new Error('Invalid push notification: dict keys must be strings');
+        }
+        dict[decoder.decode(items[i] as Uint8Array)] = items[i + 1];
+      }
+      return [dict, next + 1];
+    }
+    default: {
+      const [length, start] = readUntil(':', offset);
+      if (!/^\d+$/.test(length) || start + Number(length) > data.length) {
+        throw new Error('Invalid push notification: bad string length');
+      }
+      return [data.slice(start, start + Number(length)), start + Number(length)];
+    }
+  }
+}
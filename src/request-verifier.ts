@@ -0,0 +1,454 @@
+import * as ed25519 from '@stablelib/ed25519';
+import { convertPublicKeyToX25519 } from '@stablelib/ed25519';
+import * as hex from '@stablelib/hex';
+import * as base64 from '@stablelib/base64';
+import { ApiRequest } from './postman-params';
+import { SubaccountPermission } from './subaccount-manager';
+import { namespaceSignaturePart, requiresSignature, validateNamespace } from './namespace-policy';
+
+export interface VerificationIssue {
+  /** Request field the problem was traced to (e.g. `signature`, `namespace`, `requests[2].timestamp`) */
+  field: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface VerificationReport {
+  method: string;
+  /** True when the request would pass signature and timestamp checks */
+  valid: boolean;
+  /** Whether this method (with these params) requires a signature */
+  signed: boolean;
+  /** Signing string the server reconstructs */
+  signingString?: string;
+  /** Where the verification key came from */
+  keySource?: 'pubkey' | 'pubkey_ed25519' | 'subaccount';
+  /** Verification key (hex) */
+  signingKey?: string;
+  issues: VerificationIssue[];
+  /** Per-request reports of a batch/sequence */
+  requests?: VerificationReport[];
+}
+
+export interface VerifyRequestOptions {
+  /** Reference time for staleness checks (defaults to Date.now()) */
+  now?: number;
+  /** Maximum accepted difference between a signed timestamp and now */
+  timestampWindowMs?: number;
+}
+
+interface MethodSpec {
+  /** Namespace part of the signing string, formatted the way the server does */
+  namespace?: (params: any) => string;
+  build: (params: any, namespace: string) => string;
+  /** Timestamps that must be close to the server clock */
+  freshFields?: (params: any) => string[];
+  /** Subaccount permission bits the method needs */
+  permission: (params: any) => number;
+  /** Some namespaces accept the method without a signature */
+  unsigned?: (params: any) => boolean;
+  /** The method takes namespace "all" */
+  allNamespaces?: boolean;
+}
+
+const DEFAULT_TIMESTAMP_WINDOW_MS = 60000;
+
+// Numeric fields that can end up in a signing string; used to spot "signed the wrong timestamp"
+const NUMERIC_FIELDS = ['timestamp', 'sig_timestamp', 'expiry', 'before'];
+
+const hashes = (params: any) => Array.isArray(params.messages) ? params.messages.join('') : '';
+
+const METHOD_SPECS: Record<string, MethodSpec> = {
+  store: {
+    namespace: params => String(params.namespace ?? 0),
+    build: (params, namespace) => `store${namespace}${params.sig_timestamp ?? params.timestamp}`,
+    freshFields: params => [params.sig_timestamp !== undefined ? 'sig_timestamp' : 'timestamp'],
+    permission: () => SubaccountPermission.Write,
+    unsigned: params => !requiresSignature(params.namespace ?? 0, 'store')
+  },
+  retrieve: {
+    namespace: params => namespaceSignaturePart(params.namespace),
+    build: (params, namespace) => `retrieve${namespace}${params.timestamp}`,
+    freshFields: () => ['timestamp'],
+    permission: () => SubaccountPermission.Read,
+    unsigned: params => !requiresSignature(params.namespace ?? 0, 'retrieve')
+  },
+  delete: {
+    build: params => `delete${hashes(params)}`,
+    permission: () => SubaccountPermission.Delete
+  },
+  delete_all: {
+    namespace: params => namespaceSignaturePart(params.namespace),
+    build: (params, namespace) => `delete_all${namespace}${params.timestamp}`,
+    freshFields: () => ['timestamp'],
+    permission: () => SubaccountPermission.Delete,
+    allNamespaces: true
+  },
+  delete_before: {
+    namespace: params => params.namespace === undefined ? 'all' : String(params.namespace),
+    build: (params, namespace) => `delete_before${namespace}${params.before}`,
+    permission: () => SubaccountPermission.Delete,
+    allNamespaces: true
+  },
+  expire: {
+    build: params => `expire${params.shorten ? 'shorten' : params.extend ? 'extend' : ''}${params.expiry}${hashes(params)}`,
+    permission: params => params.shorten
+      ? SubaccountPermission.Delete
+      : params.extend ? SubaccountPermission.Write : SubaccountPermission.Write | SubaccountPermission.Delete
+  },
+  expire_all: {
+    namespace: params => namespaceSignaturePart(params.namespace),
+    build: (params, namespace) => `expire_all${namespace}${params.expiry}`,
+    permission: () => SubaccountPermission.Delete,
+    allNamespaces: true
+  },
+  get_messages: {
+    build: params => `get_messages${params.timestamp}`,
+    freshFields: () => ['timestamp'],
+    permission: () => SubaccountPermission.Read
+  },
+  get_expiries: {
+    build: params => `get_expiries${params.timestamp}${hashes(params)}`,
+    freshFields: () => ['timestamp'],
+    permission: () => SubaccountPermission.Read
+  },
+  update: {
+    build: params => `update${params.timestamp}${hashes(params)}${params.data}`,
+    freshFields: () => ['timestamp'],
+    permission: () => SubaccountPermission.Write
+  },
+  revoke_subaccount: {
+    build: params => `revoke_subaccount${params.revoke}`,
+    permission: () => 0
+  },
+  unrevoke_subaccount: {
+    build: params => `unrevoke_subaccount${params.timestamp}${Array.isArray(params.unrevoke) ? params.unrevoke.join('') : ''}`,
+    freshFields: () => ['timestamp'],
+    permission: () => 0
+  },
+  revoked_subaccounts: {
+    build: params => `revoked_subaccounts${params.timestamp}`,
+    freshFields: () => ['timestamp'],
+    permission: () => 0
+  }
+};
+
+const UNSIGNED_METHODS = new Set(['get_swarm', 'info', 'get_stats', 'get_bstats', 'oxend_request', 'get_version']);
+
+/**
+ * Check a `{ method, params }` request the way a storage server would and explain failures
+ * Accepts generator output or JSON pasted from Postman; batch/sequence sub-requests are checked individually
+ */
+export function verifyRequest(request: ApiRequest | string, options: VerifyRequestOptions = {}): VerificationReport {
+  let parsed: any = request;
+  if (typeof request === 'string') {
+    try {
+      parsed = JSON.parse(request);
+    } catch {
+      return invalid('unknown', 'body', 'request is not valid JSON');
+    }
+  }
+  if (!parsed || typeof parsed.method !== 'string') {
+    return invalid('unknown', 'method', 'request has no method');
+  }
+
+  const method: string = parsed.method;
+  const params = parsed.params ?? {};
+
+  if (method === 'batch' || method === 'sequence') {
+    return verifyBatch(method, params, options);
+  }
+
+  const spec = METHOD_SPECS[method];
+  if (!spec) {
+    const known = UNSIGNED_METHODS.has(method);
+    return {
+      method,
+      valid: known,
+      signed: false,
+      issues: known ? [] : [{ field: 'method', severity: 'error', message: `unknown method "${method}"` }]
+    };
+  }
+
+  // The namespace decides whether a signature is needed, so it is checked first
+  if (params.namespace === 'all' && !spec.allNamespaces) {
+    return invalid(method, 'namespace', `${method} takes a single namespace, not "all"`);
+  }
+  if (params.namespace !== undefined && params.namespace !== 'all') {
+    try {
+      validateNamespace(params.namespace);
+    } catch (error) {
+      return invalid(method, 'namespace', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const report: VerificationReport = { method, valid: false, signed: !spec.unsigned?.(params), issues: [] };
+  const error = (field: string, message: string) => report.issues.push({ field, severity: 'error', message });
+  const warning = (field: string, message: string) => report.issues.push({ field, severity: 'warning', message });
+
+  if (typeof params.pubkey !== 'string' || !/^[0-9a-fA-F]{66}$/.test(params.pubkey)) {
+    error('pubkey', 'expected 66 hex characters: a 2-digit network prefix followed by the 32-byte key');
+    return finish(report);
+  }
+
+  if (!report.signed) {
+    if (params.signature !== undefined) {
+      warning('signature', `${method} to namespace ${params.namespace ?? 0} does not need a signature; it is ignored`);
+    }
+    return finish(report);
+  }
+
+  checkTimestamps(spec, params, options, warning, error);
+
+  const namespace = spec.namespace?.(params) ?? '';
+  report.signingString = spec.build(params, namespace);
+
+  const ownerKey = resolveOwnerKey(params, error);
+  if (!ownerKey) {
+    return finish(report);
+  }
+
+  let signingKey = ownerKey.key;
+  report.keySource = ownerKey.source;
+  if (params.subaccount !== undefined) {
+    const tokenKey = checkSubaccount(params, ownerKey.key, spec.permission(params), error);
+    if (!tokenKey) {
+      return finish(report);
+    }
+    signingKey = tokenKey;
+    report.keySource = 'subaccount';
+  }
+  report.signingKey = hex.encode(signingKey, true);
+
+  if (typeof params.signature !== 'string') {
+    error('signature', `missing signature; ${method} must be signed over "${report.signingString}"`);
+    return finish(report);
+  }
+  const signature = decodeSignature(params.signature);
+  if (!signature) {
+    error('signature', 'signature must be a base64-encoded 64-byte Ed25519 signature');
+    return finish(report);
+  }
+
+  if (!verifies(signingKey, report.signingString, signature)) {
+    const diagnosis = diagnose(method, spec, params, namespace, signature, signingKey, ownerKey.key);
+    error(diagnosis.field, `signature does not verify over "${report.signingString}"${diagnosis.hint ? `: ${diagnosis.hint}` : ''}`);
+  }
+
+  return finish(report);
+}
+
+/**
+ * Render a report as human-readable lines
+ */
+export function formatVerificationReport(report: VerificationReport, indent: string = ''): string {
+  const lines = [
+    `${indent}${report.valid ? '✅' : '❌'} ${report.method}: ${report.signed ? 'signed' : 'unsigned'}${report.keySource ? ` (key from ${report.keySource})` : ''}`
+  ];
+  if (report.signingString !== undefined) {
+    lines.push(`${indent}   signing string: ${report.signingString}`);
+  }
+  for (const issue of report.issues) {
+    lines.push(`${indent}   ${issue.severity === 'error' ? 'error' : 'warning'} [${issue.field}]: ${issue.message}`);
+  }
+  for (const sub of report.requests ?? []) {
+    lines.push(formatVerificationReport(sub, `${indent}  `));
+  }
+  return lines.join('\n');
+}
+
+function verifyBatch(method: string, params: any, options: VerifyRequestOptions): VerificationReport {
+  const report: VerificationReport = { method, valid: false, signed: false, issues: [], requests: [] };
+  if (!Array.isArray(params.requests) || params.requests.length === 0) {
+    report.issues.push({ field: 'requests', severity: 'error', message: 'requests must be a non-empty array' });
+    return finish(report);
+  }
+
+  params.requests.forEach((sub: any, index: number) => {
+    const subReport = sub?.method === 'batch' || sub?.method === 'sequence'
+      ? invalid(sub.method, 'method', 'nested batch/sequence requests are not allowed')
+      : verifyRequest(sub, options);
+    report.requests!.push(subReport);
+    for (const issue of subReport.issues) {
+      report.issues.push({ ...issue, field: `requests[${index}].${issue.field}` });
+    }
+  });
+  return finish(report);
+}
+
+function checkTimestamps(
+  spec: MethodSpec,
+  params: any,
+  options: VerifyRequestOptions,
+  warning: (field: string, message: string) => void,
+  error: (field: string, message: string) => void
+): void {
+  const now = options.now ?? Date.now();
+  const window = options.timestampWindowMs ?? DEFAULT_TIMESTAMP_WINDOW_MS;
+
+  for (const field of spec.freshFields?.(params) ?? []) {
+    const value = params[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      error(field, `${field} must be a millisecond timestamp`);
+      continue;
+    }
+    const skew = value - now;
+    if (Math.abs(skew) > window) {
+      error(field, `${field} is ${formatSkew(skew)} the server clock (allowed ±${window / 1000}s); regenerate the request`);
+    } else if (value < 1e12) {
+      warning(field, `${field} looks like seconds; the storage server expects milliseconds`);
+    }
+  }
+
+  if (typeof params.expiry === 'number' && params.expiry < now) {
+    warning('expiry', `expiry is ${Math.round((now - params.expiry) / 1000)}s in the past`);
+  }
+}
+
+function resolveOwnerKey(
+  params: any,
+  error: (field: string, message: string) => void
+): { key: Uint8Array; source: 'pubkey' | 'pubkey_ed25519' } | undefined {
+  const pubkey: string = params.pubkey.toLowerCase();
+  if (!pubkey.startsWith('05')) {
+    if (params.pubkey_ed25519 !== undefined) {
+      error('pubkey_ed25519', 'pubkey_ed25519 is only used with 05-prefixed Session ID pubkeys');
+    }
+    return { key: hex.decode(pubkey.slice(2)), source: 'pubkey' };
+  }
+
+  if (typeof params.pubkey_ed25519 !== 'string' || !/^[0-9a-fA-F]{64}$/.test(params.pubkey_ed25519)) {
+    error('pubkey_ed25519', '05-prefixed pubkeys need pubkey_ed25519 (64 hex characters) to verify signatures');
+    return undefined;
+  }
+  const key = hex.decode(params.pubkey_ed25519);
+  if (hex.encode(convertPublicKeyToX25519(key), true) !== pubkey.slice(2)) {
+    error('pubkey_ed25519', 'pubkey_ed25519 does not convert to the X25519 key in pubkey');
+    return undefined;
+  }
+  return { key, source: 'pubkey_ed25519' };
+}
+
+function checkSubaccount(
+  params: any,
+  ownerKey: Uint8Array,
+  permission: number,
+  error: (field: string, message: string) => void
+): Uint8Array | undefined {
+  if (typeof params.subaccount !== 'string' || !/^[0-9a-fA-F]{72}$/.test(params.subaccount)) {
+    error('subaccount', 'subaccount token must be 36 bytes (72 hex characters)');
+    return undefined;
+  }
+  const token = hex.decode(params.subaccount);
+
+  const tokenSignature = typeof params.subaccount_sig === 'string' ? decodeSignature(params.subaccount_sig) : undefined;
+  if (!tokenSignature || !ed25519.verify(ownerKey, token, tokenSignature)) {
+    error('subaccount_sig', 'subaccount_sig is not the account owner\'s signature of the token bytes');
+    return undefined;
+  }
+
+  const permissions = token[1];
+  if (permission === 0) {
+    error('subaccount', 'subaccounts cannot manage subaccount revocations');
+    return undefined;
+  }
+  if ((permissions & permission) !== permission) {
+    error('subaccount', `token permissions ${permissions} lack required bits ${permission}`);
+    return undefined;
+  }
+  const networkPrefix = parseInt(params.pubkey.slice(0, 2), 16);
+  if (!(permissions & SubaccountPermission.AnyPrefix) && token[0] !== networkPrefix) {
+    error('subaccount', `token network prefix ${token[0]} does not match pubkey prefix ${networkPrefix}`);
+    return undefined;
+  }
+  return token.slice(4);
+}
+
+/**
+ * Find which field the signature was actually made over by trying likely mistakes
+ */
+function diagnose(
+  method: string,
+  spec: MethodSpec,
+  params: any,
+  namespace: string,
+  signature: Uint8Array,
+  signingKey: Uint8Array,
+  ownerKey: Uint8Array
+): { field: string; hint?: string } {
+  const expected = spec.build(params, namespace);
+
+  // Right string, wrong key
+  const keys: Array<[string, Uint8Array | undefined, string]> = [
+    ['subaccount', ownerKey, 'it was signed by the account owner; subaccount requests are signed with the blinded subaccount key'],
+    ['pubkey', /^[0-9a-fA-F]{64}$/.test(params.pubkey_ed25519 ?? '') ? hex.decode(params.pubkey_ed25519) : undefined, 'it verifies against pubkey_ed25519'],
+    ['pubkey', hex.decode(params.pubkey.slice(2)), 'it verifies against the key in pubkey']
+  ];
+  for (const [field, key, hint] of keys) {
+    if (key && !equal(key, signingKey) && verifies(key, expected, signature)) {
+      return { field, hint };
+    }
+  }
+
+  // Namespace formatted differently (e.g. 0 included or "all" missing)
+  if (spec.namespace) {
+    for (const candidate of ['', '0', 'all', String(params.namespace ?? '')]) {
+      if (candidate !== namespace && verifies(signingKey, spec.build(params, candidate), signature)) {
+        return { field: 'namespace', hint: `it covers namespace "${candidate}" but the server uses "${namespace}"` };
+      }
+    }
+  }
+
+  // A different numeric field was signed (e.g. timestamp instead of sig_timestamp)
+  for (const field of NUMERIC_FIELDS.filter(name => params[name] !== undefined)) {
+    for (const other of NUMERIC_FIELDS.filter(name => name !== field && typeof params[name] === 'number')) {
+      const variant = { ...params, [field]: params[other] };
+      if (params[other] !== params[field] && verifies(signingKey, spec.build(variant, namespace), signature)) {
+        return { field, hint: `it covers ${other} (${params[other]}) instead of ${field} (${params[field]})` };
+      }
+    }
+  }
+
+  // Signature made for another method
+  for (const [other, otherSpec] of Object.entries(METHOD_SPECS)) {
+    if (other !== method && verifies(signingKey, otherSpec.build(params, otherSpec.namespace?.(params) ?? ''), signature)) {
+      return { field: 'method', hint: `it is a ${other} signature` };
+    }
+  }
+
+  return { field: 'signature', hint: 'no field variation matches; the request was edited after signing or signed with another key' };
+}
+
+function verifies(key: Uint8Array, message: string, signature: Uint8Array): boolean {
+  try {
+    return ed25519.verify(key, new TextEncoder().encode(message), signature);
+  } catch {
+    return false;
+  }
+}
+
+function decodeSignature(signature: string): Uint8Array | undefined {
+  try {
+    const bytes = base64.decode(signature);
+    return bytes.length === 64 ? bytes : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function equal(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function formatSkew(skewMs: number): string {
+  return `${Math.round(Math.abs(skewMs) / 1000)}s ${skewMs < 0 ? 'behind' : 'ahead of'}`;
+}
+
+function invalid(method: string, field: string, message: string): VerificationReport {
+  return { method, valid: false, signed: false, issues: [{ field, severity: 'error', message }] };
+}
+
+function finish(report: VerificationReport): VerificationReport {
+  report.valid = !report.issues.some(issue => issue.severity === 'error');
+  return report;
+}
@@ -0,0 +1,350 @@
+import { StorageInvalidResponseError } from './errors';
+import {
+  AffectedHashes,
+  DecodedMessage,
+  DeleteNodeResult,
+  DeleteResult,
+  ExpireNodeResult,
+  ExpireResult,
+  GetExpiriesResult,
+  GetSwarmResult,
+  OxendRequestResult,
+  RetrievedMessage,
+  RetrieveResult,
+  RevokedSubaccountsResult,
+  StatsResult,
+  StoreNodeResult,
+  StoreResult,
+  SwarmNodeResult,
+  SwarmResult,
+  UpdateNodeResult,
+  UpdateResult,
+  VersionResult
+} from './types';
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+const ED25519_HEX = /^[0-9a-fA-F]{64}$/;
+
+/**
+ * Field checks for one response; every failure names the method and the path of the field
+ */
+class ResponseReader {
+  readonly method: string;
+  private body: unknown;
+
+  constructor(method: string, body: unknown) {
+    this.method = method;
+    this.body = body;
+  }
+
+  fail(path: string, message: string): never {
+    throw new StorageInvalidResponseError(this.method, path, message, this.body);
+  }
+
+  object(value: unknown, path: string): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(path, `must be an object, got ${describe(value)}`);
+    }
+    return value as Record<string, unknown>;
+  }
+
+  array(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value)) {
+      this.fail(path, `must be an array, got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  string(value: unknown, path: string): string {
+    if (typeof value !== 'string') {
+      this.fail(path, `must be a string, got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  number(value: unknown, path: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, `must be a number, got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  boolean(value: unknown, path: string): boolean {
+    if (typeof value !== 'boolean') {
+      this.fail(path, `must be a boolean, got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  optional<T>(value: unknown, path: string, read: (value: unknown, path: string) => T): T | undefined {
+    return value === undefined ? undefined : read.call(this, value, path);
+  }
+
+  strings(value: unknown, path: string): string[] {
+    return this.array(value, path).map((item, index) => this.string(item, `${path}[${index}]`));
+  }
+
+  numbers(value: unknown, path: string): number[] {
+    return this.array(value, path).map((item, index) => this.number(item, `${path}[${index}]`));
+  }
+
+  numberRecord(value: unknown, path: string): Record<string, number> {
+    const record = this.object(value, path);
+    Object.entries(record).forEach(([key, item]) => this.number(item, `${path}.${key}`));
+    return record as Record<string, number>;
+  }
+
+  hashes(value: unknown, path: string): AffectedHashes {
+    if (Array.isArray(value)) {
+      return this.strings(value, path);
+    }
+    const byNamespace = this.object(value, path);
+    Object.entries(byNamespace).forEach(([namespace, hashes]) => this.strings(hashes, `${path}.${namespace}`));
+    return byNamespace as Record<string, string[]>;
+  }
+
+  /**
+   * Check the hf/t fields most results carry
+   */
+  networkFields(result: Record<string, unknown>): void {
+    this.optional(result.hf, 'hf', this.numbers);
+    this.optional(result.t, 't', this.number);
+  }
+
+  /**
+   * Check a swarm-wide result: one entry per snode, either a failure or a signed node result
+   */
+  swarm<T extends SwarmNodeResult>(value: unknown, readNode: (node: Record<string, unknown>, path: string) => void): SwarmResult<T> {
+    const result = this.object(value, 'result');
+    const swarm = this.object(result.swarm, 'swarm');
+    for (const [pubkey, entry] of Object.entries(swarm)) {
+      const path = `swarm.${pubkey}`;
+      if (!ED25519_HEX.test(pubkey)) {
+        this.fail(path, 'must be keyed by a 64 hex character snode pubkey');
+      }
+      const node = this.object(entry, path);
+      if (this.optional(node.failed, `${path}.failed`, this.boolean)) {
+        this.optional(node.code, `${path}.code`, this.number);
+        this.optional(node.reason, `${path}.reason`, this.string);
+        continue;
+      }
+      this.string(node.signature, `${path}.signature`);
+      readNode(node, path);
+    }
+    this.networkFields(result);
+    return result as unknown as SwarmResult<T>;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Validate a store result: per-snode hash and signature, plus the message hash
+ */
+export function parseStoreResult(body: unknown, method: string = 'store'): StoreResult {
+  const reader = new ResponseReader(method, body);
+  const result = reader.swarm<StoreNodeResult>(body, (node, path) => {
+    reader.string(node.hash, `${path}.hash`);
+    reader.optional(node.t, `${path}.t`, reader.number);
+    reader.optional(node.already, `${path}.already`, reader.boolean);
+  });
+  reader.optional((result as StoreResult).hash, 'hash', reader.string);
+  return result as StoreResult;
+}
+
+/**
+ * Validate a retrieve result: messages with hash, timestamp, expiration and base64 data
+ */
+export function parseRetrieveResult(body: unknown, method: string = 'retrieve'): RetrieveResult {
+  const reader = new ResponseReader(method, body);
+  const result = reader.object(body, 'result');
+  reader.array(result.messages, 'messages').forEach((item, index) => {
+    const path = `messages[${index}]`;
+    const message = reader.object(item, path);
+    reader.string(message.hash, `${path}.hash`);
+    reader.number(message.timestamp, `${path}.timestamp`);
+    reader.number(message.expiration, `${path}.expiration`);
+    if (!BASE64.test(reader.string(message.data, `${path}.data`))) {
+      reader.fail(`${path}.data`, 'must be base64');
+    }
+  });
+  reader.optional(result.more, 'more', reader.boolean);
+  reader.networkFields(result);
+  return result as unknown as RetrieveResult;
+}
+
+/**
+ * Validate a delete, delete_all or delete_before result: the hashes each snode deleted
+ */
+export function parseDeleteResult(body: unknown, method: string = 'delete'): DeleteResult {
+  const reader = new ResponseReader(method, body);
+  return reader.swarm<DeleteNodeResult>(body, (node, path) => {
+    reader.hashes(node.deleted, `${path}.deleted`);
+  });
+}
+
+/**
+ * Validate an expire or expire_all result: the hashes each snode updated and the new expiry
+ */
+export function parseExpireResult(body: unknown, method: string = 'expire'): ExpireResult {
+  const reader = new ResponseReader(method, body);
+  return reader.swarm<ExpireNodeResult>(body, (node, path) => {
+    reader.hashes(node.updated, `${path}.updated`);
+    reader.optional(node.unchanged, `${path}.unchanged`, reader.numberRecord);
+    reader.optional(node.expiry, `${path}.expiry`, reader.number);
+  });
+}
+
+/**
+ * Validate an update result: the hashes each snode updated
+ */
+export function parseUpdateResult(body: unknown, method: string = 'update'): UpdateResult {
+  const reader = new ResponseReader(method, body);
+  return reader.swarm<UpdateNodeResult>(body, (node, path) => {
+    reader.strings(node.updated, `${path}.updated`);
+  });
+}
+
+/**
+ * Validate a revoke_subaccount or unrevoke_subaccount result: signed per-snode acknowledgements
+ */
+export function parseSwarmResult(body: unknown, method: string = 'revoke_subaccount'): SwarmResult {
+  return new ResponseReader(method, body).swarm(body, () => undefined);
+}
+
+/**
+ * Validate a get_expiries result: the expiry of each hash
+ */
+export function parseGetExpiriesResult(body: unknown, method: string = 'get_expiries'): GetExpiriesResult {
+  const reader = new ResponseReader(method, body);
+  const result = reader.object(body, 'result');
+  reader.numberRecord(result.expiries, 'expiries');
+  reader.networkFields(result);
+  return result as unknown as GetExpiriesResult;
+}
+
+/**
+ * Validate a get_swarm result: the snodes of the swarm with their address, ports and pubkeys
+ */
+export function parseGetSwarmResult(body: unknown, method: string = 'get_swarm'): GetSwarmResult {
+  const reader = new ResponseReader(method, body);
+  const result = reader.object(body, 'result');
+  reader.array(result.snodes, 'snodes').forEach((item, index) => {
+    const path = `snodes[${index}]`;
+    const snode = reader.object(item, path);
+    reader.string(snode.ip, `${path}.ip`);
+    if (typeof snode.port !== 'number') {
+      reader.string(snode.port, `${path}.port`);
+    }
+    for (const port of ['port_https', 'port_omq', 'port_quic'] as const) {
+      reader.optional(snode[port], `${path}.${port}`, reader.number);
+    }
+    for (const key of ['pubkey_ed25519', 'pubkey_x25519'] as const) {
+      if (!ED25519_HEX.test(reader.string(snode[key], `${path}.${key}`))) {
+        reader.fail(`${path}.${key}`, 'must be 64 hex characters');
+      }
+    }
+    reader.optional(snode.pubkey_legacy, `${path}.pubkey_legacy`, reader.string);
+    reader.optional(snode.address, `${path}.address`, reader.string);
+  });
+  reader.optional(result.swarm, 'swarm', reader.string);
+  reader.networkFields(result);
+  return result as unknown as GetSwarmResult;
+}
+
+/**
+ * Validate a revoked_subaccounts result: the revoked tokens
+ */
+export function parseRevokedSubaccountsResult(body: unknown, method: string = 'revoked_subaccounts'): RevokedSubaccountsResult {
+  const reader = new ResponseReader(method, body);
+  const result = reader.object(body, 'result');
+  reader.strings(result.revoked, 'revoked');
+  reader.optional(result.t, 't', reader.number);
+  return result as unknown as RevokedSubaccountsResult;
+}
+
+/**
+ * Validate a get_version result: the version numbers
+ */
+export function parseVersionResult(body: unknown, method: string = 'get_version'): VersionResult {
+  const reader = new ResponseReader(method, body);
+  const result = reader.object(body, 'result');
+  reader.numbers(result.version, 'version');
+  reader.networkFields(result);
+  return result as unknown as VersionResult;
+}
+
+/**
+ * Validate a get_stats result: an object whose modelled counters are numbers
+ */
+export function parseStatsResult(body: unknown, method: string = 'get_stats'): StatsResult {
+  const reader = new ResponseReader(method, body);
+  const result = reader.object(body, 'result');
+  if (typeof result.version !== 'string') {
+    reader.optional(result.version, 'version', reader.numbers);
+  }
+  for (const field of ['timestamp', 'client_store_requests', 'client_retrieve_requests', 'total_stored'] as const) {
+    reader.optional(result[field], field, reader.number);
+  }
+  return result as StatsResult;
+}
+
+/**
+ * Validate an oxend_request result: the object oxend returned
+ */
+export function parseOxendRequestResult(body: unknown, method: string = 'oxend_request'): OxendRequestResult {
+  return new ResponseReader(method, body).object(body, 'result');
+}
+
+/**
+ * Parser of each RPC with a typed result model
+ */
+export const RESPONSE_PARSERS: Record<string, (body: unknown, method: string) => unknown> = {
+  store: parseStoreResult,
+  retrieve: parseRetrieveResult,
+  delete: parseDeleteResult,
+  delete_all: parseDeleteResult,
+  delete_before: parseDeleteResult,
+  expire: parseExpireResult,
+  expire_all: parseExpireResult,
+  update: parseUpdateResult,
+  get_expiries: parseGetExpiriesResult,
+  get_swarm: parseGetSwarmResult,
+  revoke_subaccount: parseSwarmResult,
+  unrevoke_subaccount: parseSwarmResult,
+  revoked_subaccounts: parseRevokedSubaccountsResult,
+  get_version: parseVersionResult,
+  get_stats: parseStatsResult,
+  oxend_request: parseOxendRequestResult
+};
+
+/**
+ * Validate the result of an RPC against its model
+ * Results of methods without a model (batch, get_bstats, ...) are returned unchanged
+ */
+export function parseResponse<T = unknown>(method: string, body: unknown): T {
+  const parse = RESPONSE_PARSERS[method];
+  return (parse ? parse(body, method) : body) as T;
+}
+
+/**
+ * Decode the base64 data of a retrieved message
+ */
+export function decodeMessageData(message: RetrievedMessage): Uint8Array {
+  if (!BASE64.test(message.data)) {
+    throw new StorageInvalidResponseError('retrieve', `message ${message.hash}`, 'data must be base64', message);
+  }
+  return new Uint8Array(Buffer.from(message.data, 'base64'));
+}
+
+/**
+ * Decode the data of every message of a retrieve result
+ */
+export function decodeMessages(result: RetrieveResult): DecodedMessage[] {
+  return result.messages.map(message => ({ ...message, bytes: decodeMessageData(message) }));
+}
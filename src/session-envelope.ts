@@ -0,0 +1,252 @@
+import * as ed25519 from '@stablelib/ed25519';
+import { convertPublicKeyToX25519 } from '@stablelib/ed25519';
+import * as hex from '@stablelib/hex';
+import * as base64 from '@stablelib/base64';
+import sodium from 'libsodium-wrappers-sumo';
+import { CryptoUtils } from './crypto';
+
+// SignalService.Envelope.Type.SESSION_MESSAGE
+export const SESSION_MESSAGE_ENVELOPE_TYPE = 6;
+
+// Session pads message content to a multiple of this many bytes before encrypting
+const PADDING_BLOCK_SIZE = 160;
+
+export interface OpenedSessionMessage {
+  plaintext: Uint8Array;
+  /** 05-prefixed Session ID of the sender */
+  senderSessionId: string;
+  /** Sender's Ed25519 pubkey (hex) the signature was verified against */
+  senderEd25519: string;
+  /** Envelope timestamp in milliseconds */
+  timestamp?: number;
+}
+
+/**
+ * Get the raw X25519 pubkey of a 05-prefixed Session ID
+ */
+export function sessionIdToX25519(sessionId: string): Uint8Array {
+  if (!/^05[0-9a-fA-F]{64}$/.test(sessionId)) {
+    throw new Error(`Invalid Session ID: expected 05 followed by 64 hex characters, got ${sessionId}`);
+  }
+  return hex.decode(sessionId.slice(2));
+}
+
+/**
+ * Seal a payload for a Session ID the way Session clients do:
+ * crypto_box_seal(plaintext || sender_ed25519 || sig) where sig signs plaintext || sender_ed25519 || recipient_x25519
+ */
+export async function sealForSessionId(plaintext: Uint8Array, recipientSessionId: string, sender: CryptoUtils): Promise<Uint8Array> {
+  await sodium.ready;
+  const recipientX25519 = sessionIdToX25519(recipientSessionId);
+  const senderEd25519 = sender.getEd25519KeyPair().publicKey;
+
+  const signature = ed25519.sign(sender.getEd25519KeyPair().secretKey, concat(plaintext, senderEd25519, recipientX25519));
+  return sodium.crypto_box_seal(concat(plaintext, senderEd25519, signature), recipientX25519);
+}
+
+/**
+ * Open a sealed payload with the recipient's keys and verify the sender's Ed25519 signature
+ */
+export async function openSealedMessage(ciphertext: Uint8Array, recipient: CryptoUtils): Promise<OpenedSessionMessage> {
+  await sodium.ready;
+  const recipientX25519 = recipient.getX25519PublicKey();
+
+  let opened: Uint8Array;
+  try {
+    opened = sodium.crypto_box_seal_open(ciphertext, recipientX25519, recipient.getX25519SecretKey());
+  } catch {
+    throw new Error('Failed to decrypt message: not sealed for this Session ID');
+  }
+  if (opened.length < 32 + 64) {
+    throw new Error('Failed to decrypt message: sealed payload is too short');
+  }
+
+  const signature = opened.slice(opened.length - 64);
+  const senderEd25519 = opened.slice(opened.length - 96, opened.length - 64);
+  const plaintext = opened.slice(0, opened.length - 96);
+
+  if (!ed25519.verify(senderEd25519, concat(plaintext, senderEd25519, recipientX25519), signature)) {
+    throw new Error('Invalid message: sender signature does not verify');
+  }
+
+  return {
+    plaintext,
+    senderSessionId: `05${hex.encode(convertPublicKeyToX25519(senderEd25519), true)}`,
+    senderEd25519: hex.encode(senderEd25519, true)
+  };
+}
+
+/**
+ * Pad content with 0x80 followed by zeros up to the next multiple of 160 bytes
+ */
+export function addMessagePadding(content: Uint8Array): Uint8Array {
+  const padded = new Uint8Array((Math.floor((content.length + 1) / PADDING_BLOCK_SIZE) + 1) * PADDING_BLOCK_SIZE);
+  padded.set(content, 0);
+  padded[content.length] = 0x80;
+  return padded;
+}
+
+/**
+ * Strip padding added by addMessagePadding
+ */
+export function removeMessagePadding(padded: Uint8Array): Uint8Array {
+  for (let i = padded.length - 1; i >= 0; i--) {
+    if (padded[i] === 0x80) {
+      return padded.slice(0, i);
+    }
+    if (padded[i] !== 0x00) {
+      break;
+    }
+  }
+  throw new Error('Invalid message padding');
+}
+
+/**
+ * Wrap sealed content in the protobuf framing Session stores in a swarm:
+ * WebSocketMessage { type: REQUEST, request: { verb: "PUT", path: "/api/v1/message", body: Envelope } }
+ * Envelope { type: SESSION_MESSAGE, timestamp, content }
+ */
+export function wrapSessionEnvelope(content: Uint8Array, timestamp: number): Uint8Array {
+  const envelope = concat(
+    varintField(1, SESSION_MESSAGE_ENVELOPE_TYPE),
+    varintField(5, timestamp),
+    bytesField(8, content)
+  );
+  const request = concat(
+    bytesField(1, new TextEncoder().encode('PUT')),
+    bytesField(2, new TextEncoder().encode('/api/v1/message')),
+    bytesField(3, envelope)
+  );
+  return concat(varintField(1, 1), bytesField(2, request));
+}
+
+/**
+ * Extract the envelope from data produced by wrapSessionEnvelope
+ */
+export function unwrapSessionEnvelope(data: Uint8Array): { type: number; timestamp: number; content: Uint8Array } {
+  const request = readFields(data).get(2);
+  const envelope = request instanceof Uint8Array ? readFields(request).get(3) : undefined;
+  if (!(envelope instanceof Uint8Array)) {
+    throw new Error('Invalid message: missing envelope');
+  }
+
+  const fields = readFields(envelope);
+  const content = fields.get(8);
+  if (!(content instanceof Uint8Array)) {
+    throw new Error('Invalid message: envelope has no content');
+  }
+  return {
+    type: Number(fields.get(1) ?? 0),
+    timestamp: Number(fields.get(5) ?? 0),
+    content
+  };
+}
+
+/**
+ * Encrypt data for a Session ID and return it base64-encoded, ready for the `data` field of store
+ */
+export async function encryptSessionMessage(
+  data: string | Uint8Array,
+  recipientSessionId: string,
+  sender: CryptoUtils,
+  timestamp: number = Date.now()
+): Promise<string> {
+  const plaintext = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const sealed = await sealForSessionId(addMessagePadding(plaintext), recipientSessionId, sender);
+  return base64.encode(wrapSessionEnvelope(sealed, timestamp));
+}
+
+/**
+ * Decrypt the base64 `data` of a retrieved message addressed to `recipient`
+ */
+export async function decryptSessionMessage(data: string, recipient: CryptoUtils): Promise<OpenedSessionMessage> {
+  const envelope = unwrapSessionEnvelope(base64.decode(data));
+  if (envelope.type !== SESSION_MESSAGE_ENVELOPE_TYPE) {
+    throw new Error(`Unsupported envelope type: ${envelope.type}`);
+  }
+  const opened = await openSealedMessage(envelope.content, recipient);
+  return { ...opened, plaintext: removeMessagePadding(opened.plaintext), timestamp: envelope.timestamp };
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// Minimal protobuf encoding: only varint (wire type 0) and length-delimited (wire type 2) fields are needed
+
+function varint(value: number | bigint): Uint8Array {
+  const bytes: number[] = [];
+  let remaining = BigInt(value);
+  do {
+    let byte = Number(remaining & 0x7fn);
+    remaining >>= 7n;
+    if (remaining > 0n) {
+      byte |= 0x80;
+    }
+    bytes.push(byte);
+  } while (remaining > 0n);
+  return new Uint8Array(bytes);
+}
+
+function varintField(field: number, value: number): Uint8Array {
+  return concat(varint(field << 3), varint(value));
+}
+
+function bytesField(field: number, value: Uint8Array): Uint8Array {
+  return concat(varint((field << 3) | 2), varint(value.length), value);
+}
+
+function readFields(data: Uint8Array): Map<number, bigint | Uint8Array> {
+  const fields = new Map<number, bigint | Uint8Array>();
+  let offset = 0;
+
+  const readVarint = (): bigint => {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      if (offset >= data.length) {
+        throw new Error('Invalid message: truncated protobuf');
+      }
+      const byte = data[offset++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        return result;
+      }
+      shift += 7n;
+    }
+  };
+
+  while (offset < data.length) {
+    const key = Number(readVarint());
+    const field = key >> 3;
+    switch (key & 7) {
+      case 0:
+        fields.set(field, readVarint());
+        break;
+      case 1:
+        offset += 8;
+        break;
+      case 2: {
+        const length = Number(readVarint());
+        if (offset + length > data.length) {
+          throw new Error('Invalid message: truncated protobuf');
+        }
+        fields.set(field, data.slice(offset, offset + length));
+        offset += length;
+        break;
+      }
+      case 5:
+        offset += 4;
+        break;
+      default:
+        throw new Error(`Invalid message: unsupported protobuf wire type ${key & 7}`);
+    }
+  }
+  return fields;
+}
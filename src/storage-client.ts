@@ -0,0 +1,275 @@
+import axios, { AxiosInstance } from 'axios';
+import * as https from 'https';
+import { CryptoUtils } from './crypto';
+import { ApiRequest, PostmanParamsGenerator } from './postman-params';
+import { createStorageRpcError, StorageNetworkError } from './errors';
+import { parseResponse } from './response-parser';
+import { BatchRequestBuilder, BatchResults } from './batch-builder';
+import { ONION_REQ_PATH, OnionEncryptionType, OnionHop, OnionRequestBuilder } from './onion-request';
+import {
+  StorageResponse,
+  StoreResult,
+  RetrieveResult,
+  DeleteResult,
+  ExpireResult,
+  UpdateResult,
+  GetExpiriesResult,
+  GetSwarmResult,
+  SwarmResult,
+  RevokedSubaccountsResult,
+  VersionResult,
+  StatsResult,
+  OxendRequestResult,
+  BatchResult
+} from './types';
+
+export const STORAGE_RPC_PATH = '/storage_rpc/v1';
+
+export interface StorageClientOptions {
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Accept self-signed certificates (service nodes do not use CA-signed certs) */
+  allowSelfSigned?: boolean;
+}
+
+/**
+ * HTTP client for the Oxen storage RPC
+ * Builds each request with PostmanParamsGenerator and POSTs it to `<baseUrl>/storage_rpc/v1`
+ */
+export class StorageClient {
+  private http: AxiosInstance;
+  private generator: PostmanParamsGenerator;
+
+  constructor(baseUrl: string, generator: PostmanParamsGenerator | CryptoUtils, options: StorageClientOptions = {}) {
+    this.generator = generator instanceof CryptoUtils
+      ? PostmanParamsGenerator.fromCrypto(generator)
+      : generator;
+
+    this.http = axios.create({
+      baseURL: baseUrl.replace(/\/+$/, ''),
+      timeout: options.timeout ?? 10000,
+      headers: { 'Content-Type': 'application/json' },
+      // Error statuses are decoded by send() instead of being thrown by axios
+      validateStatus: () => true,
+      ...(options.allowSelfSigned && { httpsAgent: new https.Agent({ rejectUnauthorized: false }) })
+    });
+  }
+
+  /**
+   * Get the generator used to build requests
+   */
+  getGenerator(): PostmanParamsGenerator {
+    return this.generator;
+  }
+
+  /**
+   * POST a prepared request and return its result
+   * Throws a StorageRpcError subclass for error statuses, `error` bodies or results that do not match
+   * the method's model
+   */
+  async send<T = unknown>(request: ApiRequest): Promise<T> {
+    let response;
+    try {
+      response = await this.http.post(STORAGE_RPC_PATH, request);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new StorageNetworkError(request.method, message, error);
+    }
+
+    return this.decodeResponse<T>(request.method, response.status, response.data);
+  }
+
+  /**
+   * Send a request through an onion path instead of directly
+   * This client's base URL is used as the entry node and must belong to path[0];
+   * only the last node of the path sees the request
+   */
+  async sendOnion<T = unknown>(request: ApiRequest, path: OnionHop[], encType?: OnionEncryptionType): Promise<T> {
+    const builder = new OnionRequestBuilder(path, encType);
+    const onion = await builder.build(request);
+
+    let response;
+    try {
+      response = await this.http.post(ONION_REQ_PATH, Buffer.from(onion.payload), {
+        headers: { 'Content-Type': 'application/octet-stream' },
+        responseType: 'text'
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new StorageNetworkError(request.method, message, error);
+    }
+
+    // Errors raised by a relay are returned in plain text by the entry node
+    if (response.status < 200 || response.status >= 300) {
+      throw createStorageRpcError(request.method, response.status, String(response.data));
+    }
+
+    const { status, body } = await builder.decryptResponse(response.data, onion);
+    return this.decodeResponse<T>(request.method, status, body);
+  }
+
+  /**
+   * Send the sub-requests collected by a BatchRequestBuilder as one batch/sequence call
+   */
+  async sendBatch(builder: BatchRequestBuilder): Promise<BatchResults> {
+    const response = await this.send<BatchResult>(builder.build());
+    return builder.parse(response);
+  }
+
+  /**
+   * Store a message
+   */
+  store(data: string, ttl?: number, namespace?: number): Promise<StoreResult> {
+    return this.send<StoreResult>(this.generator.getStoreParams(data, ttl, namespace));
+  }
+
+  /**
+   * Encrypt a message for another Session ID and store it in that account
+   */
+  async storeEncrypted(data: string, recipientSessionId: string, ttl?: number, namespace?: number): Promise<StoreResult> {
+    return this.send<StoreResult>(await this.generator.getEncryptedStoreParams(data, recipientSessionId, ttl, namespace));
+  }
+
+  /**
+   * Retrieve messages newer than lastHash
+   */
+  retrieve(lastHash?: string, namespace?: number, maxCount?: number, maxSize?: number): Promise<RetrieveResult> {
+    return this.send<RetrieveResult>(this.generator.getRetrieveParams(lastHash, namespace, maxCount, maxSize));
+  }
+
+  /**
+   * Delete specific messages
+   */
+  delete(messages: string[], required?: boolean): Promise<DeleteResult> {
+    return this.send<DeleteResult>(this.generator.getDeleteParams(messages, required));
+  }
+
+  /**
+   * Delete all messages in a namespace ('all' for every namespace)
+   */
+  deleteAll(namespace?: number | 'all'): Promise<DeleteResult> {
+    return this.send<DeleteResult>(this.generator.getDeleteAllParams(namespace));
+  }
+
+  /**
+   * Delete all messages with a timestamp <= before (all namespaces when namespace is omitted)
+   */
+  deleteBefore(before: number, namespace?: number | 'all'): Promise<DeleteResult> {
+    return this.send<DeleteResult>(this.generator.getDeleteBeforeParams(before, namespace));
+  }
+
+  /**
+   * Replace the data of a stored message
+   */
+  update(newData: string, messageHash: string): Promise<UpdateResult> {
+    return this.send<UpdateResult>(this.generator.getUpdateParams(newData, messageHash));
+  }
+
+  /**
+   * Shorten or extend the expiry of specific messages
+   */
+  expire(messages: string[], expiry: number, shorten?: boolean, extend?: boolean): Promise<ExpireResult> {
+    return this.send<ExpireResult>(this.generator.getExpireMsgsParams(messages, expiry, shorten, extend));
+  }
+
+  /**
+   * Shorten the expiry of all messages
+   */
+  expireAll(expiry: number, namespace?: number | string): Promise<ExpireResult> {
+    return this.send<ExpireResult>(this.generator.getExpireAllParams(expiry, namespace));
+  }
+
+  /**
+   * Get the current expiry of specific messages
+   */
+  getExpiries(messages: string[]): Promise<GetExpiriesResult> {
+    return this.send<GetExpiriesResult>(this.generator.getExpiriesParams(messages));
+  }
+
+  /**
+   * Get the swarm responsible for this account
+   */
+  getSwarm(): Promise<GetSwarmResult> {
+    return this.send<GetSwarmResult>(this.generator.getSwarmParams());
+  }
+
+  /**
+   * Align the generator's clock with the node's: get_swarm returns the node time `t`, which is
+   * taken to match the local clock halfway through the request; returns the new clock offset
+   */
+  async syncClock(): Promise<number> {
+    const sentAt = this.generator.now() - this.generator.getClockOffset();
+    const { t } = await this.getSwarm();
+    if (typeof t !== 'number') {
+      throw new Error('get_swarm response has no node time (t)');
+    }
+    const receivedAt = this.generator.now() - this.generator.getClockOffset();
+    return this.generator.syncClock(t, Math.round((sentAt + receivedAt) / 2));
+  }
+
+  /**
+   * Revoke a subaccount token
+   */
+  revokeSubaccount(subaccountToken: string): Promise<SwarmResult> {
+    return this.send<SwarmResult>(this.generator.getRevokeSubaccountParams(subaccountToken));
+  }
+
+  /**
+   * Remove subaccount tokens from the revocation list
+   */
+  unrevokeSubaccounts(subaccountTokens: string[]): Promise<SwarmResult> {
+    return this.send<SwarmResult>(this.generator.getUnrevokeSubaccountParams(subaccountTokens));
+  }
+
+  /**
+   * List the revoked subaccount tokens
+   */
+  getRevokedSubaccounts(): Promise<RevokedSubaccountsResult> {
+    return this.send<RevokedSubaccountsResult>(this.generator.getRevokedSubaccountsParams());
+  }
+
+  /**
+   * Get the storage server version
+   */
+  getVersion(): Promise<VersionResult> {
+    return this.send<VersionResult>(this.generator.getVersionParams());
+  }
+
+  /**
+   * Get storage server statistics
+   */
+  getStats(): Promise<StatsResult> {
+    return this.send<StatsResult>(this.generator.getStatsParams());
+  }
+
+  /**
+   * Proxy a whitelisted request to oxend
+   */
+  oxendRequest(endpoint: string, params: Record<string, unknown> = {}): Promise<OxendRequestResult> {
+    return this.send<OxendRequestResult>(this.generator.getOxendRequestParams(endpoint, params));
+  }
+
+  /**
+   * Map an HTTP status and body to the RPC result or a typed error
+   * Results are checked against the method's model (see response-parser)
+   */
+  private decodeResponse<T>(method: string, status: number, body: any): T {
+    if (status < 200 || status >= 300) {
+      const message = typeof body === 'string'
+        ? body
+        : body?.error?.message ?? JSON.stringify(body);
+      throw createStorageRpcError(method, status, message, body);
+    }
+
+    const storageResponse = body as StorageResponse;
+    if (storageResponse && typeof storageResponse === 'object' && storageResponse.error) {
+      throw createStorageRpcError(method, storageResponse.error.code, storageResponse.error.message, body);
+    }
+
+    // Service nodes return the result object directly; wrapped `{ result }` bodies are unwrapped
+    const result = storageResponse && typeof storageResponse === 'object' && 'result' in storageResponse
+      ? storageResponse.result
+      : body;
+    return parseResponse<T>(method, result);
+  }
+}
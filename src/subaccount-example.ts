@@ -37,18 +37,23 @@ console.log('Subaccount Token Breakdown:');
 console.log('  - Network Prefix (1 byte):', delegation.subaccountToken.substring(0, 2));
 console.log('  - Permissions (1 byte):', delegation.subaccountToken.substring(2, 4));
 console.log('  - Reserved (2 bytes):', delegation.subaccountToken.substring(4, 8));
-console.log('  - Ed25519 Pubkey (32 bytes):', delegation.subaccountToken.substring(8, 72));
+console.log('  - Blinded Ed25519 Pubkey (32 bytes):', delegation.subaccountToken.substring(8, 72));
 console.log('Subaccount Signature (owner signs token):', delegation.subaccountSignature);
 console.log();
 
-// Step 4: Verify the subaccount token contains the correct pubkey
+// Step 4: Verify the subaccount token contains the blinded pubkey
 console.log('4. VERIFY SUBACCOUNT TOKEN');
 const tokenBytes = hex.decode(delegation.subaccountToken);
 const tokenPubkey = tokenBytes.slice(4, 36); // Skip prefix, permissions, reserved bytes
 const tokenPubkeyHex = hex.encode(tokenPubkey);
-console.log('Token contains pubkey:', tokenPubkeyHex);
-console.log('Expected pubkey:', targetUserPubkeyHex);
-console.log('Match:', tokenPubkeyHex === targetUserPubkeyHex);
+const expectedBlindedPubkeyHex = hex.encode(CryptoUtils.blindSubaccountPubkey(
+    accountOwner.getOwnerEd25519Pubkey(),
+    hex.decode(targetUserPubkeyHex)
+));
+console.log('Token contains blinded pubkey:', tokenPubkeyHex);
+console.log('Expected blinded pubkey:', expectedBlindedPubkeyHex);
+console.log('Match:', tokenPubkeyHex === expectedBlindedPubkeyHex);
+console.log('Reveals real pubkey:', tokenPubkeyHex === targetUserPubkeyHex);
 console.log();
 
 // Step 5: Subaccount User Signs API Requests
@@ -96,13 +101,21 @@ console.log('Delete Request:');
 console.log(convertToJSON(deleteRequest));
 console.log();
 
-// Step 6: Account Owner Can Revoke Subaccount
+// Step 6: Account Owner Can Revoke, Audit and Restore Subaccounts
 console.log('6. ACCOUNT OWNER REVOKES SUBACCOUNT');
 const revokeRequest = accountOwner.getRevokeSubaccountParams(delegation.subaccountToken);
 console.log('Revoke Request:');
 console.log(convertToJSON(revokeRequest));
 console.log();
 
+console.log('Revoked Subaccounts Request:');
+console.log(convertToJSON(accountOwner.getRevokedSubaccountsParams()));
+console.log();
+
+console.log('Unrevoke Request:');
+console.log(convertToJSON(accountOwner.getUnrevokeSubaccountParams([delegation.subaccountToken])));
+console.log();
+
 // Step 7: Show Different Permission Levels
 console.log('7. PERMISSION LEVELS');
 const permissions = [
@@ -0,0 +1,209 @@
+import * as hex from '@stablelib/hex';
+import { ApiRequest, PostmanParamsGenerator } from './postman-params';
+import { UnrevokeSubaccountParams } from './types';
+
+/**
+ * Subaccount permission bits stored in byte 1 of the token
+ */
+export const SubaccountPermission = {
+  Read: 1,
+  Write: 2,
+  Delete: 4,
+  AnyPrefix: 8
+} as const;
+
+export interface SubaccountRecord {
+  token: string;
+  signature: string;
+  targetPubkey: string;
+  permissions: number;
+  networkPrefix: number;
+  label?: string;
+  issuedAt: number;
+  revoked: boolean;
+  revokedAt?: number;
+}
+
+/**
+ * Decode the permission bits of a subaccount token
+ */
+export function describeSubaccountPermissions(permissions: number): {
+  read: boolean;
+  write: boolean;
+  delete: boolean;
+  anyPrefix: boolean;
+} {
+  return {
+    read: (permissions & SubaccountPermission.Read) !== 0,
+    write: (permissions & SubaccountPermission.Write) !== 0,
+    delete: (permissions & SubaccountPermission.Delete) !== 0,
+    anyPrefix: (permissions & SubaccountPermission.AnyPrefix) !== 0
+  };
+}
+
+/**
+ * Decode a subaccount token: network prefix, permissions, 2 reserved bytes and the blinded pubkey
+ */
+export function decodeSubaccountToken(subaccountToken: string): Uint8Array {
+  if (!/^[0-9a-fA-F]{72}$/.test(subaccountToken)) {
+    throw new Error('Invalid subaccount token: expected 36 bytes (72 hex characters)');
+  }
+  return hex.decode(subaccountToken);
+}
+
+/**
+ * Check that a subaccount token grants the permission bits a method needs before anything is signed,
+ * so a delegate gets a clear error instead of a 401 from the server
+ */
+export function assertSubaccountPermission(subaccountToken: string, required: number, method: string): void {
+  const permissions = decodeSubaccountToken(subaccountToken)[1];
+  const granted = describeSubaccountPermissions(permissions);
+  const missing = Object.entries(describeSubaccountPermissions(required))
+    .filter(([name, needed]) => needed && !granted[name as keyof typeof granted])
+    .map(([name]) => name);
+  if (missing.length > 0) {
+    throw new Error(`Subaccount token cannot ${method}: it lacks ${missing.join(' and ')} permission (token permissions: ${permissions})`);
+  }
+}
+
+/**
+ * Local registry of subaccount tokens issued by an account owner
+ * Tracks permissions and revocation state so admins can audit and restore delegated access
+ */
+export class SubaccountManager {
+  private generator: PostmanParamsGenerator;
+  private records = new Map<string, SubaccountRecord>();
+
+  constructor(generator: PostmanParamsGenerator) {
+    this.generator = generator;
+  }
+
+  /**
+   * Issue a new subaccount token for a target Ed25519 pubkey and record it
+   * The token's network prefix defaults to the prefix of the account pubkey the generator signs for
+   * (05 in Session ID mode, 03 for a group admin, 00 otherwise), so delegate requests address the same account
+   */
+  issue(targetPubkeyHex: string, permissions: number = SubaccountPermission.Read, networkPrefix?: number, label?: string): SubaccountRecord {
+    networkPrefix ??= parseInt(this.generator.getAuthStrategy().getPubkey().slice(0, 2), 16);
+    const delegation = this.generator.generateSubaccountDelegation(targetPubkeyHex, permissions, networkPrefix);
+    const record: SubaccountRecord = {
+      token: delegation.subaccountToken,
+      signature: delegation.subaccountSignature,
+      targetPubkey: targetPubkeyHex,
+      permissions,
+      networkPrefix,
+      issuedAt: this.generator.now(),
+      revoked: false,
+      ...(label !== undefined && { label })
+    };
+    this.records.set(this.key(record.token), record);
+    return record;
+  }
+
+  /**
+   * Get a recorded subaccount by token
+   */
+  get(token: string): SubaccountRecord | undefined {
+    return this.records.get(this.key(token));
+  }
+
+  /**
+   * List recorded subaccounts, optionally filtered by revocation state
+   */
+  list(filter: { revoked?: boolean } = {}): SubaccountRecord[] {
+    return [...this.records.values()].filter(
+      record => filter.revoked === undefined || record.revoked === filter.revoked
+    );
+  }
+
+  /**
+   * Forget a recorded subaccount (does not revoke it on the server)
+   */
+  remove(token: string): boolean {
+    return this.records.delete(this.key(token));
+  }
+
+  /**
+   * Build the revoke_subaccount request and mark the token as revoked
+   */
+  revoke(token: string): ApiRequest {
+    const record = this.require(token);
+    const request = this.generator.getRevokeSubaccountParams(record.token);
+    record.revoked = true;
+    record.revokedAt = this.generator.now();
+    return request;
+  }
+
+  /**
+   * Build a single unrevoke_subaccount request for a batch of tokens and mark them as active
+   */
+  unrevoke(tokens: string[]): ApiRequest<UnrevokeSubaccountParams> {
+    const records = tokens.map(token => this.require(token));
+    const request = this.generator.getUnrevokeSubaccountParams(records.map(record => record.token));
+    for (const record of records) {
+      record.revoked = false;
+      delete record.revokedAt;
+    }
+    return request;
+  }
+
+  /**
+   * Build the revoked_subaccounts listing request
+   */
+  listRevokedRequest(): ApiRequest {
+    return this.generator.getRevokedSubaccountsParams();
+  }
+
+  /**
+   * Reconcile local state with the revocation list returned by revoked_subaccounts
+   * Returns the tokens the server reports as revoked that were not issued through this manager
+   */
+  syncRevoked(revokedTokens: string[]): string[] {
+    const revoked = new Set(revokedTokens.map(token => this.key(token)));
+    const now = this.generator.now();
+
+    for (const [key, record] of this.records) {
+      if (revoked.has(key) && !record.revoked) {
+        record.revoked = true;
+        record.revokedAt = now;
+      } else if (!revoked.has(key) && record.revoked) {
+        record.revoked = false;
+        delete record.revokedAt;
+      }
+    }
+
+    return revokedTokens.filter(token => !this.records.has(this.key(token)));
+  }
+
+  /**
+   * Export the records as plain JSON-serializable objects
+   */
+  toJSON(): SubaccountRecord[] {
+    return this.list().map(record => ({ ...record }));
+  }
+
+  /**
+   * Restore previously exported records
+   */
+  load(records: SubaccountRecord[]): void {
+    for (const record of records) {
+      const bytes = hex.decode(record.token);
+      if (bytes.length !== 36) {
+        throw new Error(`Invalid subaccount token length: ${bytes.length} bytes`);
+      }
+      this.records.set(this.key(record.token), { ...record });
+    }
+  }
+
+  private require(token: string): SubaccountRecord {
+    const record = this.get(token);
+    if (!record) {
+      throw new Error(`Unknown subaccount token: ${token}`);
+    }
+    return record;
+  }
+
+  private key(token: string): string {
+    return token.toLowerCase();
+  }
+}
@@ -0,0 +1,177 @@
+import { ApiRequest, PostmanParamsGenerator } from './postman-params';
+import { StorageClient, StorageClientOptions } from './storage-client';
+import { StorageNetworkError, StorageWrongSwarmError } from './errors';
+import { GetSwarmResult, SnodeInfo } from './types';
+
+export const DEFAULT_SWARM_TTL_MS = 10 * 60 * 1000;
+
+export interface SwarmResolverOptions {
+  /** Base URLs of nodes asked for get_swarm when a pubkey's swarm is not cached */
+  seedNodes?: string[];
+  /** How long a resolved swarm is reused before get_swarm is called again */
+  ttlMs?: number;
+  /** Scheme used to reach swarm members (service nodes serve https) */
+  protocol?: 'http' | 'https';
+  /** Options for the per-node StorageClient instances */
+  client?: StorageClientOptions;
+  /** Clock used for cache expiry (defaults to Date.now) */
+  now?: () => number;
+  /** Random source used to pick the first node to contact (defaults to Math.random) */
+  random?: () => number;
+}
+
+interface CachedSwarm {
+  snodes: SnodeInfo[];
+  expiresAt: number;
+}
+
+/**
+ * Resolves the swarm of a pubkey with get_swarm and routes requests to its members
+ * Swarms are cached per pubkey; unreachable nodes are dropped and 421 responses replace the
+ * cached swarm with the one returned by the node, then the request is retried on another member
+ */
+export class SwarmResolver {
+  private generator: PostmanParamsGenerator;
+  private seedNodes: string[];
+  private ttlMs: number;
+  private protocol: 'http' | 'https';
+  private clientOptions: StorageClientOptions;
+  private now: () => number;
+  private random: () => number;
+  private swarms = new Map<string, CachedSwarm>();
+  private clients = new Map<string, StorageClient>();
+
+  constructor(generator: PostmanParamsGenerator, options: SwarmResolverOptions = {}) {
+    this.generator = generator;
+    this.seedNodes = options.seedNodes ?? [];
+    this.ttlMs = options.ttlMs ?? DEFAULT_SWARM_TTL_MS;
+    this.protocol = options.protocol ?? 'https';
+    this.clientOptions = options.client ?? { allowSelfSigned: this.protocol === 'https' };
+    this.now = options.now ?? Date.now;
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Get the swarm of a pubkey, calling get_swarm on a seed node when it is not cached or expired
+   */
+  async getSwarm(pubkey: string, forceRefresh: boolean = false): Promise<SnodeInfo[]> {
+    const cached = this.swarms.get(pubkey.toLowerCase());
+    if (cached && !forceRefresh && cached.expiresAt > this.now()) {
+      return [...cached.snodes];
+    }
+
+    if (this.seedNodes.length === 0) {
+      throw new Error(`No cached swarm for ${pubkey} and no seed nodes configured`);
+    }
+
+    const request: ApiRequest<{ pubkey: string }> = { method: 'get_swarm', params: { pubkey } };
+    let lastError: unknown;
+    for (const seed of this.rotate(this.seedNodes)) {
+      try {
+        const result = await this.getClient(seed).send<GetSwarmResult>(request);
+        return this.setSwarm(pubkey, result.snodes);
+      } catch (error) {
+        // Any seed can answer get_swarm, so only connection failures move on to the next one
+        if (!(error instanceof StorageNetworkError)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Cache a swarm for a pubkey (e.g. a known node list or the swarm of a 421 response)
+   * Members without a usable address are skipped
+   */
+  setSwarm(pubkey: string, snodes: SnodeInfo[]): SnodeInfo[] {
+    const reachable = snodes.filter(snode => snode.ip && snode.ip !== '0.0.0.0');
+    if (reachable.length === 0) {
+      throw new Error(`Swarm for ${pubkey} has no reachable nodes`);
+    }
+    this.swarms.set(pubkey.toLowerCase(), { snodes: reachable, expiresAt: this.now() + this.ttlMs });
+    return [...reachable];
+  }
+
+  /**
+   * Forget the cached swarm of a pubkey, or of every pubkey
+   */
+  invalidate(pubkey?: string): void {
+    if (pubkey === undefined) {
+      this.swarms.clear();
+    } else {
+      this.swarms.delete(pubkey.toLowerCase());
+    }
+  }
+
+  /**
+   * Get the base URL used to reach a swarm member
+   */
+  getNodeUrl(snode: SnodeInfo): string {
+    const port = this.protocol === 'https' ? snode.port_https ?? snode.port : snode.port;
+    return `${this.protocol}://${snode.ip}:${port}`;
+  }
+
+  /**
+   * Send a request to a member of the swarm of its pubkey, failing over to the other members
+   */
+  async send<T = unknown>(request: ApiRequest): Promise<T> {
+    const pubkey = request.params?.pubkey;
+    if (typeof pubkey !== 'string') {
+      throw new Error(`Cannot route ${request.method}: request has no pubkey`);
+    }
+
+    const tried = new Set<string>();
+    let lastError: unknown;
+    let candidates = this.rotate(await this.getSwarm(pubkey));
+
+    for (;;) {
+      const snode = candidates.find(candidate => !tried.has(candidate.pubkey_ed25519.toLowerCase()));
+      if (!snode) {
+        throw lastError ?? new Error(`No reachable node in the swarm of ${pubkey}`);
+      }
+      tried.add(snode.pubkey_ed25519.toLowerCase());
+
+      try {
+        return await this.getClient(this.getNodeUrl(snode)).send<T>(request);
+      } catch (error) {
+        if (error instanceof StorageWrongSwarmError && Array.isArray(error.swarm?.snodes) && error.swarm.snodes.length > 0) {
+          candidates = this.rotate(this.setSwarm(pubkey, error.swarm.snodes));
+        } else if (error instanceof StorageNetworkError || error instanceof StorageWrongSwarmError) {
+          candidates = candidates.filter(candidate => candidate !== snode);
+          this.evict(pubkey, snode);
+        } else {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+  }
+
+  private evict(pubkey: string, snode: SnodeInfo): void {
+    const cached = this.swarms.get(pubkey.toLowerCase());
+    if (!cached) {
+      return;
+    }
+    cached.snodes = cached.snodes.filter(member => member.pubkey_ed25519.toLowerCase() !== snode.pubkey_ed25519.toLowerCase());
+    if (cached.snodes.length === 0) {
+      this.swarms.delete(pubkey.toLowerCase());
+    }
+  }
+
+  private getClient(baseUrl: string): StorageClient {
+    let client = this.clients.get(baseUrl);
+    if (!client) {
+      client = new StorageClient(baseUrl, this.generator, this.clientOptions);
+      this.clients.set(baseUrl, client);
+    }
+    return client;
+  }
+
+  // Start at a random member so load is spread across the swarm, keeping the remaining order
+  private rotate<T>(items: T[]): T[] {
+    const start = Math.floor(this.random() * items.length) % Math.max(items.length, 1);
+    return [...items.slice(start), ...items.slice(0, start)];
+  }
+}
@@ -1,48 +1,8 @@
-import { decode } from '@session.js/mnemonic';
-import * as ed25519 from '@stablelib/ed25519';
-import { mnemonicToSeedSync, generateMnemonic } from '@scure/bip39';
+import * as hex from '@stablelib/hex';
+import { generateMnemonic } from '@scure/bip39';
 import { wordlist } from '@scure/bip39/wordlists/english';
+import { CryptoUtils } from './crypto';
 
-import { convertPublicKeyToX25519 } from '@stablelib/ed25519';
-
-function seedPhraseToBytes(seedPhrase: string): Uint8Array {
-    // Use Session.js mnemonic decode function
-    const seedHex = decode(seedPhrase);
-    
-    // Convert hex string to Uint8Array and pad to 32 bytes
-    const seed = new Uint8Array(32);
-    for (let i = 0; i < seedHex.length && i < 64; i += 2) {
-        seed[i / 2] = parseInt(seedHex.substr(i, 2), 16);
-    }
-    
-    // Fill remaining bytes with zeros if needed
-    for (let i = seedHex.length / 2; i < 32; i++) {
-        seed[i] = 0;
-    }
-    
-    return seed;
-}
-
-/**
- * Convert a seed to a Session ID (05-prefixed X25519 public key)
- * @param seed 32-byte seed
- * @returns Session ID as hex string
- */
-function seedToSessionId(seed: Uint8Array): string {
-    // Create CryptoUtils instance from seed
-    const ed25519KeyPair = ed25519.generateKeyPairFromSeed(seed);
-    
-    // Get X25519 public key (which is what Session IDs use)
-    const x25519Pubkey = convertPublicKeyToX25519(ed25519KeyPair.publicKey);
-
-    
-    // Convert to hex and add 05 prefix
-    const pubkeyHex = Array.from(x25519Pubkey)
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-    
-    return `05${pubkeyHex}`;
-}
 /**
  * Test function for Session.js 13-word seed phrase conversion
  */
@@ -53,14 +13,19 @@ function test_session_seed() {
         console.log('Seed phrase:', seedPhrase);
         console.log('Word count:', seedPhrase.split(' ').length);
         
-        // Convert to bytes using Session.js mnemonic decode
-        const seed = seedPhraseToBytes(seedPhrase);
-        console.log('Seed (hex):', Array.from(seed).map(b => b.toString(16).padStart(2, '0')).join(''));
+        // Decode the phrase (checksum included) into a key pair
+        const crypto = CryptoUtils.fromSessionMnemonic(seedPhrase);
+        console.log('Seed (hex):', hex.encode(crypto.getSeed(), true));
         
         // Convert to Session ID
-        const sessionId = seedToSessionId(seed);
+        const sessionId = `05${crypto.getX25519PublicKeyHex().toLowerCase()}`;
         console.log('Session ID:', sessionId);
         
+        // Export back to a phrase
+        if (crypto.toSessionMnemonic() !== seedPhrase) {
+            throw new Error('Exported mnemonic should match the original phrase');
+        }
+        
         // Verify it starts with 05
         if (!sessionId.startsWith('05')) {
             throw new Error('Session ID should start with 05');
@@ -84,20 +49,16 @@ function test_any_seed() {
         console.log('Generated 12-word seed phrase:', seedPhrase);
         console.log('Word count:', seedPhrase.split(' ').length);
         
-        // Convert BIP39 mnemonic to seed using BIP39 library
-        const seed = mnemonicToSeedSync(seedPhrase);
-        console.log('Seed (hex):', Array.from(seed).map(b => b.toString(16).padStart(2, '0')).join(''));
-        
-        // Create Ed25519 keypair from seed
-        const ed25519KeyPair = ed25519.generateKeyPairFromSeed(seed.slice(0, 32));
+        // Derive the key pair from the BIP39 seed
+        const crypto = CryptoUtils.fromBip39Mnemonic(seedPhrase);
+        console.log('Seed (hex):', hex.encode(crypto.getSeed(), true));
         
         // Get Ed25519 public key
-        const ed25519PubkeyHex = Array.from(ed25519KeyPair.publicKey).map(b => b.toString(16).padStart(2, '0')).join('');
+        const ed25519PubkeyHex = crypto.getPublicKeyHex().toLowerCase();
         console.log('Ed25519 public key:', ed25519PubkeyHex);
         
         // Get X25519 public key
-        const x25519Pubkey = convertPublicKeyToX25519(ed25519KeyPair.publicKey);
-        const x25519PubkeyHex = Array.from(x25519Pubkey).map(b => b.toString(16).padStart(2, '0')).join('');
+        const x25519PubkeyHex = crypto.getX25519PublicKeyHex().toLowerCase();
         console.log('X25519 public key:', x25519PubkeyHex);
         
         // Create Session ID (05 + X25519 public key)
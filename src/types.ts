@@ -3,8 +3,8 @@ export interface StorageRequest {
   params: any;
 }
 
-export interface StorageResponse {
-  result?: any;
+export interface StorageResponse<T = unknown> {
+  result?: T;
   error?: {
     code: number;
     message: string;
@@ -58,23 +58,49 @@ export interface DeleteAllParams {
   subaccount_sig?: string;
 }
 
+export interface DeleteBeforeParams {
+  pubkey: string;
+  namespace?: number | 'all';
+  before: number;
+  signature: string;
+  pubkey_ed25519?: string;
+  subaccount?: string;
+  subaccount_sig?: string;
+}
+
 export interface UpdateParams {
   pubkey: string;
   messages: string[];
   data: string;
+  timestamp?: number;
   signature: string;
   pubkey_ed25519?: string;
   subaccount?: string;
   subaccount_sig?: string;
 }
 
+export interface UnrevokeSubaccountParams {
+  pubkey: string;
+  unrevoke: string[];
+  timestamp: number;
+  signature: string;
+  pubkey_ed25519?: string;
+}
+
+export interface RevokedSubaccountsParams {
+  pubkey: string;
+  timestamp: number;
+  signature: string;
+  pubkey_ed25519?: string;
+}
+
 export interface SwarmParams {
   pubkey: string;
 }
 
 export interface OxendRequestParams {
   endpoint: string;
-  params?: any;
+  params?: Record<string, unknown>;
 }
 
 export interface BatchRequest {
@@ -84,6 +110,13 @@ export interface BatchRequest {
   }>;
 }
 
+export interface BatchResult {
+  results: Array<{
+    code: number;
+    body: any;
+  }>;
+}
+
 export interface KeyPair {
   publicKey: Uint8Array;
   secretKey: Uint8Array;
@@ -118,14 +151,161 @@ export interface PushSubscribeParams {
 
 export interface PushUnsubscribeParams {
   pubkey: string;
-  session_ed25519: string;
+  session_ed25519?: string;
   subaccount?: string;
   subaccount_sig?: string;
   sig_ts: number;
   signature: string;
+  /** Service and device of the subscription to remove */
+  service: string;
+  service_info: PushSubscribeParams['service_info'];
+}
+
+/**
+ * Body returned by the push server for /subscribe and /unsubscribe
+ * On failure `error` holds the server's error code and `message` describes it
+ */
+export interface PushServerResult {
+  success?: boolean;
+  added?: boolean;
+  updated?: boolean;
+  removed?: boolean;
+  error?: number;
+  message?: string;
 }
 
 export interface PushNotificationRequest<T = any> {
   method: string;
   params: T;
-} 
\ No newline at end of file
+}
+
+// Storage RPC Result Types
+export interface SnodeInfo {
+  address?: string;
+  ip: string;
+  port: string | number;
+  port_https?: number;
+  port_omq?: number;
+  port_quic?: number;
+  pubkey_ed25519: string;
+  pubkey_legacy?: string;
+  pubkey_x25519: string;
+}
+
+export interface GetSwarmResult {
+  hf?: number[];
+  snodes: SnodeInfo[];
+  swarm?: string;
+  t?: number;
+}
+
+export interface RetrievedMessage {
+  hash: string;
+  timestamp: number;
+  expiration: number;
+  data: string;
+}
+
+/**
+ * A retrieved message with its base64 data decoded
+ */
+export interface DecodedMessage extends RetrievedMessage {
+  bytes: Uint8Array;
+}
+
+export interface RetrieveResult {
+  messages: RetrievedMessage[];
+  more?: boolean;
+  hf?: number[];
+  t?: number;
+}
+
+/**
+ * Per-snode entry of a swarm-wide response, keyed by the snode's Ed25519 pubkey
+ * Nodes that could not serve the request set `failed`; the others sign their part of the result
+ */
+export interface SwarmNodeResult {
+  failed?: boolean;
+  code?: number;
+  reason?: string;
+  timeout?: boolean;
+  bad_peer_response?: boolean;
+  query_failure?: boolean;
+  signature?: string;
+}
+
+export interface SwarmResult<T extends SwarmNodeResult = SwarmNodeResult> {
+  swarm: Record<string, T>;
+  hf?: number[];
+  t?: number;
+}
+
+export interface StoreNodeResult extends SwarmNodeResult {
+  hash?: string;
+  t?: number;
+  already?: boolean;
+}
+
+export interface StoreResult extends SwarmResult<StoreNodeResult> {
+  hash?: string;
+}
+
+/**
+ * Hashes affected by a request: a flat list, or lists keyed by namespace when it covered all namespaces
+ */
+export type AffectedHashes = string[] | Record<string, string[]>;
+
+export interface DeleteNodeResult extends SwarmNodeResult {
+  deleted?: AffectedHashes;
+}
+
+export interface DeleteResult extends SwarmResult<DeleteNodeResult> {}
+
+export interface ExpireNodeResult extends SwarmNodeResult {
+  updated?: AffectedHashes;
+  unchanged?: Record<string, number>;
+  expiry?: number;
+}
+
+export interface ExpireResult extends SwarmResult<ExpireNodeResult> {}
+
+export interface UpdateNodeResult extends SwarmNodeResult {
+  updated?: string[];
+}
+
+export interface UpdateResult extends SwarmResult<UpdateNodeResult> {}
+
+export interface GetExpiriesResult {
+  expiries: Record<string, number>;
+  hf?: number[];
+  t?: number;
+}
+
+export interface RevokedSubaccountsResult {
+  revoked: string[];
+  t?: number;
+}
+
+export interface VersionResult {
+  /** Storage server version as [major, minor, patch] */
+  version: number[];
+  hf?: number[];
+  t?: number;
+}
+
+/**
+ * Request counters of the storage server; fields vary between versions, so only the common ones are modelled
+ */
+export interface StatsResult {
+  version?: string | number[];
+  timestamp?: number;
+  client_store_requests?: number;
+  client_retrieve_requests?: number;
+  total_stored?: number;
+  [field: string]: unknown;
+}
+
+/**
+ * Result of the oxend call forwarded by oxend_request, as returned by oxend
+ */
+export type OxendRequestResult = Record<string, unknown>;
@@ -0,0 +1,142 @@
+import * as hex from '@stablelib/hex';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { AuthStrategy, OwnerEd25519AuthStrategy, SessionIdAuthStrategy, SubaccountAuthStrategy } from '../src/auth-strategy';
+import { SubaccountManager, SubaccountPermission } from '../src/subaccount-manager';
+import { verifyRequest } from '../src/request-verifier';
+import { MockStorageServer } from '../src/mock-storage-server';
+import { StorageClient } from '../src/storage-client';
+
+const OWNER_SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+const SUBACCOUNT_SEED = hex.decode('2466D62FFF7246D201B111FEE08F4B9DCE7CD9303436CA3555E84BF99A0CEE19');
+
+describe('auth strategies', () => {
+  const owner = new PostmanParamsGenerator(OWNER_SEED);
+  const subaccountUser = PostmanParamsGenerator.createSubaccountUser(SUBACCOUNT_SEED);
+  const record = new SubaccountManager(owner).issue(subaccountUser.getPublicKeyHex(), SubaccountPermission.Read | SubaccountPermission.Write | SubaccountPermission.Delete, 0);
+  const subaccount = new SubaccountAuthStrategy(owner.getOwnerEd25519Pubkey(), record.token, record.signature, subaccountUser);
+  const delegation = owner.generateSubaccountDelegation(subaccountUser.getPublicKeyHex(), SubaccountPermission.Read | SubaccountPermission.Write | SubaccountPermission.Delete);
+  const sessionSubaccount = new SubaccountAuthStrategy(owner.getOwnerEd25519Pubkey(), delegation.subaccountToken, delegation.subaccountSignature, subaccountUser);
+
+  const modes: [string, PostmanParamsGenerator, string][] = [
+    ['owner', owner, 'pubkey'],
+    ['Session ID', new PostmanParamsGenerator(OWNER_SEED, true), 'pubkey_ed25519'],
+    ['subaccount', owner.withAuthStrategy(subaccount), 'subaccount'],
+    ['Session ID subaccount', owner.withAuthStrategy(sessionSubaccount), 'subaccount']
+  ];
+
+  it.each(modes)('signs every storage method in %s mode', (_mode, generator, keySource) => {
+    const expiry = generator.now() + 3600000;
+    const requests = [
+      generator.getStoreParams('hi', 86400000, 1),
+      generator.getRetrieveParams(undefined, 1),
+      generator.getDeleteParams(['hash']),
+      generator.getDeleteAllParams(1),
+      generator.getDeleteBeforeParams(expiry, 'all'),
+      generator.getUpdateParams('updated', 'hash'),
+      generator.getExpiriesParams(['hash']),
+      generator.getExpireMsgsParams(['hash'], expiry, true),
+      generator.getExpireAllParams(expiry, 'all')
+    ];
+    for (const request of requests) {
+      expect(request.params.pubkey).toBe(generator.getAuthStrategy().getPubkey());
+      expect(verifyRequest(request)).toMatchObject({ valid: true, keySource });
+    }
+  });
+
+  it('picks the default strategy from Session ID mode', () => {
+    const generator = new PostmanParamsGenerator(OWNER_SEED);
+    expect(generator.getAuthStrategy()).toBeInstanceOf(OwnerEd25519AuthStrategy);
+    generator.setSessionIdMode(true);
+    expect(generator.getAuthStrategy()).toBeInstanceOf(SessionIdAuthStrategy);
+    expect(generator.getAuthStrategy().getPubkey()).toBe(generator.getX25519SessionId());
+  });
+
+  it('addresses the account on the network of the token prefix', () => {
+    expect(subaccount.getPubkey()).toBe(owner.getPublicKey());
+    expect(subaccount.getAuthFields().pubkey_ed25519).toBeUndefined();
+    expect(sessionSubaccount.getPubkey()).toBe(owner.getX25519SessionId());
+    expect(sessionSubaccount.getAuthFields().pubkey_ed25519).toBe(owner.getPublicKeyNoPrefix());
+    expect(sessionSubaccount.getPushAuthFields().session_ed25519).toBe(owner.getPublicKeyNoPrefix());
+    expect(owner.withAuthStrategy(sessionSubaccount).getSwarmParams().params.pubkey).toBe(owner.getX25519SessionId());
+
+    const anyPrefix = owner.generateSubaccountDelegation(subaccountUser.getPublicKeyHex(), SubaccountPermission.Read | SubaccountPermission.AnyPrefix);
+    const strategy = (networkPrefix?: number) => new SubaccountAuthStrategy(
+      owner.getOwnerEd25519Pubkey(), anyPrefix.subaccountToken, anyPrefix.subaccountSignature, subaccountUser, networkPrefix
+    );
+    expect(strategy().getPubkey()).toBe(owner.getX25519SessionId());
+    expect(strategy(0).getPubkey()).toBe(owner.getPublicKey());
+  });
+
+  it('keeps owner-only methods away from subaccounts', () => {
+    const delegate = owner.withAuthStrategy(subaccount);
+    expect(() => delegate.getRevokeSubaccountParams(record.token)).toThrow('Subaccount token cannot revoke_subaccount: only the account owner can');
+    expect(() => delegate.getRevokedSubaccountsParams()).toThrow('only the account owner can');
+  });
+
+  it('shares keys, clock and push enc_key with the generator it was derived from', () => {
+    const generator = new PostmanParamsGenerator(OWNER_SEED, false, { now: () => 1700000000000 });
+    const encKey = generator.getPushEncKey();
+    const delegate = generator.withAuthStrategy(subaccount);
+
+    expect(delegate.now()).toBe(1700000000000);
+    expect(delegate.getPublicKey()).toBe(generator.getPublicKey());
+    expect(delegate.getPushSubscribeParams([0]).enc_key).toBe(encKey);
+    expect(generator.getAuthStrategy()).toBeInstanceOf(OwnerEd25519AuthStrategy);
+  });
+
+  it('builds every request through a custom strategy', () => {
+    const signed: [string, number, string][] = [];
+    const custom: AuthStrategy = {
+      getPubkey: () => '03' + 'ab'.repeat(32),
+      getAuthFields: () => ({ pubkey_ed25519: 'cd'.repeat(32) }),
+      getPushAuthFields: () => ({ session_ed25519: 'cd'.repeat(32) }),
+      sign: (message, permission, method) => {
+        signed.push([message, permission, method]);
+        return 'signature';
+      }
+    };
+    const generator = new PostmanParamsGenerator(OWNER_SEED, false, { now: () => 1700000000000 });
+    generator.setAuthStrategy(custom);
+
+    expect(generator.getStoreParams('hi', 1000, 11).params).toMatchObject({
+      pubkey: custom.getPubkey(),
+      pubkey_ed25519: 'cd'.repeat(32),
+      signature: 'signature'
+    });
+    expect(generator.getPushUnsubscribeParams()).toMatchObject({ pubkey: custom.getPubkey(), session_ed25519: 'cd'.repeat(32) });
+    expect(signed).toEqual([
+      ['store111700000000000', SubaccountPermission.Write, 'store'],
+      [`UNSUBSCRIBE03${'ab'.repeat(32)}1700000000`, SubaccountPermission.Read, 'unsubscribe from push notifications']
+    ]);
+
+    generator.setAuthStrategy(undefined);
+    expect(generator.getStoreParams('hi', 1000, 11).params.pubkey).toBe(generator.getPublicKey());
+  });
+
+  describe('against the mock storage server', () => {
+    const server = new MockStorageServer();
+    const sessionOwner = new PostmanParamsGenerator(OWNER_SEED, true);
+    let client: StorageClient;
+
+    beforeAll(async () => {
+      client = new StorageClient(await server.start(), sessionOwner);
+    });
+
+    afterAll(() => server.stop());
+
+    it('stores with a default delegation from an owner in either mode', async () => {
+      const { subaccountToken, subaccountSignature } = owner.generateSubaccountDelegation(subaccountUser.getPublicKeyHex(), SubaccountPermission.Write);
+
+      for (const generator of [owner, sessionOwner]) {
+        const request = generator.getStoreParamsWithSubaccount(
+          `from ${generator.getSessionIdMode() ? 'session' : 'owner'}`, 86400000, 1, subaccountToken, subaccountSignature, subaccountUser
+        );
+        expect(request.params.pubkey).toBe(sessionOwner.getX25519SessionId());
+        await expect(client.send(request)).resolves.toHaveProperty('hash');
+      }
+
+      const { messages } = await client.retrieve(undefined, 1);
+      expect(messages.map(message => Buffer.from(message.data, 'base64').toString())).toEqual(['from owner', 'from session']);
+    });
+  });
+});
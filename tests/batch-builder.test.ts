@@ -0,0 +1,93 @@
+import * as hex from '@stablelib/hex';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { BatchRequestBuilder, MAX_BATCH_REQUESTS } from '../src/batch-builder';
+import { MockStorageServer } from '../src/mock-storage-server';
+import { StorageClient } from '../src/storage-client';
+import { StorageNotFoundError, StorageSequenceAbortedError } from '../src/errors';
+
+const SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+
+describe('BatchRequestBuilder', () => {
+  const generator = new PostmanParamsGenerator(SEED);
+
+  it('builds a single batch request from the collected sub-requests', () => {
+    const builder = new BatchRequestBuilder(generator);
+    builder.retrieve(undefined, 0);
+    builder.retrieve(undefined, 2);
+
+    const request = builder.build();
+    expect(request.method).toBe('batch');
+    expect(request.params.requests.map(r => [r.method, r.params.namespace])).toEqual([['retrieve', 0], ['retrieve', 2]]);
+  });
+
+  it('enforces the sub-request limit', () => {
+    const builder = new BatchRequestBuilder(generator, 'sequence');
+    for (let i = 0; i < MAX_BATCH_REQUESTS; i++) {
+      builder.retrieve(undefined, i);
+    }
+    expect(() => builder.retrieve()).toThrow(`limited to ${MAX_BATCH_REQUESTS}`);
+  });
+
+  it('rejects nested and empty batches', () => {
+    const builder = new BatchRequestBuilder(generator);
+    expect(() => builder.build()).toThrow('at least one sub-request');
+    expect(() => builder.add({ method: 'sequence', params: { requests: [] } })).toThrow('Cannot nest');
+  });
+
+  it('splits results and maps failed and skipped sub-requests to typed errors', () => {
+    const builder = new BatchRequestBuilder(generator, 'sequence');
+    const store = builder.store('hello', 86400000, 1);
+    const remove = builder.delete(['missing'], true);
+    const retrieve = builder.retrieve();
+
+    const results = builder.parse({
+      results: [
+        { code: 200, body: { hash: 'abc', swarm: {} } },
+        { code: 404, body: 'no matching messages found' }
+      ]
+    });
+
+    expect(results.get(store).hash).toBe('abc');
+    expect(() => results.get(remove)).toThrow(StorageNotFoundError);
+    expect(() => results.get(retrieve)).toThrow(StorageSequenceAbortedError);
+    expect(results.all().map(outcome => outcome.ok)).toEqual([true, false, false]);
+  });
+
+  describe('against the mock storage server', () => {
+    const server = new MockStorageServer();
+    let client: StorageClient;
+
+    beforeAll(async () => {
+      client = new StorageClient(await server.start(), generator);
+    });
+
+    afterAll(() => server.stop());
+
+    it('stores and retrieves across namespaces in one call', async () => {
+      const writes = new BatchRequestBuilder(generator);
+      const first = writes.store('first', 86400000, 1);
+      const second = writes.store('second', 86400000, 2);
+      const writeResults = await client.sendBatch(writes);
+
+      const reads = new BatchRequestBuilder(generator);
+      const ns1 = reads.retrieve(undefined, 1);
+      const ns2 = reads.retrieve(undefined, 2);
+      const expiries = reads.getExpiries([writeResults.get(first).hash!, writeResults.get(second).hash!]);
+      const readResults = await client.sendBatch(reads);
+
+      expect(readResults.get(ns1).messages.map(m => m.hash)).toEqual([writeResults.get(first).hash]);
+      expect(readResults.get(ns2).messages.map(m => m.hash)).toEqual([writeResults.get(second).hash]);
+      expect(Object.keys(readResults.get(expiries).expiries)).toHaveLength(2);
+    });
+
+    it('stops a sequence at the first failure', async () => {
+      const sequence = new BatchRequestBuilder(generator, 'sequence');
+      sequence.delete(['does-not-exist'], true);
+      const retrieve = sequence.retrieve(undefined, 1);
+
+      const results = await client.sendBatch(sequence);
+      expect(results.outcome(retrieve).ok).toBe(false);
+      expect(() => results.get(retrieve)).toThrow(StorageSequenceAbortedError);
+    });
+  });
+});
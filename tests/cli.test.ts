@@ -0,0 +1,312 @@
+import * as hex from '@stablelib/hex';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { mnemonicToSeedSync } from '@scure/bip39';
+import { CryptoUtils } from '../src/crypto';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { MockStorageServer } from '../src/mock-storage-server';
+import { CliIO, DEFAULT_PASSWORD_ENV, DEFAULT_SEED_ENV, runCli } from '../src/cli';
+import { verifyRequest } from '../src/request-verifier';
+import { encryptPushNotification } from '../src/push-notification';
+import { GroupAccount } from '../src/group-account';
+import { SessionNamespace } from '../src/namespace-policy';
+
+const OWNER_SEED_HEX = '610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16';
+const SUBACCOUNT_SEED_HEX = '2466D62FFF7246D201B111FEE08F4B9DCE7CD9303436CA3555E84BF99A0CEE19';
+const BIP39_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+interface CliRun {
+  code: number;
+  stdout: string;
+  stderr: string;
+  json: () => any;
+}
+
+async function cli(args: string[], env: Record<string, string> = {}): Promise<CliRun> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const io: CliIO = { stdout: text => stdout.push(text), stderr: text => stderr.push(text), env };
+  const code = await runCli(args, io);
+  return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n'), json: () => JSON.parse(stdout.join('\n')) };
+}
+
+describe('oxen-storage CLI', () => {
+  const owner = new PostmanParamsGenerator(hex.decode(OWNER_SEED_HEX));
+  const server = new MockStorageServer();
+  let url: string;
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    url = await server.start();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'oxen-cli-'));
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => server.clear());
+
+  it('prints a signed store request built from a seed file and @data file', async () => {
+    const seedFile = path.join(tmpDir, 'key.hex');
+    const dataFile = path.join(tmpDir, 'message.txt');
+    await fs.writeFile(seedFile, `${OWNER_SEED_HEX}\n`);
+    await fs.writeFile(dataFile, 'Hello from a file');
+
+    const run = await cli(['store', '--seed-file', seedFile, '--namespace', '3', '--ttl', '86400000', '--data', `@${dataFile}`]);
+    expect(run.code).toBe(0);
+
+    const request = run.json();
+    expect(request.method).toBe('store');
+    expect(request.params).toMatchObject({ pubkey: owner.getPublicKey(), namespace: 3, ttl: 86400000 });
+    expect(Buffer.from(request.params.data, 'base64').toString()).toBe('Hello from a file');
+    expect(verifyRequest(request).valid).toBe(true);
+  });
+
+  it('reads the seed from the environment and switches to Session ID mode', async () => {
+    const run = await cli(['retrieve', '--session-id', '--namespace', '2'], { [DEFAULT_SEED_ENV]: OWNER_SEED_HEX });
+    expect(run.code).toBe(0);
+    expect(run.json().params).toMatchObject({
+      pubkey: owner.getX25519SessionId(),
+      pubkey_ed25519: owner.getPublicKeyNoPrefix(),
+      namespace: 2
+    });
+    expect(verifyRequest(run.json()).valid).toBe(true);
+  });
+
+  it('prints identical requests with --now and applies --clock-offset', async () => {
+    const args = ['delete-all', '--seed', OWNER_SEED_HEX, '--now', '1753933969153'];
+    const first = await cli(args);
+    expect(first.stdout).toBe((await cli(args)).stdout);
+    expect(first.json().params.timestamp).toBe(1753933969153);
+    expect((await cli([...args, '--clock-offset=-153'])).json().params.timestamp).toBe(1753933969000);
+  });
+
+  it('derives keys from a BIP39 mnemonic', async () => {
+    const run = await cli(['keys', '--mnemonic', BIP39_MNEMONIC]);
+    const expected = new CryptoUtils(mnemonicToSeedSync(BIP39_MNEMONIC).slice(0, 32));
+    expect(run.code).toBe(0);
+    expect(run.json()).toEqual({
+      ed25519_pubkey: expected.getPublicKeyHex().toLowerCase(),
+      pubkey: `00${expected.getPublicKeyHex().toLowerCase()}`,
+      session_id: `05${expected.getX25519PublicKeyHex().toLowerCase()}`
+    });
+  });
+
+  it('sends requests to --url and prints the result', async () => {
+    const stored = await cli(['store', '--seed', OWNER_SEED_HEX, '--namespace', '1', '--data', 'hi', '--url', url]);
+    expect(stored.code).toBe(0);
+
+    const retrieved = await cli(['retrieve', '--seed', OWNER_SEED_HEX, '--namespace', '1', '--url', url]);
+    expect(retrieved.code).toBe(0);
+    expect(retrieved.json().messages.map((message: any) => message.hash)).toEqual([stored.json().hash]);
+  });
+
+  it('prints a signed get_messages request', async () => {
+    const run = await cli(['get-messages', '--seed', OWNER_SEED_HEX]);
+    expect(run.code).toBe(0);
+    expect(run.json()).toMatchObject({ method: 'get_messages', params: { pubkey: owner.getPublicKey(), timestamp: expect.any(Number) } });
+    expect(verifyRequest(run.json()).valid).toBe(true);
+  });
+
+  it('sends batches and sequences of command lines and prepared requests', async () => {
+    const requestFile = path.join(tmpDir, 'requests.json');
+    await fs.writeFile(requestFile, JSON.stringify([
+      ['store', '--namespace', '1', '--data', 'first'],
+      ['store', '--namespace', '2', '--data', 'second']
+    ]));
+    const sequence = await cli(['sequence', '--seed', OWNER_SEED_HEX, '--request', `@${requestFile}`, '--url', url]);
+    expect(sequence.code).toBe(0);
+    expect(sequence.json().results.map((result: any) => result.code)).toEqual([200, 200]);
+
+    const prepared = owner.getRetrieveParams(undefined, 2);
+    const batch = await cli(['batch', '--seed', OWNER_SEED_HEX, '--request', JSON.stringify([['retrieve', '--namespace', '1'], prepared])]);
+    expect(batch.code).toBe(0);
+    expect(batch.json().method).toBe('batch');
+    expect(batch.json().params.requests[1]).toEqual(prepared);
+    expect(verifyRequest(batch.json()).valid).toBe(true);
+
+    const nested = await cli(['batch', '--seed', OWNER_SEED_HEX, '--request', JSON.stringify([['batch']])]);
+    expect(nested.code).toBe(2);
+    expect(nested.stderr).toMatch(/--request\[0\]: expected a storage RPC command, got "batch"/);
+
+    const keyed = await cli(['batch', '--seed', OWNER_SEED_HEX, '--request', JSON.stringify([['retrieve', '--seed', SUBACCOUNT_SEED_HEX]])]);
+    expect(keyed.code).toBe(2);
+    expect(keyed.stderr).toMatch(/--seed applies to the whole batch/);
+  });
+
+  it('stores and retrieves as a subaccount delegated with the delegate command', async () => {
+    const holder = new CryptoUtils(hex.decode(SUBACCOUNT_SEED_HEX));
+    const delegation = await cli(['delegate', '--seed', OWNER_SEED_HEX, '--target', holder.getPublicKeyHex(), '--permissions', '3']);
+    expect(delegation.code).toBe(0);
+    const { subaccount_token, subaccount_sig } = delegation.json();
+
+    const subaccountArgs = [
+      '--seed', SUBACCOUNT_SEED_HEX,
+      '--owner', owner.getPublicKeyNoPrefix(),
+      '--subaccount-token', subaccount_token,
+      '--subaccount-sig', subaccount_sig,
+      '--url', url
+    ];
+    const stored = await cli(['store', '--namespace', '1', '--data', 'from a subaccount', ...subaccountArgs]);
+    expect(stored.code).toBe(0);
+    expect(server.getStoredMessages(owner.getPublicKey(), 1)).toHaveLength(1);
+
+    const retrieved = await cli(['retrieve', '--namespace', '1', ...subaccountArgs]);
+    expect(retrieved.json().messages).toHaveLength(1);
+
+    const updated = await cli(['update', '--hash', retrieved.json().messages[0].hash, '--data', 'edited', ...subaccountArgs]);
+    expect(updated.code).toBe(0);
+
+    const refused = await cli(['delete-all', '--namespace', '1', ...subaccountArgs]);
+    expect(refused.code).toBe(1);
+    expect(refused.stderr).toMatch(/cannot delete_all: it lacks delete permission/);
+  });
+
+  it('delegates from a Session ID and signs for the owner named by its Session ID', async () => {
+    const holder = new CryptoUtils(hex.decode(SUBACCOUNT_SEED_HEX));
+    const sessionId = owner.getX25519SessionId();
+    const delegation = await cli(['delegate', '--seed', OWNER_SEED_HEX, '--session-id', '--target', holder.getPublicKeyHex(), '--permissions', '3']);
+    const { subaccount_token, subaccount_sig } = delegation.json();
+    expect(subaccount_token.slice(0, 2)).toBe('05');
+
+    const stored = await cli([
+      'store', '--namespace', '1', '--data', 'from a Session subaccount', '--seed', SUBACCOUNT_SEED_HEX,
+      '--owner', sessionId, '--subaccount-token', subaccount_token, '--subaccount-sig', subaccount_sig, '--url', url
+    ]);
+    expect(stored.code).toBe(0);
+    expect(server.getStoredMessages(sessionId, 1)).toHaveLength(1);
+
+    const forged = await cli([
+      'store', '--data', 'hi', '--seed', SUBACCOUNT_SEED_HEX, '--owner', new PostmanParamsGenerator(hex.decode(SUBACCOUNT_SEED_HEX)).getX25519SessionId(),
+      '--subaccount-token', subaccount_token, '--subaccount-sig', subaccount_sig
+    ]);
+    expect(forged.code).toBe(2);
+    expect(forged.stderr).toMatch(/not signed by the owner of this Session ID/);
+  });
+
+  it('signs member requests for a 03 group id', async () => {
+    const group = GroupAccount.create(hex.decode(OWNER_SEED_HEX));
+    const holder = new CryptoUtils(hex.decode(SUBACCOUNT_SEED_HEX));
+    const { subaccountToken, subaccountSignature } = group.issueMemberToken(holder.getPublicKeyHex());
+
+    const run = await cli([
+      'retrieve', '--namespace', String(SessionNamespace.GroupMessages), '--seed', SUBACCOUNT_SEED_HEX,
+      '--owner', group.getGroupId(), '--subaccount-token', subaccountToken, '--subaccount-sig', subaccountSignature
+    ]);
+    expect(run.code).toBe(0);
+    expect(run.json().params.pubkey).toBe(group.getGroupId());
+    expect(verifyRequest(run.json())).toMatchObject({ valid: true, keySource: 'subaccount' });
+  });
+
+  it('signs with keystore identities and records the subaccounts they issue', async () => {
+    const keystore = path.join(tmpDir, 'keys.json');
+    const env = { [DEFAULT_PASSWORD_ENV]: 'hunter2' };
+    const keystoreArgs = ['--keystore', keystore, '--identity', 'owner'];
+
+    const added = await cli(['keystore-add', ...keystoreArgs, '--seed', OWNER_SEED_HEX], env);
+    expect(added.code).toBe(0);
+    expect(added.json()).toMatchObject({ name: 'owner', pubkey: owner.getPublicKey().toLowerCase() });
+
+    const stored = await cli(['store', ...keystoreArgs, '--namespace', '1', '--data', 'hi', '--url', url], env);
+    expect(stored.code).toBe(0);
+    expect(server.getStoredMessages(owner.getPublicKey(), 1)).toHaveLength(1);
+
+    const holder = new CryptoUtils(hex.decode(SUBACCOUNT_SEED_HEX));
+    const delegation = await cli(['delegate', ...keystoreArgs, '--target', holder.getPublicKeyHex(), '--permissions', '1'], env);
+    const listed = await cli(['keystore-list', '--keystore', keystore], env);
+    expect(listed.json()[0].subaccounts.map((record: any) => record.token)).toEqual([delegation.json().subaccount_token]);
+
+    const exported = await cli(['keystore-export', ...keystoreArgs], env);
+    expect(exported.stdout).toBe(OWNER_SEED_HEX.toLowerCase());
+
+    const locked = await cli(['keystore-list', '--keystore', keystore], { [DEFAULT_PASSWORD_ENV]: 'wrong' });
+    expect(locked.code).toBe(1);
+    expect(locked.stderr).toMatch(/wrong password/);
+
+    expect((await cli(['keystore-remove', ...keystoreArgs], env)).code).toBe(0);
+    expect((await cli(['keystore-list', '--keystore', keystore], env)).json()).toEqual([]);
+  });
+
+  it('exits with 1 and reports the server error when a request fails', async () => {
+    const run = await cli(['delete', '--seed', OWNER_SEED_HEX, '--hash', 'missing_hash', '--url', url]);
+    expect(run.code).toBe(1);
+    expect(run.stderr).toMatch(/^delete failed \(404\)/);
+  });
+
+  it('builds push subscriptions for the push server', async () => {
+    const run = await cli(['push-subscribe', '--seed', OWNER_SEED_HEX, '--namespaces', '0,1', '--no-data', '--service', 'firebase', '--service-token', 'abc']);
+    expect(run.code).toBe(0);
+    expect(run.json()).toMatchObject({ pubkey: owner.getPublicKey(), namespaces: [0, 1], data: false, service: 'firebase', service_info: { token: 'abc' } });
+  });
+
+  it('builds push unsubscribes, including as a subaccount', async () => {
+    const owned = await cli(['push-unsubscribe', '--seed', OWNER_SEED_HEX, '--service-token', 'abc']);
+    expect(owned.code).toBe(0);
+    expect(owned.json()).toMatchObject({ pubkey: owner.getPublicKey(), service: 'apns', service_info: { token: 'abc' } });
+
+    const holder = new CryptoUtils(hex.decode(SUBACCOUNT_SEED_HEX));
+    const { subaccountToken, subaccountSignature } = owner.generateSubaccountDelegation(holder.getPublicKeyHex(), 1);
+    const delegated = await cli([
+      'push-unsubscribe', '--seed', SUBACCOUNT_SEED_HEX, '--owner', owner.getX25519SessionId(),
+      '--subaccount-token', subaccountToken, '--subaccount-sig', subaccountSignature
+    ]);
+    expect(delegated.code).toBe(0);
+    expect(delegated.json()).toMatchObject({
+      pubkey: owner.getX25519SessionId(),
+      session_ed25519: owner.getPublicKeyNoPrefix(),
+      subaccount: subaccountToken
+    });
+  });
+
+  it('decrypts push notification payloads with --enc-key', async () => {
+    const encKey = '11'.repeat(32);
+    const payload = await encryptPushNotification({
+      metadata: { account: owner.getPublicKey(), hash: 'abc', namespace: 0, dataLength: 2 },
+      data: new TextEncoder().encode('hi')
+    }, encKey);
+
+    const run = await cli(['push-decrypt', '--enc-key', encKey, '--payload', Buffer.from(payload).toString('base64')]);
+    expect(run.code).toBe(0);
+    expect(run.json()).toEqual({ account: owner.getPublicKey().toLowerCase(), hash: 'abc', namespace: 0, dataLength: 2, data: 'aGk=' });
+
+    const wrongKey = await cli(['push-decrypt', '--enc-key', '22'.repeat(32), '--payload', Buffer.from(payload).toString('base64')]);
+    expect(wrongKey.code).toBe(1);
+    expect(wrongKey.stderr).toMatch(/wrong enc_key/);
+  });
+
+  it('verifies requests and fails on a tampered one', async () => {
+    const request = owner.getDeleteAllParams(0);
+    const valid = await cli(['verify', '--request', JSON.stringify(request)]);
+    expect(valid.code).toBe(0);
+
+    request.params.namespace = 1;
+    const tampered = await cli(['verify', '--request', JSON.stringify(request)]);
+    expect(tampered.code).toBe(1);
+    expect(tampered.stdout).toMatch(/namespace/);
+  });
+
+  it.each([
+    [['store', '--seed', OWNER_SEED_HEX], /Missing --data/],
+    [['store', '--data', 'hi'], /No key/],
+    [['store', '--seed', 'abcd', '--data', 'hi'], /expected a 64-character hex seed or a mnemonic/],
+    [['retrieve', '--seed', OWNER_SEED_HEX, '--namespace', 'three'], /--namespace: expected an integer/],
+    [['revoked-subaccounts', '--seed', SUBACCOUNT_SEED_HEX, '--subaccount-token', 'aa', '--subaccount-sig', 'bb', '--owner', OWNER_SEED_HEX], /has no subaccount variant/],
+    [['launch', '--seed', OWNER_SEED_HEX], /Unknown command: launch/],
+    [['keystore-list', '--keystore', 'keys.json'], /Keystore password not set/],
+    [['store', '--colour', 'red'], /Unknown option '--colour'/]
+  ])('rejects invalid command lines: %j', async (args, message) => {
+    const run = await cli(args);
+    expect(run.code).toBe(2);
+    expect(run.stderr).toMatch(message);
+  });
+
+  it('prints usage for --help', async () => {
+    const run = await cli(['--help']);
+    expect(run.code).toBe(0);
+    expect(run.stdout).toMatch(/^Usage: oxen-storage <command>/);
+    expect(run.stdout).toMatch(/push-subscribe/);
+  });
+});
@@ -0,0 +1,60 @@
+import * as hex from '@stablelib/hex';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { ConfigSync, CONFIG_MESSAGE_TTL, USER_CONFIG_NAMESPACES } from '../src/config-sync';
+import { MockStorageServer } from '../src/mock-storage-server';
+import { StorageClient } from '../src/storage-client';
+import { verifyRequest } from '../src/request-verifier';
+
+const SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+
+describe('ConfigSync', () => {
+  const server = new MockStorageServer();
+  let client: StorageClient;
+
+  beforeAll(async () => {
+    client = new StorageClient(await server.start(), new PostmanParamsGenerator(SEED));
+  });
+
+  afterAll(() => server.stop());
+
+  it('pushes edited configs as signed stores in the user config namespaces', () => {
+    const sync = new ConfigSync(new PostmanParamsGenerator(SEED));
+    sync.getConfig('UserProfile').setName('Alice');
+
+    const pushes = sync.getPushRequests();
+    expect(pushes.map(push => push.variant)).toContain('UserProfile');
+    for (const push of pushes) {
+      expect(push.request.params).toMatchObject({ namespace: USER_CONFIG_NAMESPACES[push.variant], ttl: CONFIG_MESSAGE_TTL });
+      expect(verifyRequest(push.request).valid).toBe(true);
+    }
+  });
+
+  it('syncs a profile edit to another device and deletes the messages it replaces', async () => {
+    const first = new ConfigSync(new PostmanParamsGenerator(SEED));
+    first.getConfig('UserProfile').setName('Alice');
+    const { pushed } = await first.sync(client);
+    expect(pushed.UserProfile).toMatchObject({ seqno: expect.any(Number), hash: expect.any(String) });
+
+    const second = new ConfigSync(new PostmanParamsGenerator(SEED));
+    const { merged } = await second.sync(client);
+    expect(merged.UserProfile).toEqual([pushed.UserProfile!.hash]);
+    expect(second.getConfig('UserProfile').getName()).toBe('Alice');
+
+    second.getConfig('UserProfile').setName('Alice B.');
+    const { deleted } = await second.sync(client);
+    expect(deleted).toContain(pushed.UserProfile!.hash);
+    expect(second.getObsoleteHashes()).toEqual([]);
+
+    await first.sync(client);
+    expect(first.getConfig('UserProfile').getName()).toBe('Alice B.');
+  });
+
+  it('restores configs from a dump', () => {
+    const sync = new ConfigSync(new PostmanParamsGenerator(SEED));
+    sync.getConfig('UserProfile').setName('Dumped');
+    const dumps = sync.dump();
+    expect(Object.keys(dumps)).toContain('UserProfile');
+
+    expect(new ConfigSync(new PostmanParamsGenerator(SEED), dumps).getConfig('UserProfile').getName()).toBe('Dumped');
+  });
+});
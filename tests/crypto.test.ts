@@ -0,0 +1,192 @@
+import * as ed25519 from '@stablelib/ed25519';
+import * as base64 from '@stablelib/base64';
+import * as hex from '@stablelib/hex';
+import { CryptoUtils, deterministicRandomBytes, ed25519PubkeysFromX25519, fixedClock } from '../src/crypto';
+
+const SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+const TIMESTAMP = 1753933969153;
+
+function verifies(crypto: CryptoUtils, message: string | Uint8Array, signature: string): boolean {
+  const bytes = typeof message === 'string' ? new TextEncoder().encode(message) : message;
+  return ed25519.verify(crypto.getEd25519KeyPair().publicKey, bytes, base64.decode(signature));
+}
+
+describe('CryptoUtils', () => {
+  const crypto = new CryptoUtils(SEED);
+
+  describe('keys', () => {
+    it('derives the same key pair from the same seed', () => {
+      expect(new CryptoUtils(SEED).getPublicKeyHex()).toBe(crypto.getPublicKeyHex());
+      expect(CryptoUtils.fromSeed(SEED).getSecretKeyHex()).toBe(crypto.getSecretKeyHex());
+    });
+
+    it('returns 32-byte Ed25519 and X25519 public keys', () => {
+      expect(crypto.getPublicKeyHex()).toMatch(/^[0-9A-F]{64}$/);
+      expect(crypto.getX25519PublicKeyHex()).toMatch(/^[0-9A-F]{64}$/);
+      expect(crypto.getX25519PublicKeyHex()).toBe(hex.encode(crypto.getX25519PublicKey()));
+    });
+
+    it('recovers the Ed25519 pubkey of an X25519 key up to the sign of x', () => {
+      const candidates = ed25519PubkeysFromX25519(crypto.getX25519PublicKey());
+      expect(candidates).toHaveLength(2);
+      expect(candidates.map(candidate => hex.encode(candidate))).toContain(crypto.getPublicKeyHex());
+      candidates.forEach(candidate => expect(hex.encode(ed25519.convertPublicKeyToX25519(candidate))).toBe(crypto.getX25519PublicKeyHex()));
+    });
+  });
+
+  describe('sign* methods', () => {
+    it('signStore signs "store" || namespace || sig_timestamp', () => {
+      const signature = crypto.signStore(3, TIMESTAMP);
+      expect(verifies(crypto, `store3${TIMESTAMP}`, signature)).toBe(true);
+    });
+
+    it('signStore keeps namespace 0 in the message', () => {
+      const signature = crypto.signStore(0, TIMESTAMP);
+      expect(verifies(crypto, `store0${TIMESTAMP}`, signature)).toBe(true);
+    });
+
+    it('signRetrieve omits namespace 0', () => {
+      expect(verifies(crypto, `retrieve${TIMESTAMP}`, crypto.signRetrieve(0, TIMESTAMP))).toBe(true);
+      expect(verifies(crypto, `retrieve-10${TIMESTAMP}`, crypto.signRetrieve(-10, TIMESTAMP))).toBe(true);
+    });
+
+    it('signDelete signs "delete" || messages', () => {
+      const signature = crypto.signDelete(['hash1', 'hash2']);
+      expect(verifies(crypto, 'deletehash1hash2', signature)).toBe(true);
+    });
+
+    it('signDeleteAll omits namespace 0', () => {
+      expect(verifies(crypto, `delete_all${TIMESTAMP}`, crypto.signDeleteAll(0, TIMESTAMP))).toBe(true);
+      expect(verifies(crypto, `delete_all5${TIMESTAMP}`, crypto.signDeleteAll(5, TIMESTAMP))).toBe(true);
+      expect(verifies(crypto, `delete_allall${TIMESTAMP}`, crypto.signDeleteAll('all', TIMESTAMP))).toBe(true);
+    });
+
+    it('signDeleteBefore uses "all" when no namespace is given', () => {
+      expect(verifies(crypto, `delete_before0${TIMESTAMP}`, crypto.signDeleteBefore(0, TIMESTAMP))).toBe(true);
+      expect(verifies(crypto, `delete_before-10${TIMESTAMP}`, crypto.signDeleteBefore(-10, TIMESTAMP))).toBe(true);
+      expect(verifies(crypto, `delete_beforeall${TIMESTAMP}`, crypto.signDeleteBefore(undefined, TIMESTAMP))).toBe(true);
+      expect(verifies(crypto, `delete_beforeall${TIMESTAMP}`, crypto.signDeleteBefore('all', TIMESTAMP))).toBe(true);
+    });
+
+    it('signExpireAll omits an undefined or 0 namespace and signs \'all\' as "all"', () => {
+      expect(verifies(crypto, `expire_all${TIMESTAMP}`, crypto.signExpireAll(undefined, TIMESTAMP))).toBe(true);
+      expect(verifies(crypto, `expire_allall${TIMESTAMP}`, crypto.signExpireAll('all', TIMESTAMP))).toBe(true);
+      expect(verifies(crypto, `expire_all${TIMESTAMP}`, crypto.signExpireAll(0, TIMESTAMP))).toBe(true);
+      expect(verifies(crypto, `expire_all7${TIMESTAMP}`, crypto.signExpireAll(7, TIMESTAMP))).toBe(true);
+    });
+
+    it('signExpireMsgs includes the shorten/extend flag', () => {
+      const messages = ['hash1', 'hash2'];
+      expect(verifies(crypto, `expire${TIMESTAMP}hash1hash2`, crypto.signExpireMsgs(messages, TIMESTAMP))).toBe(true);
+      expect(verifies(crypto, `expireshorten${TIMESTAMP}hash1hash2`, crypto.signExpireMsgs(messages, TIMESTAMP, true))).toBe(true);
+      expect(verifies(crypto, `expireextend${TIMESTAMP}hash1hash2`, crypto.signExpireMsgs(messages, TIMESTAMP, false, true))).toBe(true);
+    });
+
+    it('signs the subaccount revocation lifecycle messages', () => {
+      expect(verifies(crypto, 'revoke_subaccounttoken', crypto.signRevokeSubaccount('token'))).toBe(true);
+      expect(verifies(crypto, `unrevoke_subaccount${TIMESTAMP}ab`, crypto.signUnrevokeSubaccount(TIMESTAMP, ['a', 'b']))).toBe(true);
+      expect(verifies(crypto, `revoked_subaccounts${TIMESTAMP}`, crypto.signRevokedSubaccounts(TIMESTAMP))).toBe(true);
+    });
+
+    it('signPushSubscribe signs MONITOR || lowercase account hex || sig_ts || data || namespaces', () => {
+      const account = hex.decode(`05${crypto.getX25519PublicKeyHex()}`);
+      const signature = crypto.signPushSubscribe(1753933969, [-400, 0, 1], true, account);
+      const message = `MONITOR${hex.encode(account, true)}17539339691-400,0,1`;
+      expect(verifies(crypto, message, signature)).toBe(true);
+    });
+
+    it('signPushUnsubscribe signs UNSUBSCRIBE || lowercase account hex || sig_ts', () => {
+      const account = hex.decode(`00${crypto.getPublicKeyHex()}`);
+      const signature = crypto.signPushUnsubscribe(1753933969, account);
+      expect(verifies(crypto, `UNSUBSCRIBE${hex.encode(account, true)}1753933969`, signature)).toBe(true);
+    });
+
+    it('signMessage and signMessageX25519 both sign with the Ed25519 key', () => {
+      expect(verifies(crypto, 'hello', crypto.signMessage('hello'))).toBe(true);
+      expect(verifies(crypto, 'hello', crypto.signMessageX25519('hello'))).toBe(true);
+    });
+
+    it('rejects a signature over a different message', () => {
+      expect(verifies(crypto, `store4${TIMESTAMP}`, crypto.signStore(3, TIMESTAMP))).toBe(false);
+    });
+  });
+
+  describe('subaccounts', () => {
+    it('lays out the subaccount token as prefix, permissions, reserved, pubkey', () => {
+      const token = hex.decode(crypto.generateSubaccountToken(7, 3));
+      expect(token.length).toBe(36);
+      expect(Array.from(token.slice(0, 4))).toEqual([3, 7, 0, 0]);
+      expect(hex.encode(token.slice(4))).toBe(crypto.getPublicKeyHex());
+    });
+
+    it('embeds a blinded pubkey instead of the delegate\'s real pubkey', () => {
+      const delegate = new CryptoUtils(hex.decode('2466D62FFF7246D201B111FEE08F4B9DCE7CD9303436CA3555E84BF99A0CEE19'));
+      const delegatePubkey = delegate.getEd25519KeyPair().publicKey;
+      const { token, blindedPubkey } = crypto.generateBlindedSubaccountToken(delegatePubkey, 3, 0);
+
+      expect(hex.decode(token).slice(4)).toEqual(blindedPubkey);
+      expect(blindedPubkey).not.toEqual(delegatePubkey);
+      expect(blindedPubkey).toEqual(CryptoUtils.blindSubaccountPubkey(crypto.getEd25519KeyPair().publicKey, delegatePubkey));
+    });
+
+    it('derives a blinded signing key whose signatures verify against the token pubkey', () => {
+      const delegate = new CryptoUtils(hex.decode('2466D62FFF7246D201B111FEE08F4B9DCE7CD9303436CA3555E84BF99A0CEE19'));
+      const { blindedPubkey } = crypto.generateBlindedSubaccountToken(delegate.getEd25519KeyPair().publicKey);
+      const blindedSecretKey = delegate.deriveBlindedSubaccountKey(crypto.getEd25519KeyPair().publicKey);
+
+      const checks: Array<[string, string]> = [
+        [`store3${TIMESTAMP}`, delegate.signStoreWithSubaccount(3, TIMESTAMP, blindedSecretKey)],
+        [`retrieve${TIMESTAMP}`, delegate.signRetrieveWithSubaccount(0, TIMESTAMP, blindedSecretKey)],
+        ['deletehash1', delegate.signDeleteWithSubaccount(['hash1'], blindedSecretKey)]
+      ];
+      for (const [message, signature] of checks) {
+        expect(ed25519.verify(blindedPubkey, new TextEncoder().encode(message), base64.decode(signature))).toBe(true);
+        expect(verifies(delegate, message, signature)).toBe(false);
+      }
+    });
+
+    it('keeps blinded scalars and Ed25519 secret keys apart', () => {
+      const delegate = new CryptoUtils(hex.decode('2466D62FFF7246D201B111FEE08F4B9DCE7CD9303436CA3555E84BF99A0CEE19'));
+      const secretKey = delegate.getEd25519KeyPair().secretKey;
+
+      expect(verifies(delegate, 'message', delegate.signWithBlindedSubaccount('message', secretKey))).toBe(true);
+      expect(() => delegate.signWithBlindedScalar('message', secretKey)).toThrow('deriveBlindedSubaccountKey');
+      expect(() => delegate.signWithBlindedScalar('message', secretKey.slice(0, 32))).toThrow('must be 64 bytes');
+    });
+
+    it('signSubaccountToken signs the raw token bytes', () => {
+      const token = crypto.generateSubaccountToken();
+      expect(verifies(crypto, hex.decode(token), crypto.signSubaccountToken(token))).toBe(true);
+    });
+  });
+
+  describe('clock and random source', () => {
+    it('adds the clock offset to the configured clock', () => {
+      const clocked = new CryptoUtils(SEED, { now: fixedClock(TIMESTAMP), clockOffsetMs: -500 });
+      expect(clocked.now()).toBe(TIMESTAMP - 500);
+
+      expect(clocked.syncClock(TIMESTAMP + 2000)).toBe(2000);
+      expect(clocked.now()).toBe(TIMESTAMP + 2000);
+      clocked.setClockOffset(0);
+      expect(clocked.getClockOffset()).toBe(0);
+    });
+
+    it('generates the same keys and bytes from the same deterministic source', () => {
+      const first = new CryptoUtils(undefined, { randomBytes: deterministicRandomBytes('docs') });
+      const second = new CryptoUtils(undefined, { randomBytes: deterministicRandomBytes('docs') });
+      expect(first.getPublicKeyHex()).toBe(second.getPublicKeyHex());
+      expect(first.randomBytes(100)).toEqual(second.randomBytes(100));
+      expect(first.randomBytes(32)).not.toEqual(first.randomBytes(32));
+      expect(new CryptoUtils(undefined, { randomBytes: deterministicRandomBytes('other') }).getPublicKeyHex())
+        .not.toBe(first.getPublicKeyHex());
+    });
+  });
+
+  describe('encoding helpers', () => {
+    it('round-trips hex and base64', () => {
+      const bytes = new Uint8Array([0, 1, 254, 255]);
+      expect(CryptoUtils.hexToBytes(CryptoUtils.bytesToHex(bytes))).toEqual(bytes);
+      expect(CryptoUtils.base64ToString(CryptoUtils.stringToBase64('Hello World!'))).toBe('Hello World!');
+    });
+  });
+});
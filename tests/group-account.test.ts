@@ -0,0 +1,86 @@
+import * as hex from '@stablelib/hex';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { GroupAccount, GROUP_NAMESPACES, isGroupId } from '../src/group-account';
+import { SessionNamespace } from '../src/namespace-policy';
+import { SubaccountManager } from '../src/subaccount-manager';
+import { MockStorageServer } from '../src/mock-storage-server';
+import { StorageClient } from '../src/storage-client';
+import { StorageUnauthorizedError } from '../src/errors';
+import { verifyRequest } from '../src/request-verifier';
+import { RetrieveResult } from '../src/types';
+
+const GROUP_SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+const MEMBER_SEED = hex.decode('2466D62FFF7246D201B111FEE08F4B9DCE7CD9303436CA3555E84BF99A0CEE19');
+
+describe('GroupAccount', () => {
+  const group = GroupAccount.create(GROUP_SEED);
+  const member = PostmanParamsGenerator.createSubaccountUser(MEMBER_SEED);
+
+  it('addresses the group by its 03-prefixed id', () => {
+    expect(isGroupId(group.getGroupId())).toBe(true);
+    expect(group.getGroupId()).toBe(`03${hex.encode(group.getGroupEd25519Pubkey())}`);
+    expect(group.getAdmin().getStoreParams('info', 1000, SessionNamespace.GroupInfo).params.pubkey).toBe(group.getGroupId());
+    expect(GROUP_NAMESPACES).toEqual([11, 12, 13, 14, -11]);
+  });
+
+  it('signs admin requests with the group key and member requests with a subaccount token', () => {
+    const admin = group.getAdmin().getStoreParams('keys', 1000, SessionNamespace.GroupKeys);
+    expect(verifyRequest(admin)).toMatchObject({ valid: true, keySource: 'pubkey' });
+
+    const { subaccountToken, subaccountSignature } = group.issueMemberToken(member.getPublicKeyHex());
+    expect(hex.decode(subaccountToken)[0]).toBe(3);
+    const generator = GroupAccount.memberGenerator(group.getGroupId(), subaccountToken, subaccountSignature, member);
+    const request = generator.getRetrieveParams(undefined, SessionNamespace.GroupMessages);
+    expect(request.params.pubkey.toLowerCase()).toBe(group.getGroupId().toLowerCase());
+    expect(verifyRequest(request)).toMatchObject({ valid: true, keySource: 'subaccount' });
+  });
+
+  it('looks up the swarm of the group id for admins and members', () => {
+    const { subaccountToken, subaccountSignature } = group.issueMemberToken(member.getPublicKeyHex());
+    const generator = GroupAccount.memberGenerator(group.getGroupId(), subaccountToken, subaccountSignature, member);
+    expect(group.getAdmin().getSwarmParams().params.pubkey).toBe(group.getGroupId());
+    expect(generator.getSwarmParams().params.pubkey.toLowerCase()).toBe(group.getGroupId().toLowerCase());
+  });
+
+  it('rejects ids that are not group ids', () => {
+    const { subaccountToken, subaccountSignature } = group.issueMemberToken(member.getPublicKeyHex());
+    expect(() => GroupAccount.memberGenerator(`05${'ab'.repeat(32)}`, subaccountToken, subaccountSignature, member))
+      .toThrow('Invalid group id');
+  });
+
+  it('loads a group from its admin key', () => {
+    expect(GroupAccount.fromCrypto(group.getAdmin().getCrypto()).getGroupId()).toBe(group.getGroupId());
+  });
+
+  describe('against the mock storage server', () => {
+    const server = new MockStorageServer();
+    let client: StorageClient;
+
+    beforeAll(async () => {
+      client = new StorageClient(await server.start(), group.getAdmin());
+    });
+
+    afterAll(() => server.stop());
+
+    it('lets members post and read until the admin revokes their token', async () => {
+      const admin = group.getAdmin();
+      await client.send(admin.getStoreParams('group info', 86400000, SessionNamespace.GroupInfo));
+
+      const manager = new SubaccountManager(admin);
+      const record = manager.issue(member.getPublicKeyHex(), 3, 3);
+      const generator = GroupAccount.memberGenerator(group.getGroupId(), record.token, record.signature, member);
+
+      await client.send(generator.getStoreParams('hello group', 86400000, SessionNamespace.GroupMessages));
+      const { messages } = await client.send<RetrieveResult>(generator.getRetrieveParams(undefined, SessionNamespace.GroupMessages));
+      expect(messages.map(message => Buffer.from(message.data, 'base64').toString())).toEqual(['hello group']);
+      expect(() => generator.getDeleteAllParams(SessionNamespace.GroupMessages)).toThrow('it lacks delete permission');
+
+      await client.send(manager.revoke(record.token));
+      await expect(client.send(generator.getRetrieveParams(undefined, SessionNamespace.GroupInfo)))
+        .rejects.toBeInstanceOf(StorageUnauthorizedError);
+
+      const { messages: info } = await client.send<RetrieveResult>(admin.getRetrieveParams(undefined, SessionNamespace.GroupInfo));
+      expect(info).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import * as hex from '@stablelib/hex';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { CryptoUtils } from '../src/crypto';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { Keystore, KeystoreFile, ScryptParams } from '../src/keystore';
+import { SubaccountPermission } from '../src/subaccount-manager';
+
+const OWNER_SEED_HEX = '610987a8dfb79bcfe635a14cfa1f22d9d4bf2a28a9a707d19cf2ffc03aa59f16';
+const SUBACCOUNT_SEED_HEX = '2466d62fff7246d201b111fee08f4b9dce7cd9303436ca3555e84bf99a0cee19';
+const SESSION_PHRASE = 'tadpoles duration initiate zippers fonts dullness saxophone solved cool pirate examine buffet pirate';
+
+// Cheap parameters keep the tests fast; the defaults are used in real keystores
+const TEST_SCRYPT: ScryptParams = { N: 1024, r: 8, p: 1 };
+
+describe('Keystore', () => {
+  let tmpDir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'oxen-keystore-'));
+    file = path.join(tmpDir, 'keys.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('saves identities encrypted and restores them with the password', async () => {
+    const keystore = await Keystore.create(file, 'correct horse', { scrypt: TEST_SCRYPT });
+    const owner = keystore.addIdentity('owner', hex.decode(OWNER_SEED_HEX));
+    keystore.addIdentity('session', SESSION_PHRASE);
+    await keystore.save();
+
+    const generator = new PostmanParamsGenerator(hex.decode(OWNER_SEED_HEX));
+    expect(owner).toMatchObject({
+      name: 'owner',
+      pubkey: generator.getPublicKey().toLowerCase(),
+      sessionId: generator.getX25519SessionId().toLowerCase(),
+      subaccountCount: 0
+    });
+
+    const raw = await fs.readFile(file, 'utf8');
+    expect(raw).not.toContain(OWNER_SEED_HEX);
+    expect(raw).not.toContain('owner');
+    const stored: KeystoreFile = JSON.parse(raw);
+    expect(stored).toMatchObject({ version: 1, kdf: { name: 'scrypt', ...TEST_SCRYPT }, cipher: { name: 'aes-256-gcm' } });
+
+    const reopened = await Keystore.open(file, 'correct horse');
+    expect(reopened.listIdentities().map(identity => identity.name)).toEqual(['owner', 'session']);
+    expect(reopened.getGenerator('owner').getPublicKey()).toBe(generator.getPublicKey());
+    expect(reopened.exportIdentity('owner')).toBe(OWNER_SEED_HEX);
+    expect(reopened.exportIdentity('session', 'mnemonic')).toBe(SESSION_PHRASE);
+    expect(PostmanParamsGenerator.fromKeystore(reopened, 'session', true).getX25519SessionId())
+      .toBe(PostmanParamsGenerator.fromSessionMnemonic(SESSION_PHRASE).getX25519SessionId());
+  });
+
+  it('rejects a wrong password and a tampered file', async () => {
+    const keystore = await Keystore.create(file, 'correct horse', { scrypt: TEST_SCRYPT });
+    keystore.addIdentity('owner', OWNER_SEED_HEX);
+    await keystore.save();
+
+    await expect(Keystore.open(file, 'battery staple')).rejects.toThrow('Cannot unlock keystore: wrong password or corrupted file');
+
+    // Lowering the scrypt cost is caught because the parameters are authenticated
+    const stored: KeystoreFile = JSON.parse(await fs.readFile(file, 'utf8'));
+    await fs.writeFile(file, JSON.stringify({ ...stored, kdf: { ...stored.kdf, N: 512 } }));
+    await expect(Keystore.open(file, 'correct horse')).rejects.toThrow('Cannot unlock keystore');
+  });
+
+  it('refuses to overwrite an existing file and creates one when missing', async () => {
+    await Keystore.create(file, 'pw', { scrypt: TEST_SCRYPT });
+    await expect(Keystore.create(file, 'pw', { scrypt: TEST_SCRYPT })).rejects.toMatchObject({ code: 'EEXIST' });
+
+    const other = path.join(tmpDir, 'other.json');
+    const created = await Keystore.openOrCreate(other, 'pw', { scrypt: TEST_SCRYPT });
+    expect(created.listIdentities()).toEqual([]);
+    await expect(fs.access(other)).resolves.toBeUndefined();
+  });
+
+  it('adds, lists and removes identities', async () => {
+    const keystore = await Keystore.create(file, 'pw', { scrypt: TEST_SCRYPT });
+    keystore.addIdentity('owner', new CryptoUtils(hex.decode(OWNER_SEED_HEX)));
+
+    expect(() => keystore.addIdentity('owner', SUBACCOUNT_SEED_HEX)).toThrow('Identity already exists: owner');
+    expect(() => keystore.addIdentity('short', new Uint8Array(16))).toThrow('Seed must be 32 bytes, got 16');
+    expect(() => keystore.addIdentity('phrase', 'one two three')).toThrow('Invalid mnemonic');
+    expect(() => keystore.getCrypto('missing')).toThrow('Unknown identity: missing');
+
+    expect(keystore.removeIdentity('owner')).toBe(true);
+    expect(keystore.removeIdentity('owner')).toBe(false);
+    expect(keystore.listIdentities()).toEqual([]);
+  });
+
+  it('keeps the subaccount tokens an identity issued', async () => {
+    const keystore = await Keystore.create(file, 'pw', { scrypt: TEST_SCRYPT });
+    keystore.addIdentity('owner', OWNER_SEED_HEX);
+    const holder = new CryptoUtils(hex.decode(SUBACCOUNT_SEED_HEX));
+
+    const manager = keystore.getSubaccountManager('owner');
+    const record = manager.issue(holder.getPublicKeyHex(), SubaccountPermission.Read | SubaccountPermission.Write, 0, 'qa');
+    manager.revoke(record.token);
+    keystore.saveSubaccountManager('owner', manager);
+    await keystore.save();
+
+    const reopened = await Keystore.open(file, 'pw');
+    expect(reopened.listIdentities()[0].subaccountCount).toBe(1);
+    expect(reopened.listSubaccounts('owner')).toEqual([record]);
+    expect(reopened.getSubaccountManager('owner').get(record.token)).toMatchObject({ revoked: true, label: 'qa' });
+
+    expect(reopened.removeSubaccount('owner', record.token.toUpperCase())).toBe(true);
+    expect(reopened.listSubaccounts('owner')).toEqual([]);
+  });
+
+  it('re-encrypts under a new password', async () => {
+    const keystore = await Keystore.create(file, 'old', { scrypt: TEST_SCRYPT });
+    keystore.addIdentity('owner', OWNER_SEED_HEX);
+    await keystore.changePassword('new');
+
+    await expect(Keystore.open(file, 'old')).rejects.toThrow('Cannot unlock keystore');
+    expect((await Keystore.open(file, 'new')).exportIdentity('owner')).toBe(OWNER_SEED_HEX);
+  });
+});
@@ -0,0 +1,148 @@
+import * as hex from '@stablelib/hex';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { MockStorageServer } from '../src/mock-storage-server';
+import { StorageClient } from '../src/storage-client';
+import { StorageBadRequestError } from '../src/errors';
+import { JsonFileLastHashStore, LastHashStore, MemoryLastHashStore, MessagePoller, PolledMessage, RequestSender } from '../src/message-poller';
+
+const SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+
+describe('MessagePoller', () => {
+  const generator = new PostmanParamsGenerator(SEED);
+  const pubkey = generator.getPublicKey();
+  const server = new MockStorageServer();
+  let client: StorageClient;
+
+  beforeAll(async () => {
+    client = new StorageClient(await server.start(), generator);
+  });
+
+  afterAll(() => server.stop());
+
+  afterEach(() => server.clear());
+
+  it('returns only messages newer than the stored last_hash of each namespace', async () => {
+    const store = new MemoryLastHashStore();
+    const poller = new MessagePoller(generator, client, { namespaces: [1, 2], store });
+
+    const first = await client.store('b25l', 86400000, 1);
+    const second = await client.store('dHdv', 86400000, 2);
+    expect((await poller.pollOnce()).map(m => [m.namespace, m.hash])).toEqual([[1, first.hash], [2, second.hash]]);
+    expect(await store.get(pubkey, 1)).toBe(first.hash);
+
+    const third = await client.store('dGhyZWU=', 86400000, 1);
+    expect((await poller.pollOnce()).map(m => m.hash)).toEqual([third.hash]);
+    expect(await poller.pollOnce()).toEqual([]);
+  });
+
+  it('drops messages it already delivered when the server returns them again', async () => {
+    // A store that never remembers anything, as if last_hash had expired on the server
+    const forgetful: LastHashStore = { get: async () => undefined, set: async () => undefined };
+    const poller = new MessagePoller(generator, client, { namespaces: [1], store: forgetful });
+
+    await client.store('b25l', 86400000, 1);
+    expect(await poller.pollOnce()).toHaveLength(1);
+    expect(await poller.pollOnce()).toEqual([]);
+  });
+
+  it('reports namespaces that fail without dropping the others', async () => {
+    expect(() => new MessagePoller(generator, client, { namespaces: [1, 40000] })).toThrow('Invalid namespace');
+
+    // Corrupt the second retrieve after it was built so that only the server rejects it
+    const sender: RequestSender = {
+      send: request => {
+        request.params.requests[1].params.namespace = 40000;
+        return client.send(request);
+      }
+    };
+    const poller = new MessagePoller(generator, sender, { namespaces: [1, 2] });
+    const errors: unknown[] = [];
+    poller.on('error', error => errors.push(error));
+
+    await client.store('b25l', 86400000, 1);
+    expect(await poller.pollOnce()).toHaveLength(1);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(StorageBadRequestError);
+  });
+
+  it('emits new messages to event listeners and async iterators while running', async () => {
+    const poller = new MessagePoller(generator, client, { namespaces: [1], intervalMs: 20 });
+    const emitted: PolledMessage[] = [];
+    poller.on('message', message => emitted.push(message));
+
+    const iterated: string[] = [];
+    const iteration = (async () => {
+      for await (const message of poller) {
+        iterated.push(message.hash);
+        if (iterated.length === 2) {
+          poller.stop();
+        }
+      }
+    })();
+
+    poller.start();
+    const first = await client.store('b25l', 86400000, 1);
+    const second = await client.store('dHdv', 86400000, 1);
+    await iteration;
+
+    expect(poller.isRunning()).toBe(false);
+    expect(iterated).toEqual([first.hash, second.hash]);
+    expect(emitted.map(m => m.hash)).toEqual(iterated);
+  });
+
+  it('keeps a single poll loop when restarted while a poll is in flight', async () => {
+    jest.useFakeTimers();
+    try {
+      let release!: () => void;
+      const gate = new Promise<void>(resolve => { release = resolve; });
+      let sends = 0;
+      const sender: RequestSender = {
+        send: async <T>(): Promise<T> => {
+          if (++sends === 1) {
+            await gate;
+          }
+          return { results: [{ code: 200, body: { messages: [] } }] } as T;
+        }
+      };
+      const poller = new MessagePoller(generator, sender, { namespaces: [1], intervalMs: 1000 });
+
+      poller.start();
+      await jest.advanceTimersByTimeAsync(0);
+      poller.stop();
+      poller.start();
+      await jest.advanceTimersByTimeAsync(0);
+      release();
+      expect(sends).toBe(2);
+
+      // The poll of the stopped loop finishes without scheduling another one
+      await jest.advanceTimersByTimeAsync(3000);
+      expect(sends).toBe(5);
+      poller.stop();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('rejects an empty namespace list', () => {
+    expect(() => new MessagePoller(generator, client, { namespaces: [] })).toThrow('between 1 and 20 namespaces');
+  });
+
+  describe('JsonFileLastHashStore', () => {
+    it('persists hashes across instances', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'last-hash-'));
+      const file = path.join(dir, 'last-hashes.json');
+      try {
+        await new JsonFileLastHashStore(file).set(pubkey.toUpperCase(), 3, 'hash3');
+
+        const reloaded = new JsonFileLastHashStore(file);
+        expect(await reloaded.get(pubkey, 3)).toBe('hash3');
+        expect(await reloaded.get(pubkey, 0)).toBeUndefined();
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
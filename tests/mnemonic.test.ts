@@ -0,0 +1,91 @@
+import * as hex from '@stablelib/hex';
+import { CryptoUtils } from '../src/crypto';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import {
+  bip39MnemonicToSeed,
+  decodeSessionMnemonic,
+  encodeSessionMnemonic,
+  mnemonicToSeed,
+  sessionMnemonicToSeed
+} from '../src/mnemonic';
+
+const SESSION_PHRASE = 'tadpoles duration initiate zippers fonts dullness saxophone solved cool pirate examine buffet pirate';
+const SESSION_SEED = 'dfa8c130012fb2eaf92e9d5d432deedb';
+const BIP39_PHRASE = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+describe('Session mnemonics', () => {
+  it('decodes a 13-word phrase to its 16-byte seed and pads it for Ed25519', () => {
+    expect(hex.encode(decodeSessionMnemonic(SESSION_PHRASE), true)).toBe(SESSION_SEED);
+    expect(hex.encode(sessionMnemonicToSeed(SESSION_PHRASE), true)).toBe(SESSION_SEED + '00'.repeat(16));
+  });
+
+  it('round-trips 16- and 32-byte seeds', () => {
+    expect(encodeSessionMnemonic(hex.decode(SESSION_SEED))).toBe(SESSION_PHRASE);
+
+    const seed = hex.decode('00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff');
+    const phrase = encodeSessionMnemonic(seed);
+    expect(phrase.split(' ')).toHaveLength(25);
+    expect(decodeSessionMnemonic(phrase)).toEqual(seed);
+  });
+
+  it('accepts mixed case, extra whitespace and words matched by their first three letters', () => {
+    const loose = `  ${SESSION_PHRASE.toUpperCase().replace(/ /g, '   ')}\n`;
+    expect(hex.encode(decodeSessionMnemonic(loose), true)).toBe(SESSION_SEED);
+    expect(hex.encode(decodeSessionMnemonic(SESSION_PHRASE.replace('tadpoles', 'tadxyz')), true)).toBe(SESSION_SEED);
+  });
+
+  it('rejects wrong word counts, unknown words and bad checksums', () => {
+    const words = SESSION_PHRASE.split(' ');
+    expect(() => decodeSessionMnemonic(words.slice(0, 12).join(' '))).toThrow('expected 13 or 25 words, got 12');
+    expect(() => decodeSessionMnemonic([...words.slice(0, 3), 'qqqq', ...words.slice(4)].join(' '))).toThrow('unknown word "qqqq" at position 4');
+    expect(() => decodeSessionMnemonic([...words.slice(0, 12), 'abbey'].join(' '))).toThrow('checksum word does not match');
+  });
+});
+
+describe('BIP39 mnemonics', () => {
+  it('uses the first 32 bytes of the BIP39 seed, including the passphrase', () => {
+    // BIP39 reference vector for the all-"abandon" phrase with passphrase "TREZOR"
+    expect(hex.encode(bip39MnemonicToSeed(BIP39_PHRASE, 'TREZOR'), true))
+      .toBe('c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e5349553');
+    expect(bip39MnemonicToSeed(BIP39_PHRASE)).not.toEqual(bip39MnemonicToSeed(BIP39_PHRASE, 'TREZOR'));
+  });
+
+  it('rejects wrong word counts, unknown words and bad checksums', () => {
+    expect(() => bip39MnemonicToSeed('abandon abandon abandon')).toThrow('expected 12, 15, 18, 21, 24 words, got 3');
+    expect(() => bip39MnemonicToSeed(BIP39_PHRASE.replace('about', 'aboutt'))).toThrow('unknown word "aboutt" at position 12');
+    expect(() => bip39MnemonicToSeed(BIP39_PHRASE.replace('about', 'abandon'))).toThrow('checksum does not match');
+  });
+});
+
+describe('mnemonicToSeed', () => {
+  it('picks the format from the word count', () => {
+    expect(mnemonicToSeed(SESSION_PHRASE)).toEqual(sessionMnemonicToSeed(SESSION_PHRASE));
+    expect(mnemonicToSeed(BIP39_PHRASE, 'TREZOR')).toEqual(bip39MnemonicToSeed(BIP39_PHRASE, 'TREZOR'));
+    expect(() => mnemonicToSeed('one two three four five')).toThrow('Invalid mnemonic: expected 13 or 25 words (Session) or 12, 15, 18, 21, 24 words (BIP39), got 5');
+  });
+});
+
+describe('mnemonic identities', () => {
+  it('loads CryptoUtils from a Session phrase and exports the same phrase', () => {
+    const crypto = CryptoUtils.fromSessionMnemonic(SESSION_PHRASE);
+    expect(crypto.getPublicKeyHex()).toBe(new CryptoUtils(sessionMnemonicToSeed(SESSION_PHRASE)).getPublicKeyHex());
+    expect(crypto.toSessionMnemonic()).toBe(SESSION_PHRASE);
+  });
+
+  it('exports full 32-byte seeds as 25-word phrases', () => {
+    const crypto = CryptoUtils.fromBip39Mnemonic(BIP39_PHRASE, 'TREZOR');
+    const phrase = crypto.toSessionMnemonic();
+    expect(phrase.split(' ')).toHaveLength(25);
+    expect(CryptoUtils.fromSessionMnemonic(phrase).getPublicKeyHex()).toBe(crypto.getPublicKeyHex());
+  });
+
+  it('creates generators from phrases', () => {
+    const generator = PostmanParamsGenerator.fromSessionMnemonic(SESSION_PHRASE, true);
+    expect(generator.getSessionIdMode()).toBe(true);
+    expect(generator.getX25519SessionId().toLowerCase()).toBe('059fdc5d00b82e1a62623087d755e0bd1d20a7ee196535f0ee1b639e60d004a23a');
+    expect(generator.getSessionMnemonic()).toBe(SESSION_PHRASE);
+
+    const bip39 = PostmanParamsGenerator.fromBip39Mnemonic(BIP39_PHRASE, 'TREZOR');
+    expect(bip39.getCrypto().getSeed()).toEqual(bip39MnemonicToSeed(BIP39_PHRASE, 'TREZOR'));
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * In-memory stand-in for libsession_util_nodejs, mapped in by jest.config.js when the native module is not installed
+ * A config is a JSON key/value map with a seqno: each batch of edits bumps the seqno once and merging keeps the newest
+ * The classes implement the members config-sync.ts uses, type-checked against the package typings when it is installed
+ */
+import type * as libsession from 'libsession_util_nodejs';
+
+interface ConfigState {
+  seqno: number;
+  values: Record<string, unknown>;
+}
+
+interface ConfigDump extends ConfigState {
+  dirty: boolean;
+  hashes: string[];
+}
+
+function encode(value: unknown): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(value));
+}
+
+function decode<T>(data: Uint8Array): T {
+  return JSON.parse(new TextDecoder().decode(data)) as T;
+}
+
+export class BaseConfigWrapperNode implements Pick<
+  libsession.BaseConfigWrapperNode,
+  'needsDump' | 'needsPush' | 'push' | 'dump' | 'confirmPushed' | 'merge' | 'currentHashes'
+> {
+  protected values: Record<string, unknown> = {};
+  private seqno = 0;
+  private dirty = false;
+  private dumped = true;
+  private hashes = new Set<string>();
+
+  constructor(_secretKey: Uint8Array, dump: Uint8Array | null) {
+    if (dump) {
+      const state = decode<ConfigDump>(dump);
+      this.values = state.values;
+      this.seqno = state.seqno;
+      this.dirty = state.dirty;
+      this.hashes = new Set(state.hashes);
+    }
+  }
+
+  needsDump(): boolean {
+    return !this.dumped;
+  }
+
+  needsPush(): boolean {
+    return this.dirty;
+  }
+
+  push(): { data: Uint8Array; seqno: number; hashes: string[] } {
+    const state: ConfigState = { seqno: this.seqno, values: this.values };
+    return { data: encode(state), seqno: this.seqno, hashes: [...this.hashes] };
+  }
+
+  dump(): Uint8Array {
+    this.dumped = true;
+    const state: ConfigDump = { seqno: this.seqno, values: this.values, dirty: this.dirty, hashes: [...this.hashes] };
+    return encode(state);
+  }
+
+  confirmPushed(seqno: number, hash: string): void {
+    if (seqno === this.seqno) {
+      this.dirty = false;
+    }
+    this.hashes = new Set([hash]);
+    this.dumped = false;
+  }
+
+  merge(toMerge: { hash: string; data: Uint8Array }[]): string[] {
+    for (const { hash, data } of toMerge) {
+      const state = decode<ConfigState>(data);
+      if (state.seqno > this.seqno) {
+        this.values = state.values;
+        this.seqno = state.seqno;
+        this.dirty = false;
+      }
+      this.hashes.add(hash);
+    }
+    this.dumped = false;
+    return toMerge.map(({ hash }) => hash);
+  }
+
+  currentHashes(): string[] {
+    return [...this.hashes];
+  }
+
+  protected set(key: string, value: unknown): void {
+    this.values = { ...this.values, [key]: value };
+    if (!this.dirty) {
+      this.seqno++;
+      this.dirty = true;
+    }
+    this.dumped = false;
+  }
+}
+
+export class UserConfigWrapperNode extends BaseConfigWrapperNode
+  implements Pick<libsession.UserConfigWrapperNode, 'getName' | 'setName'> {
+  getName(): string | null {
+    return (this.values.name as string | undefined) ?? null;
+  }
+
+  setName(name: string): void {
+    this.set('name', name);
+  }
+}
+
+export class ContactsConfigWrapperNode extends BaseConfigWrapperNode {}
+
+export class ConvoInfoVolatileWrapperNode extends BaseConfigWrapperNode {}
+
+export class UserGroupsWrapperNode extends BaseConfigWrapperNode {}
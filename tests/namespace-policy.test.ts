@@ -0,0 +1,87 @@
+import * as hex from '@stablelib/hex';
+import { CryptoUtils } from '../src/crypto';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { MockStorageServer } from '../src/mock-storage-server';
+import { StorageClient } from '../src/storage-client';
+import { verifyRequest } from '../src/request-verifier';
+import {
+  describeNamespace,
+  getNamespaceName,
+  isPublicNamespace,
+  MAX_NAMESPACE,
+  MIN_NAMESPACE,
+  namespaceSignaturePart,
+  requiresSignature,
+  SessionNamespace,
+  validateNamespace
+} from '../src/namespace-policy';
+
+const SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+
+describe('namespace policy', () => {
+  it('accepts only integers in the signed 16-bit range', () => {
+    expect(validateNamespace(MIN_NAMESPACE)).toBe(-32768);
+    expect(validateNamespace(MAX_NAMESPACE)).toBe(32767);
+    for (const bad of [32768, -32769, 1.5, NaN, '5', undefined]) {
+      expect(() => validateNamespace(bad)).toThrow('Invalid namespace: expected an integer from -32768 to 32767');
+    }
+  });
+
+  it('decides which operations need a signature', () => {
+    expect(describeNamespace(SessionNamespace.Default)).toEqual({
+      namespace: 0,
+      name: 'Default',
+      public: true,
+      signed: { store: false, retrieve: true, delete: true }
+    });
+    expect(describeNamespace(SessionNamespace.LegacyClosedGroup).signed).toEqual({ store: false, retrieve: false, delete: true });
+    expect(describeNamespace(SessionNamespace.UserProfile).signed).toEqual({ store: true, retrieve: true, delete: true });
+    expect(describeNamespace(-400)).toEqual({
+      namespace: -400,
+      public: true,
+      signed: { store: false, retrieve: true, delete: true }
+    });
+
+    expect(isPublicNamespace(-20)).toBe(true);
+    expect(requiresSignature(17, 'store')).toBe(true);
+    expect(getNamespaceName(SessionNamespace.GroupKeys)).toBe('GroupKeys');
+    expect(getNamespaceName(7)).toBeUndefined();
+  });
+
+  it('omits the default namespace from signing strings', () => {
+    expect(namespaceSignaturePart(undefined)).toBe('');
+    expect(namespaceSignaturePart(0)).toBe('');
+    expect(namespaceSignaturePart(-10)).toBe('-10');
+    expect(namespaceSignaturePart('all')).toBe('all');
+    expect(() => namespaceSignaturePart(40000)).toThrow('Invalid namespace');
+  });
+
+  it('is applied the same way by the generator, the verifier and the mock server', async () => {
+    const generator = new PostmanParamsGenerator(SEED);
+    expect(() => generator.getStoreParams('hi', 1000, 40000)).toThrow('Invalid namespace');
+    expect(() => generator.getRetrieveParams(undefined, -40000)).toThrow('Invalid namespace');
+    expect(() => new CryptoUtils(SEED).signPushSubscribe(1, [0, 1.5], true, new Uint8Array(33))).toThrow('Invalid namespace');
+
+    const invalid = { method: 'retrieve', params: { ...generator.getRetrieveParams().params, namespace: 40000 } };
+    expect(verifyRequest(invalid).issues).toEqual([expect.objectContaining({ field: 'namespace' })]);
+
+    const server = new MockStorageServer();
+    const client = new StorageClient(await server.start(), generator);
+    const requests = [
+      generator.getStoreParams('public', 1000, SessionNamespace.LegacyClosedGroup),
+      generator.getStoreParams('private', 1000, SessionNamespace.ConvoInfoVolatile),
+      generator.getRetrieveParams(undefined, SessionNamespace.LegacyClosedGroup),
+      generator.getExpireAllParams(generator.now() + 1000, 'all')
+    ];
+    try {
+      for (const request of requests) {
+        expect(verifyRequest(request).valid).toBe(true);
+        await expect(client.send(request)).resolves.toBeDefined();
+      }
+    } finally {
+      await server.stop();
+    }
+    expect(requests[0].params.signature).toBeUndefined();
+    expect(requests[2].params.signature).toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+import * as hex from '@stablelib/hex';
+import { CryptoUtils } from '../src/crypto';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { MockStorageServer } from '../src/mock-storage-server';
+import { StorageClient } from '../src/storage-client';
+import { StorageUnauthorizedError } from '../src/errors';
+import {
+  OnionRequestBuilder,
+  OnionEncryptionType,
+  decodeOnionPayload,
+  encodeOnionPayload,
+  encryptWithOnionKey,
+  peelOnionLayer
+} from '../src/onion-request';
+import { RetrieveResult, StoreResult } from '../src/types';
+
+const SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+
+function hop(node: CryptoUtils) {
+  return { pubkey_ed25519: node.getPublicKeyHex(), pubkey_x25519: node.getX25519PublicKeyHex() };
+}
+
+describe('onion requests', () => {
+  const generator = new PostmanParamsGenerator(SEED);
+
+  it('round-trips the payload framing', () => {
+    const ciphertext = new Uint8Array([1, 2, 3, 4, 5]);
+    const payload = encodeOnionPayload(ciphertext, { ephemeral_key: 'ab', enc_type: 'xchacha20' });
+
+    expect(decodeOnionPayload(payload)).toEqual({ ciphertext, info: { ephemeral_key: 'ab', enc_type: 'xchacha20' } });
+    expect(() => decodeOnionPayload(payload.slice(0, 6))).toThrow('exceeds payload size');
+  });
+
+  it('rejects an empty path', () => {
+    expect(() => new OnionRequestBuilder([])).toThrow('at least one service node');
+  });
+
+  describe.each<OnionEncryptionType>(['aes-gcm', 'xchacha20'])('%s layers', encType => {
+    const nodes = [new CryptoUtils(), new CryptoUtils(), new CryptoUtils()];
+    const builder = new OnionRequestBuilder(nodes.map(hop), encType);
+
+    it('lets each hop learn only the next one and the destination read the request', async () => {
+      const request = generator.getRetrieveParams(undefined, 2);
+      const onion = await builder.build(request);
+
+      const first = await peelOnionLayer(onion.payload, nodes[0]);
+      const toSecond = decodeOnionPayload(first.plaintext);
+      expect(toSecond.info.destination).toBe(nodes[1].getPublicKeyHex());
+
+      const second = await peelOnionLayer(encodeOnionPayload(toSecond.ciphertext, toSecond.info), nodes[1]);
+      const toThird = decodeOnionPayload(second.plaintext);
+      expect(toThird.info.destination).toBe(nodes[2].getPublicKeyHex());
+
+      const final = await peelOnionLayer(encodeOnionPayload(toThird.ciphertext, toThird.info), nodes[2]);
+      const { body } = JSON.parse(new TextDecoder().decode(final.plaintext));
+      expect(JSON.parse(body)).toEqual({ method: request.method, params: request.params });
+      expect(final.key).toEqual(onion.destinationKey);
+    });
+
+    it('cannot be peeled by a node off the path', async () => {
+      const onion = await builder.build(generator.getSwarmParams());
+      await expect(peelOnionLayer(onion.payload, nodes[1])).rejects.toThrow('Failed to decrypt onion layer');
+    });
+
+    it('decrypts the destination response', async () => {
+      const onion = await builder.build(generator.getSwarmParams());
+      const response = JSON.stringify({ status: 200, body: JSON.stringify({ snodes: [] }) });
+      const encrypted = await encryptWithOnionKey(new TextEncoder().encode(response), onion.destinationKey, encType);
+
+      await expect(builder.decryptResponse(Buffer.from(encrypted).toString('base64'), onion))
+        .resolves.toEqual({ status: 200, body: { snodes: [] } });
+    });
+  });
+
+  describe('against the mock storage server', () => {
+    const server = new MockStorageServer();
+    let client: StorageClient;
+
+    beforeAll(async () => {
+      client = new StorageClient(await server.start(), generator);
+    });
+
+    afterAll(() => server.stop());
+
+    it.each<OnionEncryptionType>(['aes-gcm', 'xchacha20'])('stores and retrieves over a 3-hop %s path', async encType => {
+      const path = server.getOnionPath(3);
+      const stored = await client.sendOnion<StoreResult>(generator.getStoreParams('b25pb24=', 86400000, 1), path, encType);
+      const retrieved = await client.sendOnion<RetrieveResult>(generator.getRetrieveParams(undefined, 1), path, encType);
+
+      expect(retrieved.messages.map(m => m.hash)).toContain(stored.hash);
+    });
+
+    it('maps errors returned by the destination to typed errors', async () => {
+      const request = generator.getRetrieveParams(undefined, 1);
+      request.params.signature = generator.getRetrieveParams(undefined, 2).params.signature;
+
+      await expect(client.sendOnion(request, server.getOnionPath(2))).rejects.toThrow(StorageUnauthorizedError);
+    });
+
+    it('reports relay failures for unknown hops', async () => {
+      const path = [server.getSnodeInfo(), hop(new CryptoUtils())];
+      await expect(client.sendOnion(generator.getSwarmParams(), path)).rejects.toMatchObject({ code: 502, message: expect.stringContaining('next node not found') });
+    });
+
+    it('answers 500 when the entry node fails while handling the onion', async () => {
+      jest.spyOn(server, 'handleOnionRequest').mockRejectedValueOnce(new Error('entry node failure'));
+      await expect(client.sendOnion(generator.getSwarmParams(), server.getOnionPath(1)))
+        .rejects.toMatchObject({ code: 500, message: expect.stringContaining('entry node failure') });
+    });
+  });
+});
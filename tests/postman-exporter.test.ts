@@ -0,0 +1,132 @@
+import * as hex from '@stablelib/hex';
+import * as ed25519 from '@stablelib/ed25519';
+import * as os from 'os';
+import * as path from 'path';
+import * as vm from 'vm';
+import { promises as fs } from 'fs';
+import { CryptoUtils } from '../src/crypto';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { POSTMAN_COLLECTION_SCHEMA, PostmanCollection, PostmanCollectionExporter, PostmanEnvironment } from '../src/postman-exporter';
+import { verifyRequest } from '../src/request-verifier';
+
+const OWNER_SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+const SUBACCOUNT_SEED = hex.decode('2466D62FFF7246D201B111FEE08F4B9DCE7CD9303436CA3555E84BF99A0CEE19');
+
+/**
+ * Run the collection's pre-request script against a request body in a minimal Postman sandbox
+ */
+function runPreRequestScript(collection: PostmanCollection, environment: PostmanEnvironment, raw: string, now: number): string {
+  const variables = new Map(environment.values.map(({ key, value }) => [key, value]));
+  const body = {
+    mode: 'raw',
+    raw,
+    update(value: string) {
+      this.raw = value;
+    }
+  };
+  const pm = {
+    environment: { get: (key: string) => variables.get(key) },
+    request: { body },
+    // Stand-in for tweetnacl's detached signing
+    require: () => ({ sign: { detached: (message: Uint8Array, secretKey: Uint8Array) => ed25519.sign(secretKey, message) } })
+  };
+
+  vm.runInNewContext(collection.event![0].script.exec.join('\n'), { pm, btoa, Date: { now: () => now }, Uint8Array, Array, String, unescape, encodeURIComponent, JSON, Math, parseInt });
+  return body.raw;
+}
+
+describe('PostmanCollectionExporter', () => {
+  const generator = new PostmanParamsGenerator(OWNER_SEED);
+  const subaccountUser = new CryptoUtils(SUBACCOUNT_SEED);
+  const delegation = generator.generateSubaccountDelegation(subaccountUser.getPublicKeyHex(), 7, 0);
+  const exporter = new PostmanCollectionExporter(generator, {
+    baseUrl: 'https://snode.example:22021',
+    includeSecretValues: true,
+    subaccount: { token: delegation.subaccountToken, signature: delegation.subaccountSignature, crypto: subaccountUser }
+  });
+
+  it('builds a v2.1 collection with one item per RPC', () => {
+    const collection = exporter.buildCollection();
+
+    expect(collection.info.schema).toBe(POSTMAN_COLLECTION_SCHEMA);
+    expect(collection.item.map(folder => folder.name)).toEqual(['Storage', 'Subaccount', 'Push']);
+
+    const methods = collection.item.flatMap(folder => folder.item).map(item => JSON.parse(item.request.body.raw).method);
+    expect(new Set(methods)).toEqual(new Set([
+      'store', 'retrieve', 'delete', 'delete_all', 'delete_before', 'update', 'expire', 'expire_all',
+      'get_expiries', 'get_swarm', 'revoked_subaccounts', 'revoke_subaccount', 'unrevoke_subaccount', undefined
+    ]));
+
+    const store = collection.item[0].item[1].request;
+    expect(store.url).toEqual({ raw: '{{baseUrl}}/storage_rpc/v1', host: ['{{baseUrl}}'], path: ['storage_rpc', 'v1'] });
+    expect(collection.item[2].item[0].request.url.raw).toBe('{{pushServerUrl}}/subscribe');
+  });
+
+  it('only exports the subaccount items the token permissions allow', () => {
+    const readOnly = generator.generateSubaccountDelegation(subaccountUser.getPublicKeyHex(), 1, 0);
+    const collection = new PostmanCollectionExporter(generator, {
+      subaccount: { token: readOnly.subaccountToken, signature: readOnly.subaccountSignature, crypto: subaccountUser }
+    }).buildCollection();
+
+    expect(collection.item[1].item.map(item => item.name)).toEqual(['retrieve (subaccount)', 'get_expiries (subaccount)']);
+  });
+
+  it('exports every signed item with a valid signature', () => {
+    for (const item of exporter.buildCollection().item.slice(0, 2).flatMap(folder => folder.item)) {
+      expect({ name: item.name, valid: verifyRequest(item.request.body.raw).valid }).toEqual({ name: item.name, valid: true });
+    }
+  });
+
+  it('stores the base URLs, pubkeys, secret signing key and subaccount in the environment', () => {
+    const values = Object.fromEntries(exporter.buildEnvironment().values.map(({ key, value, type }) => [key, { value, type }]));
+
+    expect(values.baseUrl.value).toBe('https://snode.example:22021');
+    expect(values.pubkey.value).toBe(generator.getPublicKey());
+    expect(values.sessionId.value).toBe(generator.getX25519SessionId());
+    expect(values.ed25519SecretKey).toEqual({ value: generator.getCrypto().getSecretKeyHex(), type: 'secret' });
+    expect(values.subaccountToken).toEqual({ value: delegation.subaccountToken, type: 'secret' });
+    expect(values.subaccountSignature).toEqual({ value: delegation.subaccountSignature, type: 'secret' });
+  });
+
+  it('exports secret variables without their values by default', () => {
+    const environment = new PostmanCollectionExporter(generator, {
+      subaccount: { token: delegation.subaccountToken, signature: delegation.subaccountSignature, crypto: subaccountUser }
+    }).buildEnvironment();
+    const secrets = environment.values.filter(({ type }) => type === 'secret');
+
+    expect(secrets.map(({ key, value }) => [key, value])).toEqual([
+      ['ed25519SecretKey', ''], ['subaccountToken', ''], ['subaccountSignature', '']
+    ]);
+    expect(JSON.stringify(environment)).not.toContain(generator.getCrypto().getSecretKeyHex());
+  });
+
+  it('leaves out the script and the signing key when pre-request scripts are disabled', () => {
+    const plain = new PostmanCollectionExporter(generator, { preRequestScripts: false });
+
+    expect(plain.buildCollection().event).toBeUndefined();
+    expect(plain.buildEnvironment().values.map(v => v.key)).not.toContain('ed25519SecretKey');
+  });
+
+  it('re-signs stale requests at send time with the pre-request script', () => {
+    const collection = exporter.buildCollection();
+    const environment = exporter.buildEnvironment();
+    const later = Date.now() + 10 * 60 * 1000;
+
+    for (const item of collection.item[0].item) {
+      const resigned = runPreRequestScript(collection, environment, item.request.body.raw, later);
+      expect({ name: item.name, issues: verifyRequest(resigned, { now: later }).issues }).toEqual({ name: item.name, issues: [] });
+    }
+  });
+
+  it('writes collection and environment files', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'postman-'));
+    try {
+      const files = await new PostmanCollectionExporter(generator, { name: 'Oxen Storage RPC' }).writeFiles(dir);
+
+      expect(path.basename(files.collection)).toBe('Oxen_Storage_RPC.postman_collection.json');
+      expect(JSON.parse(await fs.readFile(files.environment, 'utf8'))._postman_variable_scope).toBe('environment');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,338 @@
+import * as ed25519 from '@stablelib/ed25519';
+import * as base64 from '@stablelib/base64';
+import * as hex from '@stablelib/hex';
+import { CryptoUtils, deterministicRandomBytes, fixedClock } from '../src/crypto';
+import { PostmanParamsGenerator } from '../src/postman-params';
+
+const OWNER_SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+const SUBACCOUNT_SEED = hex.decode('2466D62FFF7246D201B111FEE08F4B9DCE7CD9303436CA3555E84BF99A0CEE19');
+const NOW = 1753933969153;
+
+function verifies(publicKeyHex: string, message: string, signature: string): boolean {
+  return ed25519.verify(hex.decode(publicKeyHex), new TextEncoder().encode(message), base64.decode(signature));
+}
+
+describe('PostmanParamsGenerator', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    jest.spyOn(CryptoUtils, 'generateRandomBytes').mockImplementation(length => new Uint8Array(length).fill(7));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe.each([
+    ['owner', false],
+    ['session id', true]
+  ])('%s mode snapshots', (_mode, isSessionId) => {
+    const generator = new PostmanParamsGenerator(OWNER_SEED, isSessionId);
+
+    it('getStoreParams', () => {
+      expect(generator.getStoreParams('Hello World!', 86400000, 0)).toMatchSnapshot();
+      expect(generator.getStoreParams('Hello World!', 86400000, 3)).toMatchSnapshot();
+    });
+
+    it('getRetrieveParams', () => {
+      expect(generator.getRetrieveParams('m4z+WvLvlieg97cMoq4r9ABrBAKA14YWdEXdnp/ubtU', 0, 100, -5)).toMatchSnapshot();
+      expect(generator.getRetrieveParams(undefined, -10)).toMatchSnapshot();
+    });
+
+    it('getRetrieveParamsX25519', () => {
+      expect(generator.getRetrieveParamsX25519(undefined, 2)).toMatchSnapshot();
+    });
+
+    it('getDeleteParams', () => {
+      expect(generator.getDeleteParams(['hash1', 'hash2'], true)).toMatchSnapshot();
+    });
+
+    it('getDeleteAllParams', () => {
+      expect(generator.getDeleteAllParams(0)).toMatchSnapshot();
+    });
+
+    it('getDeleteBeforeParams', () => {
+      expect(generator.getDeleteBeforeParams(NOW - 3600000, 3)).toMatchSnapshot();
+      expect(generator.getDeleteBeforeParams(NOW - 3600000)).toMatchSnapshot();
+    });
+
+    it('getUpdateParams', () => {
+      expect(generator.getUpdateParams('Updated data!', 'hash1')).toMatchSnapshot();
+    });
+
+    it('getSwarmParams', () => {
+      expect(generator.getSwarmParams()).toMatchSnapshot();
+    });
+
+    it('getMessagesParams', () => {
+      expect(generator.getMessagesParams()).toMatchSnapshot();
+    });
+
+    it('getExpiriesParams', () => {
+      expect(generator.getExpiriesParams(['hash1'])).toMatchSnapshot();
+    });
+
+    it('getExpireAllParams', () => {
+      expect(generator.getExpireAllParams(NOW + 3600000, 0)).toMatchSnapshot();
+      expect(generator.getExpireAllParams(NOW + 3600000)).toMatchSnapshot();
+    });
+
+    it('getExpireMsgsParams', () => {
+      expect(generator.getExpireMsgsParams(['hash1'], NOW + 7200000, false, true)).toMatchSnapshot();
+    });
+
+    it('getRevokeSubaccountParams', () => {
+      const { subaccountToken } = generator.generateSubaccountDelegation(
+        new CryptoUtils(SUBACCOUNT_SEED).getPublicKeyHex(), 1, 0
+      );
+      expect(generator.getRevokeSubaccountParams(subaccountToken)).toMatchSnapshot();
+    });
+
+    it('getUnrevokeSubaccountParams and getRevokedSubaccountsParams', () => {
+      const { subaccountToken } = generator.generateSubaccountDelegation(
+        new CryptoUtils(SUBACCOUNT_SEED).getPublicKeyHex(), 1, 0
+      );
+      expect(generator.getUnrevokeSubaccountParams([subaccountToken])).toMatchSnapshot();
+      expect(generator.getRevokedSubaccountsParams()).toMatchSnapshot();
+    });
+
+    it('getPushSubscribeParams', () => {
+      expect(generator.getPushSubscribeParams()).toMatchSnapshot();
+    });
+
+    it('getPushUnsubscribeParams', () => {
+      expect(generator.getPushUnsubscribeParams()).toMatchSnapshot();
+    });
+
+    it('unsigned informational params', () => {
+      expect(generator.getStatsParams()).toMatchSnapshot();
+      expect(generator.getBStatsParams()).toMatchSnapshot();
+      expect(generator.getVersionParams()).toMatchSnapshot();
+      expect(generator.getOxendRequestParams()).toMatchSnapshot();
+    });
+
+    it('test_* params', () => {
+      expect([
+        generator.getTestParams(),
+        generator.getTestRetrieveParams(),
+        generator.getTestDeleteParams(),
+        generator.getTestUpdateParams(),
+        generator.getTestExpireParams(),
+        generator.getTestExpire2Params(),
+        generator.getTestExpire3Params(),
+        generator.getTestExpire4Params(),
+        generator.getTestExpire5Params(),
+        generator.getTestExpire6Params()
+      ]).toMatchSnapshot();
+    });
+  });
+
+  describe('subaccount snapshots', () => {
+    const owner = new PostmanParamsGenerator(OWNER_SEED);
+    const subaccountUser = PostmanParamsGenerator.createSubaccountUser(SUBACCOUNT_SEED);
+    const delegation = owner.generateSubaccountDelegation(subaccountUser.getPublicKeyHex(), 7);
+
+    it('getStoreParamsWithSubaccount', () => {
+      expect(owner.getStoreParamsWithSubaccount(
+        'Hello from subaccount user!', 86400000, 1,
+        delegation.subaccountToken, delegation.subaccountSignature, subaccountUser
+      )).toMatchSnapshot();
+    });
+
+    it('getRetrieveParamsWithSubaccount', () => {
+      expect(owner.getRetrieveParamsWithSubaccount(
+        undefined, 0, 100, -5,
+        delegation.subaccountToken, delegation.subaccountSignature, subaccountUser
+      )).toMatchSnapshot();
+    });
+
+    it('getDeleteParamsWithSubaccount', () => {
+      expect(owner.getDeleteParamsWithSubaccount(
+        ['hash1'], true,
+        delegation.subaccountToken, delegation.subaccountSignature, subaccountUser
+      )).toMatchSnapshot();
+    });
+
+    it('getDeleteBeforeParamsWithSubaccount', () => {
+      expect(owner.getDeleteBeforeParamsWithSubaccount(
+        NOW - 3600000, 'all',
+        delegation.subaccountToken, delegation.subaccountSignature, subaccountUser
+      )).toMatchSnapshot();
+    });
+
+    it('getDeleteAllParamsWithSubaccount', () => {
+      expect(owner.getDeleteAllParamsWithSubaccount(
+        1, delegation.subaccountToken, delegation.subaccountSignature, subaccountUser
+      )).toMatchSnapshot();
+    });
+
+    it('getUpdateParamsWithSubaccount', () => {
+      expect(owner.getUpdateParamsWithSubaccount(
+        'Updated by subaccount user!', 'hash1',
+        delegation.subaccountToken, delegation.subaccountSignature, subaccountUser
+      )).toMatchSnapshot();
+    });
+
+    it('getExpireMsgsParamsWithSubaccount', () => {
+      expect(owner.getExpireMsgsParamsWithSubaccount(
+        ['hash1'], NOW + 3600000, true, undefined,
+        delegation.subaccountToken, delegation.subaccountSignature, subaccountUser
+      )).toMatchSnapshot();
+    });
+
+    it('getExpireAllParamsWithSubaccount', () => {
+      expect(owner.getExpireAllParamsWithSubaccount(
+        NOW + 3600000, 1,
+        delegation.subaccountToken, delegation.subaccountSignature, subaccountUser
+      )).toMatchSnapshot();
+    });
+
+    it('getExpiriesParamsWithSubaccount', () => {
+      expect(owner.getExpiriesParamsWithSubaccount(
+        ['hash1'], delegation.subaccountToken, delegation.subaccountSignature, subaccountUser
+      )).toMatchSnapshot();
+    });
+
+    it('checks the token permissions before signing', () => {
+      const readOnly = owner.generateSubaccountDelegation(subaccountUser.getPublicKeyHex(), 1);
+      const writeOnly = owner.generateSubaccountDelegation(subaccountUser.getPublicKeyHex(), 2);
+      const { subaccountToken: read, subaccountSignature: readSig } = readOnly;
+
+      expect(() => owner.getDeleteAllParamsWithSubaccount(0, read, readSig, subaccountUser))
+        .toThrow('Subaccount token cannot delete_all: it lacks delete permission (token permissions: 1)');
+      expect(() => owner.getUpdateParamsWithSubaccount('data', 'hash1', read, readSig, subaccountUser)).toThrow('lacks write permission');
+      expect(() => owner.getExpireMsgsParamsWithSubaccount(['hash1'], NOW, undefined, undefined, read, readSig, subaccountUser))
+        .toThrow('lacks write and delete permission');
+      expect(() => owner.getExpireMsgsParamsWithSubaccount(['hash1'], NOW, undefined, true, writeOnly.subaccountToken, writeOnly.subaccountSignature, subaccountUser))
+        .not.toThrow();
+      expect(() => owner.getExpiriesParamsWithSubaccount(['hash1'], writeOnly.subaccountToken, writeOnly.subaccountSignature, subaccountUser))
+        .toThrow('lacks read permission');
+      expect(() => owner.getPushSubscribeParamsWithSubaccount([0], true, 'apns', {}, writeOnly.subaccountToken, writeOnly.subaccountSignature, subaccountUser))
+        .toThrow('cannot subscribe to push notifications: it lacks read permission');
+      expect(() => owner.getStoreParamsWithSubaccount('data', 1000, 1, 'abcd', readSig, subaccountUser))
+        .toThrow('Invalid subaccount token');
+    });
+  });
+
+  describe('pubkey handling', () => {
+    it('uses 00 + Ed25519 pubkey without pubkey_ed25519 in owner mode', () => {
+      const generator = new PostmanParamsGenerator(OWNER_SEED);
+      const { params } = generator.getStoreParams('data', 86400000, 3);
+
+      expect(params.pubkey).toBe(`00${generator.getPublicKeyNoPrefix()}`);
+      expect(params.pubkey_ed25519).toBeUndefined();
+      expect(verifies(params.pubkey.slice(2), `store3${NOW}`, params.signature!)).toBe(true);
+    });
+
+    it('uses 05 + X25519 pubkey and signs with pubkey_ed25519 in Session ID mode', () => {
+      const generator = new PostmanParamsGenerator(OWNER_SEED, true);
+      const { params } = generator.getStoreParams('data', 86400000, 3);
+
+      expect(params.pubkey).toBe(`05${generator.getX25519SessionIdNoPrefix()}`);
+      expect(params.pubkey_ed25519).toBe(generator.getPublicKeyNoPrefix());
+      expect(verifies(params.pubkey_ed25519!, `store3${NOW}`, params.signature!)).toBe(true);
+    });
+
+    it('switches modes with setSessionIdMode', () => {
+      const generator = new PostmanParamsGenerator(OWNER_SEED);
+      generator.setSessionIdMode(true);
+
+      expect(generator.getSessionIdMode()).toBe(true);
+      expect(generator.getRetrieveParams().params.pubkey.startsWith('05')).toBe(true);
+    });
+
+    it('looks up the swarm of the 05 Session ID in Session ID mode', () => {
+      const generator = new PostmanParamsGenerator(OWNER_SEED, true);
+      expect(generator.getSwarmParams().params.pubkey).toBe(generator.getX25519SessionId());
+    });
+
+    it('includes session_ed25519 only for Session ID push subscriptions', () => {
+      expect(new PostmanParamsGenerator(OWNER_SEED).getPushSubscribeParams().session_ed25519).toBeUndefined();
+      expect(new PostmanParamsGenerator(OWNER_SEED, true).getPushSubscribeParams().session_ed25519).toBeDefined();
+      expect(new PostmanParamsGenerator(OWNER_SEED).getPushUnsubscribeParams().session_ed25519).toBeUndefined();
+      expect(new PostmanParamsGenerator(OWNER_SEED, true).getPushUnsubscribeParams().session_ed25519).toBeDefined();
+    });
+
+    it('reuses one push enc_key across subscriptions and accepts a saved one', async () => {
+      const generator = new PostmanParamsGenerator(OWNER_SEED);
+      await expect(generator.decryptPushNotification('')).rejects.toThrow('No push enc_key');
+
+      const first = generator.getPushSubscribeParams([0]);
+      expect(generator.getPushSubscribeParams([1]).enc_key).toBe(first.enc_key);
+      expect(first.enc_key).toBe(generator.getPushEncKey());
+
+      generator.setPushEncKey('ab'.repeat(32));
+      expect(generator.getPushSubscribeParams().enc_key).toBe('AB'.repeat(32));
+      expect(() => generator.setPushEncKey(new Uint8Array(16))).toThrow('enc_key must be 32 bytes, got 16');
+    });
+
+    it('produces identical requests from an injected clock and random source', () => {
+      jest.restoreAllMocks();
+      const deterministic = () => new PostmanParamsGenerator(OWNER_SEED, true, {
+        now: fixedClock(NOW),
+        clockOffsetMs: 1000,
+        randomBytes: deterministicRandomBytes('snapshot')
+      });
+
+      const first = deterministic();
+      const second = deterministic();
+      expect(first.getStoreParams('hi', 86400000, 3)).toEqual(second.getStoreParams('hi', 86400000, 3));
+      expect(first.getPushSubscribeParams()).toEqual(second.getPushSubscribeParams());
+      expect(first.getDeleteAllParams(0).params.timestamp).toBe(NOW + 1000);
+      expect(first.getPushSubscribeParams().sig_ts).toBe(Math.floor((NOW + 1000) / 1000));
+    });
+
+    it('keeps the clock when the seed is replaced', () => {
+      const generator = new PostmanParamsGenerator(OWNER_SEED, false, { now: fixedClock(NOW), clockOffsetMs: -5 });
+      generator.setCrypto(SUBACCOUNT_SEED);
+      expect(generator.getRetrieveParams().params.timestamp).toBe(NOW - 5);
+    });
+  });
+
+  describe('methods and signatures', () => {
+    const generator = new PostmanParamsGenerator(OWNER_SEED);
+    const pubkeyHex = generator.getPublicKeyNoPrefix();
+
+    it('names each request after its RPC method', () => {
+      expect(generator.getStoreParams().method).toBe('store');
+      expect(generator.getRetrieveParams().method).toBe('retrieve');
+      expect(generator.getDeleteParams().method).toBe('delete');
+      expect(generator.getDeleteAllParams().method).toBe('delete_all');
+      expect(generator.getDeleteBeforeParams().method).toBe('delete_before');
+      expect(generator.getUpdateParams().method).toBe('update');
+      expect(generator.getSwarmParams().method).toBe('get_swarm');
+      expect(generator.getExpiriesParams().method).toBe('get_expiries');
+      expect(generator.getExpireAllParams().method).toBe('expire_all');
+      expect(generator.getExpireMsgsParams().method).toBe('expire');
+      expect(generator.getRevokeSubaccountParams('00').method).toBe('revoke_subaccount');
+    });
+
+    it('only signs store requests for non-public namespaces', () => {
+      expect(generator.getStoreParams('data', 86400000, 0).params.signature).toBeUndefined();
+      expect(generator.getStoreParams('data', 86400000, 10).params.signature).toBeUndefined();
+      expect(generator.getStoreParams('data', 86400000, -10).params.signature).toBeUndefined();
+      expect(generator.getStoreParams('data', 86400000, 2).params.signature).toBeDefined();
+    });
+
+    it('does not sign retrieve for the legacy -10 namespace', () => {
+      expect(generator.getRetrieveParams(undefined, -10).params.signature).toBeUndefined();
+    });
+
+    it('produces signatures that verify against the request fields', () => {
+      const update = generator.getUpdateParams('new', 'hash1').params;
+      expect(verifies(pubkeyHex, `update${update.timestamp}hash1${update.data}`, update.signature)).toBe(true);
+
+      const expiries = generator.getExpiriesParams(['hash1', 'hash2']).params;
+      expect(verifies(pubkeyHex, `get_expiries${expiries.timestamp}hash1hash2`, expiries.signature)).toBe(true);
+
+      const deleteAll = generator.getDeleteAllParams(4).params;
+      expect(verifies(pubkeyHex, `delete_all4${deleteAll.timestamp}`, deleteAll.signature)).toBe(true);
+    });
+
+    it('signs expire_all for all namespaces as "expire_all" || "all" || expiry', () => {
+      const expireAll = generator.getExpireAllParams(123, 'all').params;
+      expect(expireAll.namespace).toBe('all');
+      expect(verifies(pubkeyHex, 'expire_allall123', expireAll.signature)).toBe(true);
+      expect(verifies(pubkeyHex, 'expire_all123', generator.getExpireAllParams(123).params.signature)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as ed25519 from '@stablelib/ed25519';
+import * as base64 from '@stablelib/base64';
+import * as hex from '@stablelib/hex';
+import { CryptoUtils } from '../src/crypto';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { PushClient } from '../src/push-client';
+import { PushServerError } from '../src/errors';
+
+const OWNER_SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+const SUBACCOUNT_SEED = hex.decode('2466D62FFF7246D201B111FEE08F4B9DCE7CD9303436CA3555E84BF99A0CEE19');
+
+function verifies(publicKey: Uint8Array, message: string, signature: string): boolean {
+  return ed25519.verify(publicKey, new TextEncoder().encode(message), base64.decode(signature));
+}
+
+describe('PushClient', () => {
+  const owner = new PostmanParamsGenerator(OWNER_SEED);
+  const received: Array<{ url: string; body: any }> = [];
+  let reply: { status: number; body: object } = { status: 200, body: { success: true } };
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => raw += chunk);
+      req.on('end', () => {
+        received.push({ url: req.url ?? '', body: JSON.parse(raw) });
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    received.length = 0;
+    reply = { status: 200, body: { success: true } };
+  });
+
+  it('posts signed subscriptions to /subscribe', async () => {
+    const client = new PushClient(url, owner);
+    await expect(client.subscribe([0, 1], false, 'firebase', { token: 'abc' })).resolves.toEqual({ success: true });
+
+    const { url: path, body } = received[0];
+    expect(path).toBe('/subscribe');
+    expect(body).toMatchObject({ pubkey: owner.getPublicKey(), namespaces: [0, 1], data: false, service: 'firebase' });
+    const message = `MONITOR${body.pubkey.toLowerCase()}${body.sig_ts}00,1`;
+    expect(verifies(owner.getOwnerEd25519Pubkey(), message, body.signature)).toBe(true);
+  });
+
+  it.each([
+    ['owner', false],
+    ['session id', true]
+  ])('signs unsubscribes in %s mode', async (_mode, isSessionId) => {
+    const generator = new PostmanParamsGenerator(OWNER_SEED, isSessionId);
+    await new PushClient(url, generator).unsubscribe('apns', { token: 'device' });
+
+    const { url: path, body } = received[0];
+    expect(path).toBe('/unsubscribe');
+    expect(body).toMatchObject({ service: 'apns', service_info: { token: 'device' } });
+    expect(body.pubkey.slice(0, 2)).toBe(isSessionId ? '05' : '00');
+    expect(body.session_ed25519 !== undefined).toBe(isSessionId);
+    expect(verifies(generator.getOwnerEd25519Pubkey(), `UNSUBSCRIBE${body.pubkey.toLowerCase()}${body.sig_ts}`, body.signature)).toBe(true);
+  });
+
+  it('signs subaccount unsubscribes with the blinded key in the token', () => {
+    const holder = new CryptoUtils(SUBACCOUNT_SEED);
+    const { subaccountToken, subaccountSignature } = owner.generateSubaccountDelegation(holder.getPublicKeyHex(), 1);
+    const params = owner.getPushUnsubscribeParamsWithSubaccount('apns', { token: 'device' }, subaccountToken, subaccountSignature, holder);
+
+    expect(params).toMatchObject({
+      pubkey: owner.getX25519SessionId(),
+      session_ed25519: owner.getPublicKeyNoPrefix(),
+      subaccount: subaccountToken,
+      subaccount_sig: subaccountSignature
+    });
+    const blindedPubkey = hex.decode(subaccountToken).slice(4);
+    expect(verifies(blindedPubkey, `UNSUBSCRIBE${params.pubkey.toLowerCase()}${params.sig_ts}`, params.signature)).toBe(true);
+    expect(verifies(holder.getEd25519KeyPair().publicKey, `UNSUBSCRIBE${params.pubkey.toLowerCase()}${params.sig_ts}`, params.signature)).toBe(false);
+  });
+
+  it('throws PushServerError with the error code from the response body', async () => {
+    reply = { status: 200, body: { error: 2, message: 'Invalid signature' } };
+    const error = await new PushClient(url, owner).unsubscribe().catch(e => e);
+
+    expect(error).toBeInstanceOf(PushServerError);
+    expect(error).toMatchObject({ endpoint: '/unsubscribe', code: 2, message: '/unsubscribe failed (2): Invalid signature' });
+  });
+
+  it('falls back to the HTTP status when the body has no error code', async () => {
+    reply = { status: 503, body: { message: 'Service unavailable' } };
+    await expect(new PushClient(url, owner).subscribe()).rejects.toMatchObject({ code: 503 });
+  });
+});
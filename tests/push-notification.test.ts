@@ -0,0 +1,187 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as hex from '@stablelib/hex';
+import { CryptoUtils } from '../src/crypto';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { PushClient } from '../src/push-client';
+import { PushServerError } from '../src/errors';
+import { MockPushServer, PushWebhookNotification } from '../src/mock-push-server';
+import {
+  decodePushNotification,
+  decryptPushNotification,
+  encodePushNotification,
+  encryptPushNotification,
+  MAX_PUSH_DATA_LENGTH,
+  PushNotificationMetadata
+} from '../src/push-notification';
+
+const OWNER_SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+const SUBACCOUNT_SEED = hex.decode('2466D62FFF7246D201B111FEE08F4B9DCE7CD9303436CA3555E84BF99A0CEE19');
+const ENC_KEY = '11'.repeat(32);
+
+describe('push notification payloads', () => {
+  const metadata: PushNotificationMetadata = {
+    account: `05${'ab'.repeat(32)}`,
+    hash: 'hash1',
+    namespace: -400,
+    dataLength: 5,
+    timestamp: 1753933969153,
+    expiry: 1754020369153
+  };
+
+  it('bencodes [metadata, data] with sorted keys and pads to 256 bytes', () => {
+    const encoded = encodePushNotification({ metadata, data: new TextEncoder().encode('hello') });
+    expect(encoded.length).toBe(256);
+
+    const text = new TextDecoder().decode(encoded).replace(/\0+$/, '');
+    expect(text.startsWith('ld1:#5:hash11:@33:')).toBe(true);
+    expect(text.endsWith('1:li5e1:ni-400e1:ti1753933969153e1:zi1754020369153ee5:helloe')).toBe(true);
+
+    expect(decodePushNotification(encoded)).toEqual({ metadata, data: new TextEncoder().encode('hello') });
+  });
+
+  it('round-trips through XChaCha20-Poly1305 and rejects the wrong key', async () => {
+    const payload = await encryptPushNotification({ metadata: { ...metadata, dataLength: 9000, dataTooLong: true } }, ENC_KEY);
+    expect(payload.length).toBe(24 + 256 + 16);
+
+    const decrypted = await decryptPushNotification(payload, hex.decode(ENC_KEY));
+    expect(decrypted.data).toBeUndefined();
+    expect(decrypted.metadata).toMatchObject({ dataLength: 9000, dataTooLong: true });
+
+    await expect(decryptPushNotification(payload, '22'.repeat(32))).rejects.toThrow('wrong enc_key or corrupted payload');
+    await expect(decryptPushNotification(payload, '11')).rejects.toThrow('enc_key must be 32 bytes, got 1');
+  });
+
+  it('rejects malformed plaintexts', () => {
+    const encoder = new TextEncoder();
+    expect(() => decodePushNotification(encoder.encode('le'))).toThrow('expected a list of metadata and optional data');
+    expect(() => decodePushNotification(encoder.encode('ld1:#1:xee'))).toThrow('`@` must be a 33-byte account');
+    expect(() => decodePushNotification(encoder.encode('ld1:#1:x'))).toThrow('truncated bencode');
+
+    const valid = encodePushNotification({ metadata });
+    valid[valid.length - 1] = 1;
+    expect(() => decodePushNotification(valid)).toThrow('unexpected data after the bencoded list');
+  });
+});
+
+describe('MockPushServer', () => {
+  const owner = new PostmanParamsGenerator(OWNER_SEED, true);
+  const received: PushWebhookNotification[] = [];
+  const pushServer = new MockPushServer();
+  let webhook: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    webhook = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => raw += chunk);
+      req.on('end', () => {
+        received.push(JSON.parse(raw));
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => webhook.listen(0, '127.0.0.1', resolve));
+    pushServer.setWebhookUrl(`http://127.0.0.1:${(webhook.address() as AddressInfo).port}/`);
+    url = await pushServer.start();
+  });
+
+  afterAll(async () => {
+    await pushServer.stop();
+    await new Promise(resolve => webhook.close(resolve));
+  });
+
+  afterEach(() => {
+    received.length = 0;
+    pushServer.clear();
+  });
+
+  it('sends encrypted notifications the subscriber decrypts with its enc_key', async () => {
+    const client = new PushClient(url, owner);
+    await expect(client.subscribe([0, 1], true, 'firebase', { token: 'device' })).resolves.toEqual({ success: true, added: true });
+    await expect(client.subscribe([0, 1], true, 'firebase', { token: 'device' })).resolves.toEqual({ success: true, updated: true });
+
+    const sent = await pushServer.notify(owner.getX25519SessionId(), { namespace: 1, data: 'ping', hash: 'abc' });
+    await pushServer.notify(owner.getX25519SessionId(), { namespace: 2, data: 'not subscribed' });
+    expect(received).toEqual(sent);
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ service: 'firebase', service_info: { token: 'device' }, spns: 1 });
+
+    const { metadata, data } = await owner.decryptPushNotification(received[0].enc_payload);
+    expect(metadata).toEqual({ account: owner.getX25519SessionId().toLowerCase(), hash: 'abc', namespace: 1, dataLength: 4 });
+    expect(new TextDecoder().decode(data)).toBe('ping');
+  });
+
+  it('leaves the data out when it was not requested or is too large', async () => {
+    const client = new PushClient(url, owner);
+    await client.subscribe([0], false, 'apns', { token: 'a' });
+    await client.subscribe([0], true, 'apns', { token: 'b' });
+
+    const [withoutData, tooLarge] = await pushServer.notify(owner.getX25519SessionId(), {
+      namespace: 0,
+      data: new Uint8Array(MAX_PUSH_DATA_LENGTH + 1)
+    });
+    expect(await owner.decryptPushNotification(withoutData.enc_payload)).toEqual({
+      metadata: expect.not.objectContaining({ dataTooLong: true })
+    });
+    expect(await owner.decryptPushNotification(tooLarge.enc_payload)).toEqual({
+      metadata: expect.objectContaining({ dataLength: MAX_PUSH_DATA_LENGTH + 1, dataTooLong: true })
+    });
+  });
+
+  it('removes subscriptions on unsubscribe and rejects bad signatures', async () => {
+    const client = new PushClient(url, owner);
+    await client.subscribe([0], true, 'apns', { token: 'device' });
+    await expect(client.unsubscribe('apns', { token: 'device' })).resolves.toEqual({ success: true, removed: true });
+    expect(pushServer.getSubscriptions()).toEqual([]);
+
+    const tampered = { ...owner.getPushSubscribeParams([0]), namespaces: [0, 1] };
+    await expect(client.send('/subscribe', tampered)).rejects.toThrow(PushServerError);
+    await expect(client.send('/subscribe', tampered)).rejects.toThrow('/subscribe failed (1): invalid signature');
+  });
+
+  it('accepts unsubscribes signed by a subaccount with read permission', async () => {
+    const account = new PostmanParamsGenerator(OWNER_SEED);
+    const holder = new CryptoUtils(SUBACCOUNT_SEED);
+    const readOnly = account.generateSubaccountDelegation(holder.getPublicKeyHex(), 1, 0);
+    const writeOnly = account.generateSubaccountDelegation(holder.getPublicKeyHex(), 2, 0);
+    await new PushClient(url, account).subscribe([0], true, 'apns', { token: 'device' });
+
+    const client = new PushClient(url, account);
+    expect(() => account.getPushUnsubscribeParamsWithSubaccount('apns', { token: 'device' }, writeOnly.subaccountToken, writeOnly.subaccountSignature, holder))
+      .toThrow('lacks read permission');
+
+    // Swapping in the write-only token after signing leaves the rejection to the server
+    const denied = {
+      ...account.getPushUnsubscribeParamsWithSubaccount('apns', { token: 'device' }, readOnly.subaccountToken, readOnly.subaccountSignature, holder),
+      subaccount: writeOnly.subaccountToken,
+      subaccount_sig: writeOnly.subaccountSignature
+    };
+    await expect(client.send('/unsubscribe', denied)).rejects.toThrow('subaccount lacks read permission');
+
+    const allowed = account.getPushUnsubscribeParamsWithSubaccount('apns', { token: 'device' }, readOnly.subaccountToken, readOnly.subaccountSignature, holder);
+    await expect(client.send('/unsubscribe', allowed)).resolves.toEqual({ success: true, removed: true });
+  });
+
+  it('accepts subscriptions signed by a subaccount', async () => {
+    const account = new PostmanParamsGenerator(OWNER_SEED);
+    const holder = new CryptoUtils(SUBACCOUNT_SEED);
+    const { subaccountToken, subaccountSignature } = account.generateSubaccountDelegation(holder.getPublicKeyHex(), 1, 0);
+    const params = account.getPushSubscribeParamsWithSubaccount([0, 1], true, 'apns', { token: 'device' }, subaccountToken, subaccountSignature, holder);
+
+    await expect(new PushClient(url, account).send('/subscribe', params)).resolves.toEqual({ success: true, added: true });
+    const [sent] = await pushServer.notify(account.getPublicKey(), { namespace: 1, data: 'ping' });
+    expect((await account.decryptPushNotification(sent.enc_payload)).metadata.namespace).toBe(1);
+  });
+
+  it('keeps the deprecated subaccount arguments of getPushSubscribeParams working', async () => {
+    const account = new PostmanParamsGenerator(OWNER_SEED);
+    const holder = new CryptoUtils(SUBACCOUNT_SEED);
+    const { subaccountToken, subaccountSignature } = account.generateSubaccountDelegation(holder.getPublicKeyHex(), 1, 0);
+    const params = account.getPushSubscribeParams([0], true, 'apns', { token: 'device' }, subaccountToken, subaccountSignature, holder);
+
+    expect(params).toMatchObject({ subaccount: subaccountToken, subaccount_sig: subaccountSignature });
+    await expect(new PushClient(url, account).send('/subscribe', params)).resolves.toEqual({ success: true, added: true });
+    expect(() => (account.getPushSubscribeParams as (...args: unknown[]) => unknown)([0], true, 'apns', { token: 'device' }, subaccountToken, subaccountSignature))
+      .toThrow('use getPushSubscribeParamsWithSubaccount');
+  });
+});
@@ -0,0 +1,169 @@
+import * as hex from '@stablelib/hex';
+import { CryptoUtils } from '../src/crypto';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { BatchRequestBuilder } from '../src/batch-builder';
+import { formatVerificationReport, verifyRequest } from '../src/request-verifier';
+
+const OWNER_SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+const SUBACCOUNT_SEED = hex.decode('2466D62FFF7246D201B111FEE08F4B9DCE7CD9303436CA3555E84BF99A0CEE19');
+const NOW = 1753933969153;
+
+describe('verifyRequest', () => {
+  const owner = new PostmanParamsGenerator(OWNER_SEED);
+  const ownerCrypto = new CryptoUtils(OWNER_SEED);
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe.each([
+    ['owner', false],
+    ['session id', true]
+  ])('%s mode', (_mode, isSessionId) => {
+    const generator = new PostmanParamsGenerator(OWNER_SEED, isSessionId);
+
+    it('accepts every signed request the generator builds', () => {
+      const requests = [
+        generator.getStoreParams('data', 86400000, 3),
+        generator.getRetrieveParams(undefined, 0),
+        generator.getRetrieveParams(undefined, 5),
+        generator.getDeleteParams(['hash1', 'hash2']),
+        generator.getDeleteAllParams(0),
+        generator.getDeleteAllParams(4),
+        generator.getDeleteBeforeParams(NOW - 1000),
+        generator.getDeleteBeforeParams(NOW - 1000, 3),
+        generator.getUpdateParams('new', 'hash1'),
+        generator.getExpiriesParams(['hash1']),
+        generator.getExpireAllParams(NOW + 1000),
+        generator.getExpireAllParams(NOW + 1000, 2),
+        generator.getExpireAllParams(NOW + 1000, 'all'),
+        generator.getMessagesParams(),
+        generator.getExpireMsgsParams(['hash1'], NOW + 1000, true),
+        generator.getUnrevokeSubaccountParams(['00']),
+        generator.getRevokedSubaccountsParams()
+      ];
+
+      for (const request of requests) {
+        const report = verifyRequest(request);
+        expect({ method: request.method, issues: report.issues }).toEqual({ method: request.method, issues: [] });
+        expect(report.signed).toBe(true);
+        expect(report.keySource).toBe(isSessionId ? 'pubkey_ed25519' : 'pubkey');
+      }
+    });
+  });
+
+  it('treats public namespace deposits and informational methods as unsigned', () => {
+    expect(verifyRequest(owner.getStoreParams('data', 86400000, 0))).toMatchObject({ valid: true, signed: false });
+    expect(verifyRequest(owner.getSwarmParams())).toMatchObject({ valid: true, signed: false });
+  });
+
+  it('accepts subaccount requests signed with the blinded key', () => {
+    const subaccountUser = new CryptoUtils(SUBACCOUNT_SEED);
+    const delegation = owner.generateSubaccountDelegation(subaccountUser.getPublicKeyHex(), 7);
+    const request = owner.getRetrieveParamsWithSubaccount(
+      undefined, 0, 100, -5, delegation.subaccountToken, delegation.subaccountSignature, subaccountUser
+    );
+
+    expect(verifyRequest(request)).toMatchObject({ valid: true, keySource: 'subaccount' });
+  });
+
+  it('reports stale timestamps with the skew', () => {
+    const request = owner.getRetrieveParams(undefined, 2);
+    const report = verifyRequest(request, { now: NOW + 5 * 60 * 1000 });
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ field: 'timestamp', message: expect.stringContaining('300s behind') })
+    ]);
+  });
+
+  it('traces a namespace signed in the wrong format', () => {
+    const request = owner.getRetrieveParams(undefined, 0);
+    request.params.signature = ownerCrypto.signMessage(`retrieve0${request.params.timestamp}`);
+
+    expect(verifyRequest(request).issues).toEqual([
+      expect.objectContaining({ field: 'namespace', message: expect.stringContaining('covers namespace "0"') })
+    ]);
+  });
+
+  it('reports namespace "all" on methods that take a single namespace instead of throwing', () => {
+    for (const request of [owner.getStoreParams('hi', 86400000, 1), owner.getRetrieveParams(undefined, 1)]) {
+      const edited = { ...request, params: { ...request.params, namespace: 'all' } };
+      for (const input of [edited, JSON.stringify(edited)]) {
+        expect(verifyRequest(input)).toMatchObject({
+          valid: false,
+          issues: [{ field: 'namespace', severity: 'error', message: `${request.method} takes a single namespace, not "all"` }]
+        });
+      }
+    }
+    expect(verifyRequest(owner.getDeleteAllParams('all')).valid).toBe(true);
+  });
+
+  it('traces a signature over the wrong timestamp field', () => {
+    const request = owner.getStoreParams('data', 86400000, 3);
+    request.params.sig_timestamp = NOW - 1000;
+
+    expect(verifyRequest(request).issues).toEqual([
+      expect.objectContaining({ field: 'sig_timestamp', message: expect.stringContaining('covers timestamp') })
+    ]);
+  });
+
+  it('traces subaccount requests signed with the owner key', () => {
+    const subaccountUser = new CryptoUtils(SUBACCOUNT_SEED);
+    const delegation = owner.generateSubaccountDelegation(subaccountUser.getPublicKeyHex(), 7);
+    const request = new PostmanParamsGenerator(OWNER_SEED, true).getDeleteParams(['hash1']);
+    Object.assign(request.params, { subaccount: delegation.subaccountToken, subaccount_sig: delegation.subaccountSignature });
+
+    expect(verifyRequest(request).issues).toEqual([
+      expect.objectContaining({ field: 'subaccount', message: expect.stringContaining('signed by the account owner') })
+    ]);
+  });
+
+  it('checks subaccount permissions and token signatures', () => {
+    const subaccountUser = new CryptoUtils(SUBACCOUNT_SEED);
+    const readOnly = owner.generateSubaccountDelegation(subaccountUser.getPublicKeyHex(), 1);
+    const fullAccess = owner.generateSubaccountDelegation(subaccountUser.getPublicKeyHex(), 7);
+    // The generator refuses read-only tokens for deletes, so the token is swapped afterwards
+    const deleteRequest = owner.getDeleteParamsWithSubaccount(
+      ['hash1'], true, fullAccess.subaccountToken, fullAccess.subaccountSignature, subaccountUser
+    );
+    Object.assign(deleteRequest.params, { subaccount: readOnly.subaccountToken, subaccount_sig: readOnly.subaccountSignature });
+    expect(verifyRequest(deleteRequest).issues[0]).toMatchObject({ field: 'subaccount', message: expect.stringContaining('lack required bits 4') });
+
+    deleteRequest.params.subaccount_sig = deleteRequest.params.signature;
+    expect(verifyRequest(deleteRequest).issues[0]).toMatchObject({ field: 'subaccount_sig' });
+  });
+
+  it('rejects a pubkey_ed25519 that does not match a Session ID', () => {
+    const request = new PostmanParamsGenerator(OWNER_SEED, true).getRetrieveParams(undefined, 2);
+    request.params.pubkey_ed25519 = new CryptoUtils(SUBACCOUNT_SEED).getPublicKeyHex();
+
+    expect(verifyRequest(request).issues[0]).toMatchObject({ field: 'pubkey_ed25519' });
+  });
+
+  it('reports failing batch sub-requests by index', () => {
+    const builder = new BatchRequestBuilder(owner);
+    builder.retrieve(undefined, 0);
+    builder.add({ ...owner.getDeleteAllParams(1), method: 'delete' });
+    const report = verifyRequest(builder.build());
+
+    expect(report.valid).toBe(false);
+    expect(report.requests!.map(sub => sub.valid)).toEqual([true, false]);
+    expect(report.issues[0].field).toBe('requests[1].method');
+  });
+
+  it('accepts JSON pasted from Postman and formats the report', () => {
+    const json = JSON.stringify(owner.getRetrieveParams(undefined, 2));
+    const report = verifyRequest(json);
+
+    expect(report.valid).toBe(true);
+    expect(formatVerificationReport(report)).toBe(
+      `✅ retrieve: signed (key from pubkey)\n   signing string: retrieve2${NOW}`
+    );
+    expect(verifyRequest('{not json').issues[0]).toMatchObject({ field: 'body' });
+  });
+});
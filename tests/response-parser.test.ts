@@ -0,0 +1,118 @@
+import * as hex from '@stablelib/hex';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { MockStorageServer } from '../src/mock-storage-server';
+import { StorageClient } from '../src/storage-client';
+import { BatchResults } from '../src/batch-builder';
+import { StorageInvalidResponseError } from '../src/errors';
+import {
+  decodeMessages,
+  parseDeleteResult,
+  parseGetSwarmResult,
+  parseOxendRequestResult,
+  parseResponse,
+  parseRetrieveResult,
+  parseStatsResult,
+  parseStoreResult,
+  parseVersionResult
+} from '../src/response-parser';
+
+const SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+const SNODE = 'ab'.repeat(32);
+
+function parseError(parse: () => unknown): StorageInvalidResponseError {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof StorageInvalidResponseError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('expected the response to be rejected');
+}
+
+describe('response parsers', () => {
+  it('rejects results that do not match the model, naming the field', () => {
+    const retrieve = parseError(() => parseRetrieveResult({ messages: [{ hash: 1, timestamp: 1, expiration: 2, data: '' }] }));
+    expect(retrieve).toMatchObject({ method: 'retrieve', path: 'messages[0].hash', code: 0 });
+    expect(retrieve.message).toBe('retrieve failed (0): invalid response: messages[0].hash must be a string, got number');
+
+    expect(parseError(() => parseRetrieveResult({ messages: [{ hash: 'h', timestamp: 1, expiration: 2, data: '%%' }] })).path)
+      .toBe('messages[0].data');
+    expect(parseError(() => parseStoreResult({ swarm: { [SNODE]: { hash: 'h' } } })).path).toBe(`swarm.${SNODE}.signature`);
+    expect(parseError(() => parseStoreResult({ swarm: { node: { hash: 'h', signature: 's' } } })).path).toBe('swarm.node');
+    expect(parseError(() => parseGetSwarmResult({ snodes: [{ ip: '1.2.3.4', port: 22021, pubkey_ed25519: 'x', pubkey_x25519: SNODE }] })).path)
+      .toBe('snodes[0].pubkey_ed25519');
+    expect(parseError(() => parseResponse('get_expiries', null)).path).toBe('result');
+  });
+
+  it('accepts failed snodes and per-namespace hash lists', () => {
+    const result = parseDeleteResult({
+      swarm: {
+        [SNODE]: { deleted: { '0': ['a'], '-10': [] }, signature: 'sig' },
+        ['cd'.repeat(32)]: { failed: true, code: 503, reason: 'unreachable' }
+      },
+      t: 1
+    }, 'delete_all');
+    expect(result.swarm[SNODE].deleted).toEqual({ '0': ['a'], '-10': [] });
+    expect(result.swarm['cd'.repeat(32)].failed).toBe(true);
+  });
+
+  it('passes results of methods without a model through', () => {
+    const bstats = { anything: true };
+    expect(parseResponse('get_bstats', bstats)).toBe(bstats);
+  });
+
+  it('checks version, stats and oxend results', () => {
+    expect(parseVersionResult({ version: [2, 10, 0], t: 1 })).toEqual({ version: [2, 10, 0], t: 1 });
+    expect(parseError(() => parseVersionResult({ version: '2.10.0' })).path).toBe('version');
+
+    const stats = { version: '2.10.0', client_store_requests: 3, peers: {} };
+    expect(parseStatsResult(stats)).toBe(stats);
+    expect(parseError(() => parseStatsResult({ total_stored: '3' })).path).toBe('total_stored');
+
+    expect(parseResponse('oxend_request', { service_node_states: [] })).toEqual({ service_node_states: [] });
+    expect(parseError(() => parseOxendRequestResult([])).message)
+      .toBe('oxend_request failed (0): invalid response: result must be an object, got array');
+  });
+
+  it('turns a malformed batch sub-result into a failed outcome', () => {
+    const results = new BatchResults(['retrieve', 'retrieve'], {
+      results: [{ code: 200, body: { messages: 'none' } }, { code: 200, body: { messages: [] } }]
+    });
+    const [invalid, valid] = results.all();
+    expect(invalid).toMatchObject({ ok: false, code: 200, error: expect.any(StorageInvalidResponseError) });
+    expect(valid).toMatchObject({ ok: true, result: { messages: [] } });
+  });
+
+  describe('against the mock storage server', () => {
+    const server = new MockStorageServer();
+    const generator = new PostmanParamsGenerator(SEED);
+    let client: StorageClient;
+
+    beforeAll(async () => {
+      client = new StorageClient(await server.start(), generator);
+    });
+
+    afterAll(() => server.stop());
+
+    it('parses the result of every RPC with a model', async () => {
+      const { hash } = await client.store('typed', 86400000, 1);
+      expect(hash).toEqual(expect.any(String));
+
+      const retrieved = await client.retrieve(undefined, 1);
+      expect(decodeMessages(retrieved).map(message => Buffer.from(message.bytes).toString())).toEqual(['typed']);
+
+      const expiry = generator.now() + 3600000;
+      await expect(client.getExpiries([hash!])).resolves.toMatchObject({ expiries: { [hash!]: expect.any(Number) } });
+      await expect(client.update('retyped', hash!)).resolves.toHaveProperty('swarm');
+      await expect(client.expire([hash!], expiry, true)).resolves.toHaveProperty('swarm');
+      await expect(client.expireAll(expiry - 1000, 'all')).resolves.toHaveProperty('swarm');
+      await expect(client.getRevokedSubaccounts()).resolves.toEqual({ revoked: [], t: expect.any(Number) });
+      await expect(client.getSwarm()).resolves.toMatchObject({ snodes: [server.getSnodeInfo()] });
+
+      const deleted = await client.delete([hash!]);
+      expect(Object.values(deleted.swarm).map(node => node.deleted)).toEqual([[hash]]);
+    });
+  });
+});
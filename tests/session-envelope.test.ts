@@ -0,0 +1,107 @@
+import * as hex from '@stablelib/hex';
+import * as ed25519 from '@stablelib/ed25519';
+import sodium from 'libsodium-wrappers-sumo';
+import { CryptoUtils } from '../src/crypto';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { MockStorageServer } from '../src/mock-storage-server';
+import { StorageClient } from '../src/storage-client';
+import {
+  addMessagePadding,
+  decryptSessionMessage,
+  encryptSessionMessage,
+  openSealedMessage,
+  removeMessagePadding,
+  sealForSessionId,
+  unwrapSessionEnvelope,
+  wrapSessionEnvelope
+} from '../src/session-envelope';
+
+const ALICE_SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+const BOB_SEED = hex.decode('2466D62FFF7246D201B111FEE08F4B9DCE7CD9303436CA3555E84BF99A0CEE19');
+
+describe('Session message envelopes', () => {
+  const alice = new PostmanParamsGenerator(ALICE_SEED, true);
+  const bob = new PostmanParamsGenerator(BOB_SEED, true);
+  const aliceCrypto = new CryptoUtils(ALICE_SEED);
+  const bobCrypto = new CryptoUtils(BOB_SEED);
+
+  it('pads to multiples of 160 bytes and strips the padding again', () => {
+    for (const length of [0, 1, 158, 159, 160, 500]) {
+      const content = new Uint8Array(length).fill(0x42);
+      const padded = addMessagePadding(content);
+      expect(padded.length % 160).toBe(0);
+      expect(padded.length).toBeGreaterThan(length);
+      expect(removeMessagePadding(padded)).toEqual(content);
+    }
+    expect(() => removeMessagePadding(new Uint8Array([1, 2, 3]))).toThrow('Invalid message padding');
+  });
+
+  it('round-trips the protobuf envelope framing', () => {
+    const content = new Uint8Array(300).fill(9);
+    expect(unwrapSessionEnvelope(wrapSessionEnvelope(content, 1753933969153))).toEqual({
+      type: 6,
+      timestamp: 1753933969153,
+      content
+    });
+  });
+
+  it('decrypts a message for the recipient and identifies the sender', async () => {
+    const data = await encryptSessionMessage('Hello Bob!', bob.getX25519SessionId(), aliceCrypto, 1753933969153);
+    const opened = await decryptSessionMessage(data, bobCrypto);
+
+    expect(new TextDecoder().decode(opened.plaintext)).toBe('Hello Bob!');
+    expect(opened.senderSessionId).toBe(alice.getX25519SessionId().toLowerCase());
+    expect(opened.senderEd25519).toBe(alice.getPublicKeyNoPrefix().toLowerCase());
+    expect(opened.timestamp).toBe(1753933969153);
+  });
+
+  it('cannot be opened by anyone but the recipient', async () => {
+    const data = await encryptSessionMessage('Hello Bob!', bob.getX25519SessionId(), aliceCrypto);
+    await expect(decryptSessionMessage(data, aliceCrypto)).rejects.toThrow('not sealed for this Session ID');
+  });
+
+  it('rejects messages whose signature does not cover the recipient', async () => {
+    await sodium.ready;
+    const plaintext = new TextEncoder().encode('forged');
+    const senderEd25519 = aliceCrypto.getEd25519KeyPair().publicKey;
+    // Signed without the recipient's X25519 key, as a replayed message would be
+    const signature = ed25519.sign(aliceCrypto.getEd25519KeyPair().secretKey, new Uint8Array([...plaintext, ...senderEd25519]));
+    const sealed = sodium.crypto_box_seal(new Uint8Array([...plaintext, ...senderEd25519, ...signature]), bobCrypto.getX25519PublicKey());
+
+    await expect(openSealedMessage(sealed, bobCrypto)).rejects.toThrow('sender signature does not verify');
+    await expect(openSealedMessage(await sealForSessionId(plaintext, bob.getX25519SessionId(), aliceCrypto), bobCrypto))
+      .resolves.toMatchObject({ plaintext });
+  });
+
+  it('rejects malformed Session IDs', async () => {
+    await expect(encryptSessionMessage('hi', alice.getPublicKey(), aliceCrypto)).rejects.toThrow('Invalid Session ID');
+  });
+
+  it('only deposits encrypted messages in public namespaces', async () => {
+    const { params } = await alice.getEncryptedStoreParams('hi', bob.getX25519SessionId());
+    expect(params.pubkey).toBe(bob.getX25519SessionId());
+    expect(params.signature).toBeUndefined();
+    expect(params.data).not.toBe(alice.encodeData('hi'));
+    await expect(alice.getEncryptedStoreParams('hi', bob.getX25519SessionId(), 86400000, 2)).rejects.toThrow('public namespaces');
+  });
+
+  describe('against the mock storage server', () => {
+    const server = new MockStorageServer();
+
+    afterAll(() => server.stop());
+
+    it('delivers an encrypted message from Alice to Bob', async () => {
+      const baseUrl = await server.start();
+      const aliceClient = new StorageClient(baseUrl, alice);
+      const bobClient = new StorageClient(baseUrl, bob);
+
+      const stored = await aliceClient.storeEncrypted('Hello Bob!', bob.getX25519SessionId());
+      const { messages } = await bobClient.retrieve(undefined, 0);
+
+      expect(messages.map(m => m.hash)).toEqual([stored.hash]);
+      const opened = await bob.decryptMessage(messages[0].data);
+      expect(new TextDecoder().decode(opened.plaintext)).toBe('Hello Bob!');
+      expect(opened.senderSessionId).toBe(alice.getX25519SessionId().toLowerCase());
+    });
+  });
+});
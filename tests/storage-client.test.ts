@@ -0,0 +1,157 @@
+import * as hex from '@stablelib/hex';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { MockStorageServer } from '../src/mock-storage-server';
+import { StorageClient } from '../src/storage-client';
+import {
+  StorageBadRequestError,
+  StorageClockOutOfSyncError,
+  StorageNetworkError,
+  StorageNotFoundError,
+  StorageRpcError,
+  StorageUnauthorizedError,
+  StorageWrongSwarmError
+} from '../src/errors';
+import { RetrieveResult, StoreResult } from '../src/types';
+
+const SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+const SKEW = 10 * 60 * 1000;
+
+/**
+ * Mock server answering in the StorageResponse envelope: results as `{ result }` and
+ * rejections as `{ error: { code, message } }` with HTTP 200
+ */
+class EnvelopeStorageServer extends MockStorageServer {
+  handleRequest(body: any): [number, any] {
+    const [status, result] = super.handleRequest(body);
+    return status === 200
+      ? [200, { result }]
+      : [200, { error: { code: status, message: typeof result === 'string' ? result : JSON.stringify(result) } }];
+  }
+}
+
+async function rejection(promise: Promise<unknown>): Promise<StorageRpcError> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof StorageRpcError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('expected the request to be rejected');
+}
+
+describe('StorageClient', () => {
+  const server = new MockStorageServer();
+  const generator = new PostmanParamsGenerator(SEED);
+  let client: StorageClient;
+
+  beforeAll(async () => {
+    client = new StorageClient(await server.start(), generator);
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.setSwarmRedirect(undefined);
+    server.clear();
+  });
+
+  it('sends prepared requests and returns their results', async () => {
+    const stored = await client.send<StoreResult>(generator.getStoreParams('hello', 86400000, 0));
+    expect(stored.hash).toEqual(expect.any(String));
+
+    const retrieved = await client.send<RetrieveResult>(generator.getRetrieveParams(undefined, 0));
+    expect(retrieved.messages.map(message => message.hash)).toEqual([stored.hash]);
+  });
+
+  it('deletes the messages of every namespace with deleteAll(\'all\')', async () => {
+    await client.send(generator.getStoreParams('zero', 86400000, 0));
+    await client.send(generator.getStoreParams('one', 86400000, 1));
+
+    await client.deleteAll('all');
+    expect(server.getStoredMessages(generator.getPublicKey())).toEqual([]);
+  });
+
+  it('decodes error statuses into typed errors', async () => {
+    const tampered = generator.getRetrieveParams(undefined, 0);
+    tampered.params.signature = generator.getRetrieveParams(undefined, 1).params.signature;
+    const unauthorized = await rejection(client.send(tampered));
+    expect(unauthorized).toBeInstanceOf(StorageUnauthorizedError);
+    expect(unauthorized).toMatchObject({ method: 'retrieve', code: 401 });
+
+    const badRequest = await rejection(client.send({ method: 'no_such_method', params: {} }));
+    expect(badRequest).toBeInstanceOf(StorageBadRequestError);
+    expect(badRequest.message).toContain('invalid method: no_such_method');
+
+    await expect(client.delete(['missing'], true)).rejects.toBeInstanceOf(StorageNotFoundError);
+
+    server.setSwarmRedirect([server.getSnodeInfo()]);
+    const wrongSwarm = await rejection(client.retrieve(undefined, 0));
+    expect(wrongSwarm).toBeInstanceOf(StorageWrongSwarmError);
+    expect((wrongSwarm as StorageWrongSwarmError).swarm).toEqual({ snodes: [server.getSnodeInfo()] });
+  });
+
+  it('reports unreachable servers as network errors', async () => {
+    const offline = new MockStorageServer();
+    const url = await offline.start();
+    await offline.stop();
+
+    const error = await rejection(new StorageClient(url, generator).retrieve(undefined, 0));
+    expect(error).toBeInstanceOf(StorageNetworkError);
+    expect(error).toMatchObject({ method: 'retrieve', code: 0 });
+  });
+
+  describe('with StorageResponse envelopes', () => {
+    const envelopeServer = new EnvelopeStorageServer();
+    let envelopeClient: StorageClient;
+
+    beforeAll(async () => {
+      envelopeClient = new StorageClient(await envelopeServer.start(), generator);
+    });
+
+    afterAll(async () => {
+      await envelopeServer.stop();
+    });
+
+    it('unwraps `{ result }` bodies', async () => {
+      const { hash } = await envelopeClient.store('wrapped', 86400000, 0);
+      await expect(envelopeClient.retrieve(undefined, 0)).resolves.toMatchObject({ messages: [{ hash }] });
+    });
+
+    it('decodes `{ error }` bodies by their code', async () => {
+      const tampered = generator.getRetrieveParams(undefined, 0);
+      tampered.params.signature = generator.getRetrieveParams(undefined, 1).params.signature;
+
+      await expect(envelopeClient.send(tampered)).rejects.toBeInstanceOf(StorageUnauthorizedError);
+      await expect(envelopeClient.delete(['missing'], true)).rejects.toBeInstanceOf(StorageNotFoundError);
+    });
+  });
+});
+
+describe('StorageClient clock sync', () => {
+  // The node's clock runs ten minutes ahead of this machine's
+  const server = new MockStorageServer({ now: () => Date.now() + SKEW });
+  let url: string;
+
+  beforeAll(async () => {
+    url = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('corrects the generator clock from the node time returned by get_swarm', async () => {
+    const generator = new PostmanParamsGenerator(SEED);
+    const client = new StorageClient(url, generator);
+    await expect(client.retrieve(undefined, 0)).rejects.toBeInstanceOf(StorageClockOutOfSyncError);
+
+    const offset = await client.syncClock();
+    expect(Math.abs(offset - SKEW)).toBeLessThan(5000);
+    expect(generator.getClockOffset()).toBe(offset);
+    await expect(client.retrieve(undefined, 0)).resolves.toMatchObject({ messages: [] });
+  });
+});
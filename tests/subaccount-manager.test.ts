@@ -0,0 +1,131 @@
+import * as hex from '@stablelib/hex';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { SubaccountManager, SubaccountPermission, describeSubaccountPermissions } from '../src/subaccount-manager';
+import { MockStorageServer } from '../src/mock-storage-server';
+import { StorageClient } from '../src/storage-client';
+import { StorageUnauthorizedError } from '../src/errors';
+import { verifyRequest } from '../src/request-verifier';
+import { RevokedSubaccountsResult, StoreResult } from '../src/types';
+
+const OWNER_SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+const SUBACCOUNT_SEED = hex.decode('2466D62FFF7246D201B111FEE08F4B9DCE7CD9303436CA3555E84BF99A0CEE19');
+
+describe('SubaccountManager', () => {
+  const owner = new PostmanParamsGenerator(OWNER_SEED);
+  const subaccountUser = PostmanParamsGenerator.createSubaccountUser(SUBACCOUNT_SEED);
+
+  it('records issued tokens with their permissions', () => {
+    const manager = new SubaccountManager(owner);
+    const record = manager.issue(subaccountUser.getPublicKeyHex(), SubaccountPermission.Read | SubaccountPermission.Write, 0, 'qa');
+
+    expect(record.token.slice(0, 4)).toBe('0003');
+    expect(record.label).toBe('qa');
+    expect(manager.get(record.token.toLowerCase())).toBe(record);
+    expect(describeSubaccountPermissions(record.permissions)).toEqual({
+      read: true, write: true, delete: false, anyPrefix: false
+    });
+  });
+
+  it('tracks revocation and batch unrevocation', () => {
+    const manager = new SubaccountManager(owner);
+    const first = manager.issue(subaccountUser.getPublicKeyHex(), 1, 0);
+    const second = manager.issue(subaccountUser.getPublicKeyHex(), 7, 0);
+
+    expect(manager.revoke(first.token).method).toBe('revoke_subaccount');
+    manager.revoke(second.token);
+    expect(manager.list({ revoked: true })).toHaveLength(2);
+
+    const request = manager.unrevoke([first.token, second.token]);
+    expect(request.method).toBe('unrevoke_subaccount');
+    expect(request.params.unrevoke).toEqual([first.token, second.token]);
+    expect(manager.list({ revoked: false })).toHaveLength(2);
+  });
+
+  it('reconciles local state with the server revocation list', () => {
+    const manager = new SubaccountManager(owner);
+    const record = manager.issue(subaccountUser.getPublicKeyHex(), 1, 0);
+
+    expect(manager.syncRevoked([record.token, 'ff'.repeat(36)])).toEqual(['ff'.repeat(36)]);
+    expect(manager.get(record.token)!.revoked).toBe(true);
+
+    manager.syncRevoked([]);
+    expect(manager.get(record.token)!.revoked).toBe(false);
+  });
+
+  it('round-trips records through JSON', () => {
+    const manager = new SubaccountManager(owner);
+    manager.issue(subaccountUser.getPublicKeyHex(), 1, 0);
+
+    const restored = new SubaccountManager(owner);
+    restored.load(JSON.parse(JSON.stringify(manager.toJSON())));
+    expect(restored.list()).toEqual(manager.list());
+  });
+
+  it('rejects unknown tokens', () => {
+    expect(() => new SubaccountManager(owner).revoke('00')).toThrow('Unknown subaccount token');
+  });
+
+  describe('against the mock storage server', () => {
+    const server = new MockStorageServer();
+    let client: StorageClient;
+
+    beforeAll(async () => {
+      client = new StorageClient(await server.start(), owner);
+    });
+
+    afterAll(() => server.stop());
+
+    it('blocks revoked tokens until they are unrevoked', async () => {
+      const manager = new SubaccountManager(owner);
+      const record = manager.issue(subaccountUser.getPublicKeyHex(), SubaccountPermission.Read, 0);
+      const retrieve = () => client.send(owner.getRetrieveParamsWithSubaccount(
+        undefined, 0, 100, -5, record.token, record.signature, subaccountUser
+      ));
+
+      await expect(retrieve()).resolves.toHaveProperty('messages');
+
+      await client.send(manager.revoke(record.token));
+      await expect(retrieve()).rejects.toBeInstanceOf(StorageUnauthorizedError);
+
+      const { revoked } = await client.send<RevokedSubaccountsResult>(manager.listRevokedRequest());
+      expect(manager.syncRevoked(revoked)).toEqual([]);
+
+      await client.send(manager.unrevoke([record.token]));
+      await expect(retrieve()).resolves.toHaveProperty('messages');
+      expect((await client.getRevokedSubaccounts()).revoked).toEqual([]);
+    });
+
+    it('issues tokens that sign requests for the account of the generator by default', async () => {
+      const sessionOwner = new PostmanParamsGenerator(OWNER_SEED, true);
+      for (const generator of [owner, sessionOwner]) {
+        const record = new SubaccountManager(generator).issue(subaccountUser.getPublicKeyHex(), SubaccountPermission.Read | SubaccountPermission.Write);
+        expect(record.networkPrefix).toBe(generator.getSessionIdMode() ? 5 : 0);
+
+        const store = generator.getStoreParamsWithSubaccount('issued', 86400000, 1, record.token, record.signature, subaccountUser);
+        expect(store.params.pubkey).toBe(generator.getAuthStrategy().getPubkey());
+        await expect(client.send(store)).resolves.toHaveProperty('hash');
+      }
+      expect(server.getStoredMessages(sessionOwner.getX25519SessionId())).toHaveLength(1);
+    });
+
+    it('accepts every subaccount-signed method from a full-access delegate', async () => {
+      const record = new SubaccountManager(owner).issue(subaccountUser.getPublicKeyHex(), 7, 0);
+      const auth = [record.token, record.signature, subaccountUser] as const;
+      const { hash } = await client.send<StoreResult>(owner.getStoreParamsWithSubaccount('first', 86400000, 1, ...auth));
+      const expiry = owner.now() + 3600000;
+
+      const requests = [
+        owner.getExpiriesParamsWithSubaccount([hash!], ...auth),
+        owner.getUpdateParamsWithSubaccount('second', hash!, ...auth),
+        owner.getExpireMsgsParamsWithSubaccount([hash!], expiry, true, undefined, ...auth),
+        owner.getExpireAllParamsWithSubaccount(expiry - 1000, 'all', ...auth),
+        owner.getDeleteAllParamsWithSubaccount(1, ...auth)
+      ];
+      for (const request of requests) {
+        expect(verifyRequest(request)).toMatchObject({ valid: true, keySource: 'subaccount' });
+        await expect(client.send(request)).resolves.toBeDefined();
+      }
+      expect(server.getStoredMessages(owner.getPublicKey())).toEqual([]);
+    });
+  });
+});
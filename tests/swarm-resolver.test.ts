@@ -0,0 +1,108 @@
+import * as hex from '@stablelib/hex';
+import { PostmanParamsGenerator } from '../src/postman-params';
+import { MockStorageServer } from '../src/mock-storage-server';
+import { SwarmResolver } from '../src/swarm-resolver';
+import { StorageNetworkError, StorageUnauthorizedError } from '../src/errors';
+import { RetrieveResult, SnodeInfo, StoreResult } from '../src/types';
+
+const SEED = hex.decode('610987A8DFB79BCFE635A14CFA1F22D9D4BF2A28A9A707D19CF2FFC03AA59F16');
+
+describe('SwarmResolver', () => {
+  const generator = new PostmanParamsGenerator(SEED);
+  const pubkey = generator.getPublicKey();
+  const primary = new MockStorageServer();
+  const secondary = new MockStorageServer();
+  let primaryUrl: string;
+  let deadNode: SnodeInfo;
+
+  beforeAll(async () => {
+    primaryUrl = await primary.start();
+    await secondary.start();
+
+    // A node that has gone offline since it was cached
+    const offline = new MockStorageServer();
+    await offline.start();
+    deadNode = offline.getSnodeInfo();
+    await offline.stop();
+  });
+
+  afterAll(async () => {
+    await primary.stop();
+    await secondary.stop();
+  });
+
+  afterEach(() => {
+    primary.setSwarmRedirect(undefined);
+    primary.clear();
+    secondary.clear();
+  });
+
+  it('resolves the swarm through a seed node and caches it until the TTL expires', async () => {
+    let now = 1000;
+    const resolver = new SwarmResolver(generator, { seedNodes: [primaryUrl], protocol: 'http', ttlMs: 500, now: () => now });
+
+    const swarm = await resolver.getSwarm(pubkey);
+    expect(swarm.map(snode => snode.pubkey_ed25519)).toEqual([primary.getSnodeInfo().pubkey_ed25519]);
+
+    primary.setSwarmRedirect([secondary.getSnodeInfo()]);
+    expect(await resolver.getSwarm(pubkey)).toEqual(swarm);
+
+    now += 501;
+    expect((await resolver.getSwarm(pubkey))[0].pubkey_ed25519).toBe(secondary.getSnodeInfo().pubkey_ed25519);
+  });
+
+  it('sends requests to a swarm member and returns the result', async () => {
+    const resolver = new SwarmResolver(generator, { seedNodes: [primaryUrl], protocol: 'http' });
+
+    const stored = await resolver.send<StoreResult>(generator.getStoreParams('aGVsbG8=', 86400000, 1));
+    expect(primary.getStoredMessages(pubkey, 1).map(m => m.hash)).toEqual([stored.hash]);
+  });
+
+  it('fails over to another member on connection errors and drops the dead node', async () => {
+    const resolver = new SwarmResolver(generator, { protocol: 'http', random: () => 0 });
+    resolver.setSwarm(pubkey, [deadNode, primary.getSnodeInfo()]);
+
+    await resolver.send<StoreResult>(generator.getStoreParams('aGVsbG8=', 86400000, 1));
+    expect(primary.getStoredMessages(pubkey, 1)).toHaveLength(1);
+    expect((await resolver.getSwarm(pubkey)).map(snode => snode.pubkey_ed25519)).toEqual([primary.getSnodeInfo().pubkey_ed25519]);
+  });
+
+  it('follows 421 responses to the swarm returned by the node', async () => {
+    const resolver = new SwarmResolver(generator, { protocol: 'http' });
+    resolver.setSwarm(pubkey, [primary.getSnodeInfo()]);
+    primary.setSwarmRedirect([secondary.getSnodeInfo()]);
+
+    const stored = await resolver.send<StoreResult>(generator.getStoreParams('aGVsbG8=', 86400000, 1));
+    const retrieved = await resolver.send<RetrieveResult>(generator.getRetrieveParams(undefined, 1));
+
+    expect(retrieved.messages.map(m => m.hash)).toEqual([stored.hash]);
+    expect(secondary.getStoredMessages(pubkey, 1)).toHaveLength(1);
+    expect((await resolver.getSwarm(pubkey))[0].pubkey_ed25519).toBe(secondary.getSnodeInfo().pubkey_ed25519);
+  });
+
+  it('does not retry requests the swarm rejected', async () => {
+    const resolver = new SwarmResolver(generator, { protocol: 'http' });
+    resolver.setSwarm(pubkey, [primary.getSnodeInfo()]);
+
+    const request = generator.getDeleteAllParams(1);
+    request.params.signature = generator.getDeleteAllParams(2).params.signature;
+    await expect(resolver.send(request)).rejects.toThrow(StorageUnauthorizedError);
+  });
+
+  it('throws the last connection error when no member is reachable', async () => {
+    const resolver = new SwarmResolver(generator, { protocol: 'http' });
+    resolver.setSwarm(pubkey, [deadNode]);
+
+    await expect(resolver.send(generator.getRetrieveParams())).rejects.toThrow(StorageNetworkError);
+    await expect(resolver.getSwarm(pubkey)).rejects.toThrow('no seed nodes configured');
+  });
+
+  it('skips members without a usable address', () => {
+    const resolver = new SwarmResolver(generator);
+    const unknown = { ...deadNode, ip: '0.0.0.0' };
+
+    expect(resolver.setSwarm(pubkey, [unknown, deadNode])).toEqual([deadNode]);
+    expect(() => resolver.setSwarm(pubkey, [unknown])).toThrow('no reachable nodes');
+    expect(resolver.getNodeUrl(deadNode)).toBe(`https://127.0.0.1:${deadNode.port_https}`);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Fallback types for the parts of libsession_util_nodejs used by config-sync.ts
+ * tsconfig.json only resolves the module here when the package is not installed, so these never shadow its own typings.
+ * They were written from how config-sync.ts uses v0.5.5, not generated from or checked against the typings it ships
+ */
+export interface PushConfigResult {
+  data: Uint8Array;
+  seqno: number;
+  /** Hashes of the config messages this push supersedes */
+  hashes: string[];
+}
+
+export interface MergeSingle {
+  hash: string;
+  data: Uint8Array;
+}
+
+export declare class BaseConfigWrapperNode {
+  constructor(secretKey: Uint8Array, dump: Uint8Array | null);
+  needsDump(): boolean;
+  needsPush(): boolean;
+  push(): PushConfigResult;
+  dump(): Uint8Array;
+  confirmPushed(seqno: number, hash: string): void;
+  /** Returns the hashes of the messages that were accepted */
+  merge(toMerge: MergeSingle[]): string[];
+  currentHashes(): string[];
+}
+
+export declare class UserConfigWrapperNode extends BaseConfigWrapperNode {
+  getName(): string | null;
+  setName(name: string): void;
+}
+
+export declare class ContactsConfigWrapperNode extends BaseConfigWrapperNode {}
+
+export declare class ConvoInfoVolatileWrapperNode extends BaseConfigWrapperNode {}
+
+export declare class UserGroupsWrapperNode extends BaseConfigWrapperNode {}